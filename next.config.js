@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {}
+const nextConfig = {
+  experimental: {
+    // Loaded natively by the analyze route rather than bundled
+    serverComponentsExternalPackages: ['cheerio'],
+  },
+}
 
 module.exports = nextConfig
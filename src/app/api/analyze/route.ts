@@ -1,115 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisResult } from '@/types/analysis';
+import { fetchWithTimeout, normaliseInputUrl, withDeadline } from '@/lib/analyzer/fetch';
+import {
+  parseHtml,
+  extractMeta,
+  extractHeadings,
+  extractTechnical,
+  extractPages,
+  extractSocial,
+  extractInternalLinks,
+} from '@/lib/analyzer/extract';
+import { fetchRobotsTxt, isAllowed, getCrawlerAccess } from '@/lib/analyzer/robots';
+import { analyzeSitemaps } from '@/lib/analyzer/sitemap';
+import { analyzeRedirects } from '@/lib/analyzer/redirects';
+import { analyzeHeaders } from '@/lib/analyzer/headers';
+import { findMixedContent, summariseMixedContent } from '@/lib/analyzer/mixedContent';
+import { analyzeCanonical } from '@/lib/analyzer/canonical';
+import { analyzeHreflang } from '@/lib/analyzer/hreflang';
+import { analyzeStructuredData, summariseSchema, findSameAs } from '@/lib/analyzer/structuredData';
+import { analyzeImages } from '@/lib/analyzer/images';
+import { extractContentMetrics } from '@/lib/analyzer/content';
+import { analyzeRendering } from '@/lib/analyzer/rendering';
+import { analyzeHygiene } from '@/lib/analyzer/hygiene';
+import { analyzeAuthorship } from '@/lib/analyzer/authorship';
+import { extractNap } from '@/lib/analyzer/nap';
+import { analyzeNotFound } from '@/lib/analyzer/notFound';
+import { analyzeTiming } from '@/lib/analyzer/timing';
+import { analyzeResources } from '@/lib/analyzer/resources';
+import { analyzeSocialPreview } from '@/lib/analyzer/socialPreview';
+import { analyzeAiReadiness } from '@/lib/analyzer/aiReadiness';
 
-export interface AnalysisResult {
-  url: string;
-  fetchedAt: string;
-  robotsTxt: {
-    exists: boolean;
-    content?: string;
-    blocksAICrawlers?: boolean;
-  };
-  sitemap: {
-    exists: boolean;
-    url?: string;
-  };
-  meta: {
-    title?: string;
-    titleLength?: number;
-    description?: string;
-    descriptionLength?: number;
-    favicon?: string;
-    ogTags?: Record<string, string>;
-  };
-  headings: {
-    h1Count: number;
-    h1Tags: string[];
-  };
-  schema: {
-    hasOrganization: boolean;
-    hasPerson: boolean;
-    hasFAQ: boolean;
-    hasArticle: boolean;
-    hasBreadcrumb: boolean;
-    types: string[];
-  };
-  pages: {
-    hasAbout: boolean;
-    hasPrivacy: boolean;
-    hasTerms: boolean;
-    hasContact: boolean;
-  };
-  social: {
-    links: { platform: string; url: string }[];
-    hasTwitter: boolean;
-    hasFacebook: boolean;
-    hasLinkedIn: boolean;
-    hasInstagram: boolean;
-    hasYouTube: boolean;
-    hasTikTok: boolean;
-    hasPinterest: boolean;
-  };
-  technical: {
-    hasCanonical: boolean;
-    canonicalUrl?: string;
-    hasNoindex: boolean;
-    loadTimeMs?: number;
-  };
-  error?: string;
-}
-
-const AI_CRAWLERS = [
-  'GPTBot',
-  'ChatGPT-User',
-  'CCBot',
-  'anthropic-ai',
-  'Claude-Web',
-  'Bytespider',
-  'Diffbot',
-  'PerplexityBot',
-];
-
-async function checkUrlExists(url: string): Promise<boolean> {
-  try {
-    const response = await fetch(url, { method: 'HEAD', redirect: 'follow' });
-    return response.ok;
-  } catch {
-    return false;
-  }
-}
+// Netlify's limit for synchronous functions once raised from the 10s default
+export const maxDuration = 26;
 
-async function fetchWithTimeout(url: string, timeout = 10000): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent': 'SEO-Audit-Tool/1.0',
-      },
-    });
-    clearTimeout(timeoutId);
-    return response;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    throw error;
-  }
-}
+// Internal links from the homepage checked against robots.txt
+const MAX_ROBOTS_LINK_CHECKS = 50;
+// Checks still running after this are left out, so the response beats maxDuration
+const TIME_BUDGET_MS = 20000;
 
 export async function POST(request: NextRequest) {
   try {
+    // The crawl, ecommerce sampling and geolocation checks are requested separately from /api/analyze/site
     const { url } = await request.json();
 
     if (!url) {
       return NextResponse.json({ error: 'URL is required' }, { status: 400 });
     }
 
-    // Normalize URL
-    let normalizedUrl = url.trim();
-    if (!normalizedUrl.startsWith('http://') && !normalizedUrl.startsWith('https://')) {
-      normalizedUrl = 'https://' + normalizedUrl;
-    }
-
+    const normalizedUrl = normaliseInputUrl(url);
     const urlObj = new URL(normalizedUrl);
     const baseUrl = `${urlObj.protocol}//${urlObj.host}`;
 
@@ -117,10 +55,14 @@ export async function POST(request: NextRequest) {
 
     // Fetch the main page
     let html = '';
+    let pageUrl = normalizedUrl;
     let fetchError = '';
+    let pageResponse: Response | null = null;
     try {
-      const response = await fetchWithTimeout(normalizedUrl);
-      html = await response.text();
+      pageResponse = await fetchWithTimeout(normalizedUrl);
+      html = await pageResponse.text();
+      // Relative URLs in the document resolve against the final, post-redirect URL
+      pageUrl = pageResponse.url || normalizedUrl;
     } catch (error) {
       fetchError = error instanceof Error ? error.message : 'Failed to fetch URL';
     }
@@ -141,6 +83,8 @@ export async function POST(request: NextRequest) {
         hasFAQ: false,
         hasArticle: false,
         hasBreadcrumb: false,
+        hasProduct: false,
+        hasLocalBusiness: false,
         types: [],
       },
       pages: {
@@ -151,6 +95,8 @@ export async function POST(request: NextRequest) {
       },
       social: {
         links: [],
+        shareLinks: [],
+        sameAs: [],
         hasTwitter: false,
         hasFacebook: false,
         hasLinkedIn: false,
@@ -158,6 +104,9 @@ export async function POST(request: NextRequest) {
         hasYouTube: false,
         hasTikTok: false,
         hasPinterest: false,
+        hasThreads: false,
+        hasBluesky: false,
+        hasSnapchat: false,
       },
       technical: {
         hasCanonical: false,
@@ -171,132 +120,136 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(result);
     }
 
-    // Check robots.txt
-    try {
-      const robotsResponse = await fetchWithTimeout(`${baseUrl}/robots.txt`, 5000);
-      if (robotsResponse.ok) {
-        const robotsContent = await robotsResponse.text();
-        result.robotsTxt = {
-          exists: true,
-          content: robotsContent.slice(0, 2000),
-          blocksAICrawlers: AI_CRAWLERS.some(crawler =>
-            robotsContent.toLowerCase().includes(crawler.toLowerCase()) &&
-            robotsContent.toLowerCase().includes('disallow')
-          ),
-        };
-      }
-    } catch {
-      // robots.txt doesn't exist or couldn't be fetched
-    }
-
-    // Check sitemap
-    const sitemapUrls = [
-      `${baseUrl}/sitemap.xml`,
-      `${baseUrl}/sitemap_index.xml`,
-      `${baseUrl}/sitemap/sitemap.xml`,
-    ];
-
-    for (const sitemapUrl of sitemapUrls) {
-      if (await checkUrlExists(sitemapUrl)) {
-        result.sitemap = { exists: true, url: sitemapUrl };
-        break;
-      }
-    }
+    const $ = parseHtml(html);
+    const deadline = startTime + TIME_BUDGET_MS;
+    const skipped: string[] = [];
+    // Run a network-bound check if there's time left, noting it when there isn't
+    const budgeted = async <T>(label: string, task: () => Promise<T>): Promise<T | undefined> => {
+      // Wrapped, since some checks resolve undefined when there's nothing to check
+      const settled = await withDeadline(deadline, async () => ({ value: await task() }));
+      if (!settled) skipped.push(label);
+      return settled?.value;
+    };
 
-    // Parse HTML for meta information
+    // Parse HTML for page information
     if (html) {
-      // Meta title
-      const titleMatch = html.match(/<title[^>]*>([^<]*)<\/title>/i);
-      if (titleMatch) {
-        result.meta.title = titleMatch[1].trim();
-        result.meta.titleLength = result.meta.title.length;
-      }
-
-      // Meta description
-      const descMatch = html.match(/<meta[^>]*name=["']description["'][^>]*content=["']([^"']*)["']/i) ||
-                        html.match(/<meta[^>]*content=["']([^"']*)["'][^>]*name=["']description["']/i);
-      if (descMatch) {
-        result.meta.description = descMatch[1].trim();
-        result.meta.descriptionLength = result.meta.description.length;
-      }
+      result.meta = extractMeta($, pageUrl);
+      result.headings = extractHeadings($);
+      result.content = extractContentMetrics($, html);
+      result.rendering = analyzeRendering($, html, pageUrl);
+      result.hygiene = analyzeHygiene($);
+      result.nap = extractNap($, pageUrl);
+      result.technical = { ...result.technical, ...extractTechnical($, pageUrl) };
+      result.structuredData = analyzeStructuredData($, pageUrl);
+      result.schema = summariseSchema(result.structuredData);
+      result.pages = extractPages($, pageUrl);
+      result.social = extractSocial($, pageUrl, findSameAs(result.structuredData.entities));
+      result.mixedContent = summariseMixedContent([{ url: pageUrl, items: findMixedContent($, pageUrl) }]);
+    }
 
-      // Favicon
-      const faviconMatch = html.match(/<link[^>]*rel=["'](?:shortcut )?icon["'][^>]*href=["']([^"']*)["']/i) ||
-                          html.match(/<link[^>]*href=["']([^"']*)["'][^>]*rel=["'](?:shortcut )?icon["']/i);
-      if (faviconMatch) {
-        result.meta.favicon = faviconMatch[1];
-      }
+    // Check security and indexing headers on the main document
+    if (pageResponse) {
+      result.headers = analyzeHeaders(pageResponse.headers, pageResponse.status, pageUrl);
+      result.technical.hasNoindex = result.technical.hasNoindex || result.headers.noindex;
+    }
 
-      // Open Graph tags
-      const ogTags: Record<string, string> = {};
-      const ogMatches = html.matchAll(/<meta[^>]*property=["']og:([^"']*)["'][^>]*content=["']([^"']*)["']/gi);
-      for (const match of ogMatches) {
-        ogTags[match[1]] = match[2];
-      }
-      if (Object.keys(ogTags).length > 0) {
-        result.meta.ogTags = ogTags;
-      }
+    // Sample response timings and negotiate each compression scheme, before any
+    // other requests are in flight to skew them
+    result.timing = await budgeted('Response timing and compression', () => analyzeTiming(pageUrl));
 
-      // H1 tags
-      const h1Matches = html.matchAll(/<h1[^>]*>([^<]*)<\/h1>/gi);
-      const h1Tags: string[] = [];
-      for (const match of h1Matches) {
-        h1Tags.push(match[1].trim());
-      }
-      result.headings = { h1Count: h1Tags.length, h1Tags };
+    // Check robots.txt
+    const { statusCode: robotsStatus, content: robotsContent, robots } = await fetchRobotsTxt(baseUrl);
+    result.robotsTxt.statusCode = robotsStatus;
+    if (robots) {
+      const crawlers = getCrawlerAccess(robots, pageUrl);
 
-      // Canonical
-      const canonicalMatch = html.match(/<link[^>]*rel=["']canonical["'][^>]*href=["']([^"']*)["']/i);
-      if (canonicalMatch) {
-        result.technical.hasCanonical = true;
-        result.technical.canonicalUrl = canonicalMatch[1];
+      // Key URLs: the audited page plus the internal pages it links to
+      const keyUrls = [pageUrl, ...extractInternalLinks($, pageUrl).filter(link => link !== pageUrl)];
+      const blockedUrls: { url: string; rule: string }[] = [];
+      for (const keyUrl of keyUrls.slice(0, MAX_ROBOTS_LINK_CHECKS)) {
+        const verdict = isAllowed(robots, keyUrl, 'Googlebot');
+        if (!verdict.allowed) {
+          blockedUrls.push({ url: keyUrl, rule: verdict.rule ? `Disallow: ${verdict.rule.path} (line ${verdict.rule.line})` : 'robots.txt unreachable' });
+        }
       }
 
-      // Noindex
-      result.technical.hasNoindex = /<meta[^>]*name=["']robots["'][^>]*content=["'][^"']*noindex/i.test(html);
-
-      // Schema.org detection
-      const schemaMatches = html.matchAll(/"@type"\s*:\s*"([^"]+)"/g);
-      const schemaTypes: string[] = [];
-      for (const match of schemaMatches) {
-        schemaTypes.push(match[1]);
-      }
-      result.schema = {
-        hasOrganization: schemaTypes.some(t => t.toLowerCase() === 'organization'),
-        hasPerson: schemaTypes.some(t => t.toLowerCase() === 'person'),
-        hasFAQ: schemaTypes.some(t => t.toLowerCase() === 'faqpage'),
-        hasArticle: schemaTypes.some(t => t.toLowerCase().includes('article')),
-        hasBreadcrumb: schemaTypes.some(t => t.toLowerCase() === 'breadcrumblist'),
-        types: [...new Set(schemaTypes)],
+      result.robotsTxt = {
+        exists: !robots.unreachable,
+        statusCode: robotsStatus,
+        unreachable: robots.unreachable,
+        content: robotsContent?.slice(0, 2000),
+        blocksAICrawlers: crawlers.some(crawler => crawler.type === 'ai' && !crawler.allowed),
+        errors: robots.errors,
+        sitemaps: robots.sitemaps,
+        crawlers,
+        blockedUrls,
       };
+    }
 
-      // Check for common pages by looking at links
-      const htmlLower = html.toLowerCase();
-      result.pages = {
-        hasAbout: /href=["'][^"']*\/about/i.test(html) || htmlLower.includes('about us') || htmlLower.includes('about-us'),
-        hasPrivacy: /href=["'][^"']*\/privacy/i.test(html) || htmlLower.includes('privacy policy'),
-        hasTerms: /href=["'][^"']*\/terms/i.test(html) || htmlLower.includes('terms') && (htmlLower.includes('conditions') || htmlLower.includes('service')),
-        hasContact: /href=["'][^"']*\/contact/i.test(html) || htmlLower.includes('contact us'),
-      };
+    // The remaining checks are independent, so they share what's left of the budget
+    await Promise.all([
+      (async () => {
+        if (!html) return;
+        // Fetch images for weight, format and dimensions, then inventory scripts,
+        // stylesheets and fonts and total the page weight
+        result.images = await budgeted('Images', () => analyzeImages($, pageUrl));
+        result.resources = await budgeted('Page weight and resources', () =>
+          analyzeResources($, pageUrl, result.timing?.transferredBytes ?? Buffer.byteLength(html), result.images?.items || [])
+        );
+      })(),
+      (async () => {
+        // Validate share tags and fetch the share image
+        if (html) result.socialPreview = await budgeted('Social share preview', () => analyzeSocialPreview($, pageUrl));
+      })(),
+      (async () => {
+        if (!pageResponse) return;
+        // Validate the canonical across the HTML and Link header
+        result.canonical = await budgeted('Canonical', () => analyzeCanonical($, pageUrl, pageResponse!.headers, {
+          statusCode: pageResponse!.status,
+          noindex: result.technical.hasNoindex,
+        }));
+        if (result.canonical?.canonicalUrl) {
+          result.technical.hasCanonical = true;
+          result.technical.canonicalUrl = result.canonical.canonicalUrl;
+        }
+      })(),
+      (async () => {
+        // Check sitemaps, starting from those declared in robots.txt
+        const sitemaps = await budgeted('Sitemaps', () => analyzeSitemaps(baseUrl, result.robotsTxt.sitemaps || []));
+        if (sitemaps) result.sitemap = sitemaps.sitemap;
 
-      // Social media links
-      const socialPatterns = [
-        { platform: 'Twitter/X', pattern: /href=["']([^"']*(?:twitter\.com|x\.com)[^"']*)["']/gi, key: 'hasTwitter' },
-        { platform: 'Facebook', pattern: /href=["']([^"']*facebook\.com[^"']*)["']/gi, key: 'hasFacebook' },
-        { platform: 'LinkedIn', pattern: /href=["']([^"']*linkedin\.com[^"']*)["']/gi, key: 'hasLinkedIn' },
-        { platform: 'Instagram', pattern: /href=["']([^"']*instagram\.com[^"']*)["']/gi, key: 'hasInstagram' },
-        { platform: 'YouTube', pattern: /href=["']([^"']*youtube\.com[^"']*)["']/gi, key: 'hasYouTube' },
-        { platform: 'TikTok', pattern: /href=["']([^"']*tiktok\.com[^"']*)["']/gi, key: 'hasTikTok' },
-        { platform: 'Pinterest', pattern: /href=["']([^"']*pinterest\.com[^"']*)["']/gi, key: 'hasPinterest' },
-      ];
+        // Validate hreflang from the HTML, Link header and sitemap, fetching each alternate,
+        // and extract authors and dates, sampling linked or sitemap articles when the page isn't one
+        await Promise.all([
+          (async () => {
+            result.hreflang = await budgeted('Hreflang', () =>
+              analyzeHreflang($, pageUrl, pageResponse?.headers.get('link') ?? null, sitemaps?.hreflang || {})
+            );
+          })(),
+          (async () => {
+            if (!html) return;
+            result.authorship = await budgeted('Authorship and dates', () =>
+              analyzeAuthorship($, pageUrl, [...extractInternalLinks($, pageUrl), ...(sitemaps?.pageUrls || [])])
+            );
+          })(),
+        ]);
+      })(),
+      (async () => {
+        // Validate llms.txt and look for FAQs and answer-first content for AI search
+        if (html) result.aiReadiness = await budgeted('AI search readiness', () => analyzeAiReadiness($, pageUrl, result.structuredData?.entities || [], robots));
+      })(),
+      (async () => {
+        // Trace redirects for the audited URL and its protocol/host variants
+        result.redirects = await budgeted('Redirects', () => analyzeRedirects(normalizedUrl));
+      })(),
+      (async () => {
+        // Request made-up URLs to check for soft 404s and a helpful error page
+        result.notFound = await budgeted('Soft 404s', () => analyzeNotFound(baseUrl, pageUrl, $));
+      })(),
+    ]);
 
-      for (const { platform, pattern, key } of socialPatterns) {
-        const matches = html.matchAll(pattern);
-        for (const match of matches) {
-          result.social.links.push({ platform, url: match[1] });
-          (result.social as Record<string, boolean | { platform: string; url: string }[]>)[key] = true;
-        }
-      }
+    if (skipped.length > 0) {
+      result.skipped = skipped;
     }
 
     return NextResponse.json(result);
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SiteAnalysisResult } from '@/types/analysis';
+import { fetchWithTimeout, normaliseInputUrl, withDeadline } from '@/lib/analyzer/fetch';
+import { parseHtml, extractInternalLinks } from '@/lib/analyzer/extract';
+import { fetchRobotsTxt } from '@/lib/analyzer/robots';
+import { analyzeSitemaps } from '@/lib/analyzer/sitemap';
+import { crawlSite, resolveCrawlOptions } from '@/lib/analyzer/crawler';
+import { summariseMixedContent } from '@/lib/analyzer/mixedContent';
+import { analyzeCrawlCanonicals } from '@/lib/analyzer/canonical';
+import { summariseImageAlt } from '@/lib/analyzer/images';
+import { analyzeEcommerce } from '@/lib/analyzer/ecommerce';
+import { analyzeGeoRedirects } from '@/lib/analyzer/geoRedirects';
+
+// Netlify's limit for synchronous functions once raised from the 10s default
+export const maxDuration = 26;
+
+// The crawl stops starting pages after this, so the response beats maxDuration
+const TIME_BUDGET_MS = 20000;
+// Kept back from the crawl for sampling product and collection pages afterwards
+const ECOMMERCE_BUDGET_MS = 8000;
+
+// The slower site-wide checks, which the audit page requests once the
+// single-page analysis from /api/analyze is back
+export async function POST(request: NextRequest) {
+  try {
+    // `crawl: false` skips the multi-page crawl; an object overrides its limits
+    // `ecommerce: true` samples product and collection pages; an object names them
+    // `geo: true` requests the page as visitors from several locales
+    const { url, crawl, ecommerce, geo } = await request.json();
+
+    if (!url) {
+      return NextResponse.json({ error: 'URL is required' }, { status: 400 });
+    }
+
+    const normalizedUrl = normaliseInputUrl(url);
+    const baseUrl = new URL(normalizedUrl).origin;
+    const deadline = Date.now() + TIME_BUDGET_MS;
+    const result: SiteAnalysisResult = { url: normalizedUrl, fetchedAt: new Date().toISOString() };
+
+    let html = '';
+    let pageUrl = normalizedUrl;
+    try {
+      const response = await fetchWithTimeout(normalizedUrl);
+      html = await response.text();
+      pageUrl = response.url || normalizedUrl;
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Failed to fetch URL';
+      return NextResponse.json(result);
+    }
+    const $ = parseHtml(html);
+
+    // Sitemap URLs seed the orphan check and the ecommerce samples; their own
+    // sampling is part of the single-page analysis
+    const { robots } = await fetchRobotsTxt(baseUrl);
+    const sitemaps = await withDeadline(deadline, () => analyzeSitemaps(baseUrl, robots?.sitemaps || [], 0));
+    const sitemapPageUrls = sitemaps?.pageUrls || [];
+    const skipped: string[] = sitemaps ? [] : ['Sitemap URLs'];
+
+    // Request the page as visitors from other locales to catch geolocation
+    // redirects, alongside the crawl since it only touches the one URL
+    const geoRedirects = geo ? withDeadline(deadline, () => analyzeGeoRedirects(normalizedUrl)) : undefined;
+
+    // Crawl the site for site-wide checks
+    if (crawl !== false) {
+      const crawlDeadline = ecommerce ? deadline - ECOMMERCE_BUDGET_MS : deadline;
+      result.crawl = await crawlSite(pageUrl, resolveCrawlOptions(crawl), robots, sitemapPageUrls, crawlDeadline);
+      result.mixedContent = summariseMixedContent(result.crawl.pages.map(page => ({ url: page.url, items: page.mixedContent })));
+      result.canonicalSitewide = analyzeCrawlCanonicals(result.crawl.pages);
+      result.imagesSitewide = summariseImageAlt(result.crawl.pages);
+    }
+
+    // Check sampled product and collection pages, given or found by their URLs
+    if (ecommerce) {
+      const candidateUrls = [
+        ...extractInternalLinks($, pageUrl),
+        ...sitemapPageUrls,
+        ...(result.crawl?.pages.map(page => page.url) || []),
+      ];
+      result.ecommerce = await withDeadline(deadline, () =>
+        analyzeEcommerce(pageUrl, candidateUrls, typeof ecommerce === 'object' ? ecommerce : {})
+      );
+      if (!result.ecommerce) skipped.push('Product and collection pages');
+    }
+
+    if (geoRedirects) {
+      result.geoRedirects = await geoRedirects;
+      if (!result.geoRedirects) skipped.push('Geolocation redirects');
+    }
+
+    if (skipped.length > 0) {
+      result.skipped = skipped;
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Analysis failed' },
+      { status: 500 }
+    );
+  }
+}
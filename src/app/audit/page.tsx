@@ -1,12 +1,19 @@
 'use client';
 
-import { useState, useMemo, useRef, Suspense } from 'react';
+import { useState, useMemo, useRef, useEffect, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import * as XLSX from 'xlsx';
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
 import CheckItem, { CheckStatus } from '@/components/CheckItem';
+import EvidenceTable from '@/components/EvidenceTable';
+import EvidenceChart from '@/components/EvidenceChart';
+import SocialPreviewCards from '@/components/SocialPreviewCards';
+import ReferenceNapForm from '@/components/ReferenceNapForm';
 import { calculateCategoryScore, calculateOverallScore, getScoreRating } from '@/lib/scoring';
+import { AutoDetectedCheck, EvidenceChart as EvidenceChartData, EvidenceTable as EvidenceTableData, getAutoDetectedChecks, formatAutoDetectedNote, REFERENCE_NAP_CHECKS } from '@/lib/autoDetect';
+import { ReferenceNap } from '@/lib/analyzer/nap';
+import { AnalysisResult, SiteAnalysisResult, SocialPreviewCard } from '@/types/analysis';
 import {
   AUTHORITY_CHECKS,
   ON_PAGE_CHECKS,
@@ -64,6 +71,22 @@ const INTERNATIONAL_CATEGORIES = [
   { id: 'international', name: 'International', description: 'Hreflang implementation, content differentiation, and multi-region setup', weight: 10, checks: INTERNATIONAL_CHECKS },
 ];
 
+// Fold the site-wide checks into the single-page analysis they follow
+function mergeSiteAnalysis(analysis: AnalysisResult, site: SiteAnalysisResult): AnalysisResult {
+  const skipped = [...(analysis.skipped || []), ...(site.skipped || [])];
+  return {
+    ...analysis,
+    crawl: site.crawl,
+    ecommerce: site.ecommerce,
+    geoRedirects: site.geoRedirects,
+    // The crawl includes the audited page, so its findings supersede the single-page scan
+    mixedContent: site.mixedContent && site.mixedContent.pagesScanned > 0 ? site.mixedContent : analysis.mixedContent,
+    canonical: analysis.canonical && { ...analysis.canonical, sitewide: site.canonicalSitewide },
+    images: analysis.images && { ...analysis.images, sitewide: site.imagesSitewide },
+    skipped: skipped.length > 0 ? skipped : undefined,
+  };
+}
+
 // Function to get categories based on brand types (supports multiple)
 // Brand-specific categories come first, then base categories
 function getCategoriesForBrandTypes(brandTypes: BrandType[]) {
@@ -110,12 +133,125 @@ function AuditContent() {
   const [statusFilter, setStatusFilter] = useState<'all' | 'fail'>('fail');
   const [closedGroups, setClosedGroups] = useState<Set<string>>(new Set());
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+  const [analysisState, setAnalysisState] = useState<'idle' | 'loading' | 'done' | 'error'>('idle');
+  const [analysisError, setAnalysisError] = useState('');
+  const [siteAnalysisState, setSiteAnalysisState] = useState<'idle' | 'loading' | 'done' | 'error'>('idle');
+  const [autoDetectedChecks, setAutoDetectedChecks] = useState<Record<string, AutoDetectedCheck>>({});
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [referenceNap, setReferenceNap] = useState<ReferenceNap>({});
   const reportSummaryRef = useRef<HTMLDivElement>(null);
   const reportDetailedRef = useRef<HTMLDivElement>(null);
+  // Checks the auditor has answered by hand - never overwritten by auto-detection
+  const manuallyAnsweredRef = useRef<Set<string>>(new Set());
 
   // Get categories based on brand type
   const CATEGORIES = useMemo(() => getCategoriesForBrandTypes(brandTypes), [brandTypes.join(',')]);
 
+  // Pre-set statuses and notes for auto-detected checks. Notes from an earlier
+  // detection are replaced, but never ones the auditor has edited.
+  const applyDetectedChecks = (detected: Record<string, AutoDetectedCheck>, previous: Record<string, AutoDetectedCheck>) => {
+    for (const checkId of manuallyAnsweredRef.current) {
+      delete detected[checkId];
+    }
+
+    setCheckStatuses((prev) => {
+      const next = { ...prev };
+      for (const [checkId, check] of Object.entries(detected)) {
+        next[checkId] = check.status;
+      }
+      return next;
+    });
+    setCheckNotes((prev) => {
+      const next = { ...prev };
+      for (const [checkId, check] of Object.entries(detected)) {
+        const earlier = previous[checkId];
+        if (!next[checkId] || (earlier && next[checkId] === formatAutoDetectedNote(earlier))) {
+          next[checkId] = formatAutoDetectedNote(check);
+        }
+      }
+      return next;
+    });
+    setAutoDetectedChecks((prev) => ({ ...prev, ...detected }));
+  };
+
+  // Run the automated analysis when the audit starts and pre-set the checks it can decide,
+  // then crawl the site for the site-wide checks and update them
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+    setAnalysisState('loading');
+    setSiteAnalysisState('idle');
+
+    const runAnalysis = async () => {
+      const checkIds = CATEGORIES.flatMap(category => category.checks.map(check => check.id));
+      let analysis: AnalysisResult;
+      let detected: Record<string, AutoDetectedCheck>;
+      try {
+        const response = await fetch('/api/analyze', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ url }),
+        });
+        analysis = await response.json();
+        if (cancelled) return;
+
+        if (!response.ok || analysis.error) {
+          setAnalysisError(analysis.error || 'Analysis failed');
+          setAnalysisState('error');
+          return;
+        }
+
+        detected = getAutoDetectedChecks(analysis, checkIds);
+        applyDetectedChecks(detected, {});
+        setAnalysis(analysis);
+        setAnalysisState('done');
+      } catch (error) {
+        if (cancelled) return;
+        setAnalysisError(error instanceof Error ? error.message : 'Analysis failed');
+        setAnalysisState('error');
+        return;
+      }
+
+      setSiteAnalysisState('loading');
+      try {
+        const response = await fetch('/api/analyze/site', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            url,
+            ecommerce: brandTypes.includes('ecommerce'),
+            geo: brandTypes.includes('international'),
+          }),
+        });
+        const site: SiteAnalysisResult = await response.json();
+        if (cancelled) return;
+        if (!response.ok || site.error) {
+          setSiteAnalysisState('error');
+          return;
+        }
+
+        const merged = mergeSiteAnalysis(analysis, site);
+        applyDetectedChecks(getAutoDetectedChecks(merged, checkIds), detected);
+        setAnalysis(merged);
+        setSiteAnalysisState('done');
+      } catch {
+        if (!cancelled) setSiteAnalysisState('error');
+      }
+    };
+
+    runAnalysis();
+    return () => {
+      cancelled = true;
+    };
+  }, [url, CATEGORIES]);
+
+  // Re-run the NAP checks against the profile details the auditor entered
+  const handleReferenceNapSubmit = (reference: ReferenceNap) => {
+    setReferenceNap(reference);
+    if (!analysis) return;
+    applyDetectedChecks(getAutoDetectedChecks(analysis, REFERENCE_NAP_CHECKS, { referenceNap: reference }), autoDetectedChecks);
+  };
+
   const isResultsScreen = currentStep >= CATEGORIES.length;
   const currentCategory = !isResultsScreen ? CATEGORIES[currentStep] : null;
 
@@ -231,7 +367,15 @@ function AuditContent() {
   };
 
   const handleCheckStatusChange = (checkId: string, status: CheckStatus) => {
+    manuallyAnsweredRef.current.add(checkId);
     setCheckStatuses((prev) => ({ ...prev, [checkId]: status }));
+    // An auditor override replaces the auto-detected answer
+    setAutoDetectedChecks((prev) => {
+      if (!prev[checkId]) return prev;
+      const next = { ...prev };
+      delete next[checkId];
+      return next;
+    });
   };
 
   const handleNoteChange = (checkId: string, note: string) => {
@@ -465,6 +609,10 @@ function AuditContent() {
       categoryName: string;
       note: string;
       link: string;
+      autoDetected: boolean;
+      evidenceTable?: EvidenceTableData;
+      evidenceChart?: EvidenceChartData;
+      evidencePreview?: SocialPreviewCard;
     };
 
     type DetailedGroup = {
@@ -488,6 +636,10 @@ function AuditContent() {
             categoryName: category.name,
             note: checkNotes[check.id] || '',
             link: checkLinks[check.id] || '',
+            autoDetected: !!autoDetectedChecks[check.id],
+            evidenceTable: autoDetectedChecks[check.id]?.table,
+            evidenceChart: autoDetectedChecks[check.id]?.chart,
+            evidencePreview: autoDetectedChecks[check.id]?.preview,
           }));
           const filtered = statusFilter === 'fail'
             ? allChecks.filter(c => c.status === 'fail')
@@ -522,6 +674,10 @@ function AuditContent() {
                 categoryName: category.name,
                 note: checkNotes[check.id] || '',
                 link: checkLinks[check.id] || '',
+                autoDetected: !!autoDetectedChecks[check.id],
+                evidenceTable: autoDetectedChecks[check.id]?.table,
+                evidenceChart: autoDetectedChecks[check.id]?.chart,
+                evidencePreview: autoDetectedChecks[check.id]?.preview,
               }))
           );
           const filtered = statusFilter === 'fail'
@@ -594,6 +750,21 @@ function AuditContent() {
               >
                 {badge.label}
               </span>
+              {check.autoDetected && (
+                <span
+                  style={{
+                    fontSize: '0.65rem',
+                    fontWeight: 600,
+                    padding: '0.125rem 0.4rem',
+                    borderRadius: '100px',
+                    backgroundColor: 'var(--background-secondary)',
+                    color: 'var(--muted)',
+                    border: '1px solid var(--border)',
+                  }}
+                >
+                  Auto-detected
+                </span>
+              )}
               {showCategory && (
                 <span style={{ fontSize: '0.75rem', color: 'var(--muted)', fontStyle: 'italic' }}>
                   {check.categoryName}
@@ -628,6 +799,21 @@ function AuditContent() {
                 )}
               </div>
             )}
+            {check.evidenceChart && (
+              <div style={{ marginTop: '0.5rem' }}>
+                <EvidenceChart chart={check.evidenceChart} />
+              </div>
+            )}
+            {check.evidencePreview && (
+              <div style={{ marginTop: '0.5rem' }}>
+                <SocialPreviewCards card={check.evidencePreview} />
+              </div>
+            )}
+            {check.evidenceTable && check.evidenceTable.rows.length > 0 && (
+              <div style={{ marginTop: '0.5rem' }}>
+                <EvidenceTable table={check.evidenceTable} initialRows={5} />
+              </div>
+            )}
           </div>
           <div
             style={{
@@ -1829,6 +2015,40 @@ function AuditContent() {
         </div>
       </div>
 
+      {/* Automated analysis status */}
+      {analysisState !== 'idle' && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            padding: '0.625rem 1rem',
+            marginBottom: '1rem',
+            fontSize: '0.85rem',
+            borderRadius: 'var(--radius-sm)',
+            backgroundColor: analysisState === 'error' ? 'var(--warning-light)' : 'var(--primary-light)',
+            color: analysisState === 'error' ? 'var(--warning)' : 'var(--primary)',
+          }}
+        >
+          <span>{analysisState === 'loading' ? '⏳' : analysisState === 'error' ? '⚠️' : '🤖'}</span>
+          <span>
+            {analysisState === 'loading'
+              ? 'Analysing the site to pre-fill checks...'
+              : analysisState === 'error'
+              ? `Automated analysis unavailable (${analysisError}). All checks need answering manually.`
+              : `${currentCategory!.checks.filter(check => autoDetectedChecks[check.id]).length} checks in this category were auto-detected. Review the evidence in each note and override if needed.` +
+                (siteAnalysisState === 'loading' ? ' Crawling the site for the site-wide checks...' : '') +
+                (siteAnalysisState === 'error' ? ' The site crawl failed, so site-wide checks need answering manually.' : '') +
+                (analysis?.skipped ? ` Skipped for time: ${analysis.skipped.join(', ')}.` : '')}
+          </span>
+        </div>
+      )}
+
+      {/* Reference NAP for the local checks */}
+      {(currentCategory!.id === 'local-gbp' || currentCategory!.id === 'local-landing') && (
+        <ReferenceNapForm value={referenceNap} disabled={!analysis} onSubmit={handleReferenceNapSubmit} />
+      )}
+
       {/* Checks List */}
       <div
         style={{
@@ -1849,6 +2069,10 @@ function AuditContent() {
             status={checkStatuses[check.id] || null}
             note={checkNotes[check.id] || ''}
             link={checkLinks[check.id] || ''}
+            autoDetected={!!autoDetectedChecks[check.id]}
+            evidenceTable={autoDetectedChecks[check.id]?.table}
+            evidenceChart={autoDetectedChecks[check.id]?.chart}
+            evidencePreview={autoDetectedChecks[check.id]?.preview}
             onStatusChange={handleCheckStatusChange}
             onNoteChange={handleNoteChange}
             onLinkChange={handleLinkChange}
@@ -1,6 +1,11 @@
 'use client';
 
 import { useState } from 'react';
+import EvidenceTable from './EvidenceTable';
+import EvidenceChart from './EvidenceChart';
+import SocialPreviewCards from './SocialPreviewCards';
+import { EvidenceChart as EvidenceChartData, EvidenceTable as EvidenceTableData } from '@/lib/autoDetect';
+import { SocialPreviewCard } from '@/types/analysis';
 
 export type CheckStatus = 'pass' | 'fail' | null;
 
@@ -12,6 +17,10 @@ interface CheckItemProps {
   status: CheckStatus;
   note: string;
   link: string;
+  autoDetected?: boolean;
+  evidenceTable?: EvidenceTableData;
+  evidenceChart?: EvidenceChartData;
+  evidencePreview?: SocialPreviewCard;
   onStatusChange: (id: string, status: CheckStatus) => void;
   onNoteChange: (id: string, note: string) => void;
   onLinkChange: (id: string, link: string) => void;
@@ -32,14 +41,20 @@ export default function CheckItem({
   status,
   note,
   link,
+  autoDetected = false,
+  evidenceTable,
+  evidenceChart,
+  evidencePreview,
   onStatusChange,
   onNoteChange,
   onLinkChange,
 }: CheckItemProps) {
   const config = importanceConfig[importance];
   const [expanded, setExpanded] = useState(false);
+  const [showEvidence, setShowEvidence] = useState(false);
   const hasAnnotations = note.length > 0 || link.length > 0;
   const showFields = status !== null && (expanded || hasAnnotations);
+  const hasTable = !!evidenceTable && evidenceTable.rows.length > 0;
 
   return (
     <div
@@ -93,6 +108,23 @@ export default function CheckItem({
             >
               {config.label}
             </span>
+
+            {autoDetected && (
+              <span
+                title="Answered by the automated analysis - see the note for evidence"
+                style={{
+                  fontSize: '0.7rem',
+                  fontWeight: 600,
+                  padding: '0.2rem 0.5rem',
+                  borderRadius: '100px',
+                  backgroundColor: 'var(--background-secondary)',
+                  color: 'var(--muted)',
+                  border: '1px solid var(--border)',
+                }}
+              >
+                🤖 Auto-detected
+              </span>
+            )}
           </div>
 
           <p
@@ -105,6 +137,40 @@ export default function CheckItem({
           >
             {description}
           </p>
+
+          {(hasTable || evidenceChart || evidencePreview) && (
+            <div style={{ marginTop: '0.5rem' }}>
+              <button
+                onClick={() => setShowEvidence(!showEvidence)}
+                style={{
+                  padding: 0,
+                  fontSize: '0.8rem',
+                  fontWeight: 600,
+                  border: 'none',
+                  background: 'none',
+                  color: 'var(--primary)',
+                  cursor: 'pointer',
+                }}
+              >
+                {showEvidence ? '▾' : '▸'} Evidence{hasTable && ` (${evidenceTable!.rows.length} ${evidenceTable!.rows.length === 1 ? 'row' : 'rows'})`}
+              </button>
+              {showEvidence && evidenceChart && (
+                <div style={{ marginTop: '0.5rem' }}>
+                  <EvidenceChart chart={evidenceChart} />
+                </div>
+              )}
+              {showEvidence && evidencePreview && (
+                <div style={{ marginTop: '0.5rem' }}>
+                  <SocialPreviewCards card={evidencePreview} />
+                </div>
+              )}
+              {showEvidence && hasTable && (
+                <div style={{ marginTop: '0.5rem' }}>
+                  <EvidenceTable table={evidenceTable!} />
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Right side - Action buttons */}
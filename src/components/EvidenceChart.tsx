@@ -0,0 +1,50 @@
+'use client';
+
+import { EvidenceChart as EvidenceChartData } from '@/lib/autoDetect';
+
+interface EvidenceChartProps {
+  chart: EvidenceChartData;
+}
+
+export default function EvidenceChart({ chart }: EvidenceChartProps) {
+  const max = Math.max(...chart.bars.map((bar) => bar.value), 1);
+
+  return (
+    <div
+      style={{
+        border: '1px solid var(--border)',
+        borderRadius: 'var(--radius-sm)',
+        backgroundColor: 'var(--card-bg)',
+        padding: '0.5rem 0.6rem',
+        display: 'grid',
+        gridTemplateColumns: 'max-content 1fr max-content',
+        gap: '0.35rem 0.6rem',
+        alignItems: 'center',
+        fontSize: '0.75rem',
+      }}
+    >
+      {chart.bars.map((bar) => (
+        <div key={bar.label} style={{ display: 'contents' }}>
+          <span style={{ color: 'var(--muted)', fontWeight: 600 }}>{bar.label}</span>
+          <div
+            style={{
+              height: '0.6rem',
+              borderRadius: 'var(--radius-sm)',
+              backgroundColor: 'var(--background-secondary)',
+              overflow: 'hidden',
+            }}
+          >
+            <div
+              style={{
+                width: `${(bar.value / max) * 100}%`,
+                height: '100%',
+                backgroundColor: 'var(--primary)',
+              }}
+            />
+          </div>
+          <span style={{ color: 'var(--foreground)', textAlign: 'right' }}>{bar.display}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
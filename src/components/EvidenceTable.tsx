@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { EvidenceTable as EvidenceTableData } from '@/lib/autoDetect';
+
+interface EvidenceTableProps {
+  table: EvidenceTableData;
+  initialRows?: number;
+}
+
+export default function EvidenceTable({ table, initialRows = 10 }: EvidenceTableProps) {
+  const [showAll, setShowAll] = useState(false);
+  const visibleRows = showAll ? table.rows : table.rows.slice(0, initialRows);
+  const hiddenCount = table.rows.length - visibleRows.length;
+
+  return (
+    <div
+      style={{
+        border: '1px solid var(--border)',
+        borderRadius: 'var(--radius-sm)',
+        overflowX: 'auto',
+        backgroundColor: 'var(--card-bg)',
+      }}
+    >
+      <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.75rem' }}>
+        <thead>
+          <tr>
+            {table.columns.map((column) => (
+              <th
+                key={column}
+                style={{
+                  textAlign: 'left',
+                  padding: '0.4rem 0.6rem',
+                  fontWeight: 600,
+                  color: 'var(--muted)',
+                  textTransform: 'uppercase',
+                  letterSpacing: '0.03em',
+                  fontSize: '0.65rem',
+                  borderBottom: '1px solid var(--border)',
+                  backgroundColor: 'var(--background-secondary)',
+                }}
+              >
+                {column}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {visibleRows.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {row.map((cell, cellIndex) => (
+                <td
+                  key={cellIndex}
+                  style={{
+                    padding: '0.35rem 0.6rem',
+                    borderBottom: rowIndex < visibleRows.length - 1 ? '1px solid var(--border)' : 'none',
+                    color: 'var(--foreground)',
+                    wordBreak: 'break-all',
+                    verticalAlign: 'top',
+                  }}
+                >
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {(hiddenCount > 0 || showAll) && table.rows.length > initialRows && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          style={{
+            width: '100%',
+            padding: '0.4rem',
+            fontSize: '0.75rem',
+            fontWeight: 600,
+            border: 'none',
+            borderTop: '1px solid var(--border)',
+            backgroundColor: 'var(--background-secondary)',
+            color: 'var(--primary)',
+            cursor: 'pointer',
+          }}
+        >
+          {showAll ? 'Show fewer' : `Show ${hiddenCount} more`}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { useState } from 'react';
+import { ReferenceNap } from '@/lib/analyzer/nap';
+
+interface ReferenceNapFormProps {
+  value: ReferenceNap;
+  disabled?: boolean;
+  onSubmit: (reference: ReferenceNap) => void;
+}
+
+const FIELDS: { key: keyof ReferenceNap; label: string; placeholder: string }[] = [
+  { key: 'name', label: 'Business name', placeholder: 'Acme Bakery' },
+  { key: 'address', label: 'Address', placeholder: '12 High Street, Bristol, BS1 4DJ' },
+  { key: 'phone', label: 'Phone', placeholder: '0117 496 0000' },
+  { key: 'country', label: 'Country', placeholder: 'GB' },
+];
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.5rem 0.75rem',
+  fontSize: '0.85rem',
+  border: '1px solid var(--border)',
+  borderRadius: 'var(--radius-sm)',
+  backgroundColor: 'var(--card-bg)',
+  color: 'var(--foreground)',
+  fontFamily: 'inherit',
+  outline: 'none',
+  transition: 'border-color 0.15s ease',
+  boxSizing: 'border-box' as const,
+};
+
+export default function ReferenceNapForm({ value, disabled = false, onSubmit }: ReferenceNapFormProps) {
+  const [draft, setDraft] = useState<ReferenceNap>(value);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(draft);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{
+        padding: '1rem',
+        marginBottom: '1rem',
+        border: '1px solid var(--border)',
+        borderRadius: 'var(--radius-sm)',
+        backgroundColor: 'var(--background-secondary)',
+      }}
+    >
+      <div style={{ fontSize: '0.9rem', fontWeight: 600, marginBottom: '0.25rem' }}>
+        Google Business Profile NAP
+      </div>
+      <p style={{ fontSize: '0.8rem', color: 'var(--muted)', margin: '0 0 0.75rem' }}>
+        Enter the name, address and phone exactly as listed on the profile to check them against every scanned page.
+      </p>
+      <div style={{ display: 'grid', gridTemplateColumns: '2fr 3fr 2fr 1fr', gap: '0.5rem', marginBottom: '0.75rem' }}>
+        {FIELDS.map((field) => (
+          <label key={field.key} style={{ fontSize: '0.75rem', fontWeight: 600, color: 'var(--muted)' }}>
+            {field.label}
+            <input
+              type="text"
+              value={draft[field.key] || ''}
+              onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+              placeholder={field.placeholder}
+              style={{ ...inputStyle, marginTop: '0.25rem' }}
+              onFocus={(e) => { e.currentTarget.style.borderColor = 'var(--primary)'; }}
+              onBlur={(e) => { e.currentTarget.style.borderColor = 'var(--border)'; }}
+            />
+          </label>
+        ))}
+      </div>
+      <button
+        type="submit"
+        disabled={disabled}
+        style={{
+          padding: '0.5rem 1rem',
+          fontSize: '0.85rem',
+          fontWeight: 600,
+          border: 'none',
+          borderRadius: 'var(--radius-sm)',
+          backgroundColor: disabled ? 'var(--border)' : 'var(--primary)',
+          color: 'white',
+          cursor: disabled ? 'not-allowed' : 'pointer',
+        }}
+      >
+        Compare with site
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import { SocialPreviewCard } from '@/types/analysis';
+
+interface SocialPreviewCardsProps {
+  card: SocialPreviewCard;
+}
+
+const PLATFORMS: { name: string; imageRatio: number; showDescription: boolean }[] = [
+  { name: 'Facebook', imageRatio: 1.91, showDescription: true },
+  { name: 'LinkedIn', imageRatio: 1.91, showDescription: false },
+  { name: 'X', imageRatio: 2, showDescription: false },
+];
+
+const clamp = (lines: number) => ({
+  display: '-webkit-box',
+  WebkitLineClamp: lines,
+  WebkitBoxOrient: 'vertical' as const,
+  overflow: 'hidden',
+});
+
+export default function SocialPreviewCards({ card }: SocialPreviewCardsProps) {
+  // X's summary card puts a square thumbnail beside the text
+  const xSummary = card.twitterCard === 'summary';
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: '0.6rem' }}>
+      {PLATFORMS.map((platform) => {
+        const compact = platform.name === 'X' && xSummary;
+        return (
+          <div key={platform.name}>
+            <div style={{ fontSize: '0.7rem', fontWeight: 600, color: 'var(--muted)', textTransform: 'uppercase', letterSpacing: '0.03em', marginBottom: '0.25rem' }}>
+              {platform.name}
+            </div>
+            <div
+              style={{
+                display: compact ? 'flex' : 'block',
+                border: '1px solid var(--border)',
+                borderRadius: platform.name === 'X' ? '12px' : 'var(--radius-sm)',
+                backgroundColor: 'var(--card-bg)',
+                overflow: 'hidden',
+                fontSize: '0.75rem',
+              }}
+            >
+              <div
+                style={{
+                  flexShrink: 0,
+                  width: compact ? '5rem' : '100%',
+                  aspectRatio: compact ? '1' : String(platform.imageRatio),
+                  backgroundColor: 'var(--background-secondary)',
+                  backgroundImage: card.image ? `url("${card.image}")` : undefined,
+                  backgroundSize: 'cover',
+                  backgroundPosition: 'center',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  color: 'var(--muted)',
+                }}
+              >
+                {!card.image && 'No image'}
+              </div>
+              <div style={{ padding: '0.5rem 0.6rem', minWidth: 0 }}>
+                {platform.name === 'Facebook' && (
+                  <div style={{ fontSize: '0.65rem', color: 'var(--muted)', textTransform: 'uppercase' }}>{card.domain}</div>
+                )}
+                <div style={{ fontWeight: 600, color: 'var(--foreground)', ...clamp(2) }}>
+                  {card.title || <span style={{ color: 'var(--muted)' }}>(no title)</span>}
+                </div>
+                {platform.showDescription && card.description && (
+                  <div style={{ color: 'var(--muted)', ...clamp(1) }}>{card.description}</div>
+                )}
+                {platform.name !== 'Facebook' && (
+                  <div style={{ fontSize: '0.65rem', color: 'var(--muted)' }}>{card.domain}</div>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
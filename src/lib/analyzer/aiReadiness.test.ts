@@ -0,0 +1,111 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { analyzeAiReadiness, parseLlmsTxt } from './aiReadiness';
+import { parseHtml } from './extract';
+
+describe('parseLlmsTxt', () => {
+  it('reads a file in the llmstxt.org format', () => {
+    const result = parseLlmsTxt(`﻿# Stride & Co
+
+> Running shoe reviews and buying guides.
+
+Some optional notes.
+
+## Guides
+
+- [Flat feet](https://example.com/flat-feet.md): Shoes for overpronation
+- [Trail](https://example.com/trail.md)
+
+## Optional
+
+* [About](https://example.com/about.md)
+`);
+    expect(result).toEqual({
+      title: 'Stride & Co',
+      summary: 'Running shoe reviews and buying guides.',
+      sections: [{ title: 'Guides', links: 2 }, { title: 'Optional', links: 1 }],
+      linkCount: 3,
+      issues: [],
+    });
+  });
+
+  it('reports format problems with line numbers', () => {
+    const result = parseLlmsTxt(`Stride & Co
+### Intro
+## Guides
+- Flat feet: https://example.com/flat-feet
+# Second title
+## Empty
+`);
+    expect(result.title).toBeUndefined();
+    expect(result.issues).toEqual([
+      'Must start with an H1 naming the site or project (# Name)',
+      'Line 2: H3+ headings before the first H2 section',
+      'Line 4: list item isn\'t a "[name](url)" link',
+      'Line 5: only one H1 is allowed',
+      'Section "Guides" lists no links',
+      'Section "Empty" lists no links',
+    ]);
+  });
+
+  it('asks for a summary and sections under the title', () => {
+    expect(parseLlmsTxt('# Stride & Co\n').issues).toEqual(['No blockquote summary (> ...) under the H1', 'No H2 sections listing files']);
+  });
+
+  it('reports an empty file', () => {
+    expect(parseLlmsTxt(' \n\n').issues).toEqual(['File is empty']);
+  });
+});
+
+describe('analyzeAiReadiness', () => {
+  let server: Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.url === '/llms.txt') {
+        response.writeHead(200, { 'Content-Type': 'text/plain' });
+        response.end('# Example\n\n> An example site.\n\n## Docs\n\n- [Guide](https://example.com/guide.md)\n');
+      } else if (request.url === '/llms-full.txt') {
+        // Streamed without a Content-Length, past the 2MB that gets read
+        response.writeHead(200, { 'Content-Type': 'text/plain' });
+        const line = `${'x'.repeat(1023)}\n`;
+        for (let i = 0; i < 3 * 1024; i++) response.write(line);
+        response.end();
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('validates llms.txt and stops reading llms-full.txt at 2MB', async () => {
+    const { llmsTxt, llmsFullTxt } = await analyzeAiReadiness(parseHtml('<html><body></body></html>'), `${origin}/`, [], null);
+    expect(llmsTxt).toMatchObject({ exists: true, title: 'Example', summary: 'An example site.', linkCount: 1, issues: [] });
+    expect(llmsFullTxt).toMatchObject({ exists: true, bytes: undefined, issues: ['Larger than 2MB, so only the start was checked'] });
+  });
+
+  it('checks answers under question headings but not statement headings', async () => {
+    const headings = [
+      'What we do',
+      'How it works',
+      'Who we are',
+      'What size should I buy',
+      'How to clean suede',
+      'Can I return worn shoes',
+      'Our delivery options?',
+    ].map(heading => `<h2>${heading}</h2><p>Answer.</p>`).join('');
+    const { answers } = await analyzeAiReadiness(parseHtml(`<html><body>${headings}</body></html>`), `${origin}/`, [], null);
+    expect(answers.map(answer => answer.question)).toEqual([
+      'What size should I buy',
+      'How to clean suede',
+      'Can I return worn shoes',
+      'Our delivery options?',
+    ]);
+  });
+});
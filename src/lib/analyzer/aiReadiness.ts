@@ -0,0 +1,210 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult, AnswerCheck, FaqItem, LlmsTxtCheck, StructuredDataEntity } from '@/types/analysis';
+import { fetchWithTimeout, readCapped } from './fetch';
+import { normaliseText, ElementNode } from './extract';
+import { findEntities } from './structuredData';
+import { AI_CRAWLERS, ParsedRobotsTxt, isAllowed } from './robots';
+
+type AiReadinessAnalysis = NonNullable<AnalysisResult['aiReadiness']>;
+// Only this much of each file is downloaded and checked
+const MAX_LLMS_BYTES = 2 * 1024 * 1024;
+const MAX_FAQS = 30;
+const MAX_SNIPPET = 160;
+// A first sentence longer than this buries the answer
+const MAX_ANSWER_SENTENCE_WORDS = 40;
+
+// A question mark, or question word order: "What size should I buy", "How to clean suede",
+// "Can I return it" - but not statements such as "What we do", "How it works" or "Who we are"
+const QUESTION_HEADING = /\?\s*$|^(what|how|why|when|where|who|which)(\s+(?!(i|we|you|they|it|he|she)\b)\S+)?\s+(is|are|was|were|do|does|did|can|could|should|will|would|has|have|to)\b|^(can|do|does|did|is|are|should|will|could|would)\s+(i|we|you|they|it|my|your|our|the|a|an|this|there)\b/i;
+// Openers that put preamble before the answer
+const PREAMBLE = /^(great question|good question|in this (article|post|guide)|before we|let'?s|so,|well,|as we all know|have you ever|if you'?ve ever)/i;
+// A figure with a unit or %, e.g. "42%", "3.5 million", "£1,200", "12 hours"
+const STATISTIC = /(\d[\d,.]*\s?(%|per ?cent|million|billion|thousand|hours?|days?|years?|minutes?|x\b)|[£$€]\s?\d[\d,.]*)/i;
+
+// "- [Title](url): notes", the file list format inside each H2 section
+const LLMS_LINK = /^\s*[-*]\s*\[([^\]]+)\]\(([^)\s]+)\)(?::\s*(.*))?$/;
+
+function strings(values: (string | StructuredDataEntity)[] | undefined): string[] {
+  return (values || []).filter((value): value is string => typeof value === 'string');
+}
+
+function entities(values: (string | StructuredDataEntity)[] | undefined): StructuredDataEntity[] {
+  return (values || []).filter((value): value is StructuredDataEntity => typeof value !== 'string');
+}
+
+function snippet(text: string): string {
+  return text.length > MAX_SNIPPET ? `${text.slice(0, MAX_SNIPPET - 1)}…` : text;
+}
+
+function firstSentence(text: string): string {
+  return /^.+?[.!?](?=\s|$)/.exec(text)?.[0] || text;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Validate an llms.txt body against the llmstxt.org format: an H1 name, an
+ * optional blockquote summary, then H2 sections listing `- [name](url): notes`
+ */
+export function parseLlmsTxt(content: string): Pick<LlmsTxtCheck, 'title' | 'summary' | 'sections' | 'linkCount' | 'issues'> {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const issues: string[] = [];
+  const sections: LlmsTxtCheck['sections'] = [];
+  let title: string | undefined;
+  let summary: string | undefined;
+
+  const firstLine = lines.findIndex(line => line.trim());
+  if (firstLine < 0) return { sections, linkCount: 0, issues: ['File is empty'] };
+  if (/^#\s+\S/.test(lines[firstLine])) title = lines[firstLine].replace(/^#\s+/, '').trim();
+  else issues.push('Must start with an H1 naming the site or project (# Name)');
+
+  lines.forEach((line, i) => {
+    if (i === firstLine) return;
+    if (/^#\s/.test(line)) issues.push(`Line ${i + 1}: only one H1 is allowed`);
+    else if (/^##\s/.test(line)) sections.push({ title: line.replace(/^##\s+/, '').trim(), links: 0 });
+    else if (/^###+\s/.test(line) && sections.length === 0) issues.push(`Line ${i + 1}: H3+ headings before the first H2 section`);
+    else if (/^>\s?/.test(line) && sections.length === 0 && summary === undefined) summary = line.replace(/^>\s?/, '').trim();
+    else if (sections.length > 0 && /^\s*[-*]\s/.test(line)) {
+      if (LLMS_LINK.test(line)) sections[sections.length - 1].links++;
+      else issues.push(`Line ${i + 1}: list item isn't a "[name](url)" link`);
+    }
+  });
+
+  if (title && summary === undefined) issues.push('No blockquote summary (> ...) under the H1');
+  if (sections.length === 0) issues.push('No H2 sections listing files');
+  sections.filter(section => section.links === 0).forEach(section => issues.push(`Section "${section.title}" lists no links`));
+
+  return { title, summary, sections, linkCount: sections.reduce((sum, section) => sum + section.links, 0), issues };
+}
+
+async function checkLlmsFile(url: string, validate: boolean): Promise<LlmsTxtCheck> {
+  const check: LlmsTxtCheck = { url, exists: false, sections: [], linkCount: 0, issues: [] };
+  try {
+    const response = await fetchWithTimeout(url);
+    check.statusCode = response.status;
+    check.contentType = response.headers.get('content-type')?.split(';')[0];
+    if (!response.ok) {
+      await response.body?.cancel();
+      return check;
+    }
+    const { bytes, truncated } = await readCapped(response, MAX_LLMS_BYTES);
+    const content = bytes.toString('utf8');
+    // A soft 404 or SPA fallback serves the HTML shell for any path
+    if (check.contentType === 'text/html' || /^\s*<(!doctype|html)/i.test(content)) {
+      check.issues.push('Returns an HTML page rather than a text file');
+      return check;
+    }
+    check.exists = true;
+    check.bytes = truncated ? Number(response.headers.get('content-length')) || undefined : bytes.length;
+    if (validate) Object.assign(check, parseLlmsTxt(content));
+    else if (!content.trim()) check.issues.push('File is empty');
+    if (truncated) check.issues.push(`Larger than ${MAX_LLMS_BYTES / 1024 / 1024}MB, so only the start was checked`);
+  } catch (error) {
+    check.error = error instanceof Error ? error.message : 'Request failed';
+  }
+  return check;
+}
+
+const HEADINGS = 'h1, h2, h3, h4, h5, h6';
+
+// The text that follows a heading, up to the next heading of any level
+function sectionBlocks($: CheerioAPI, heading: ElementNode): ElementNode[] {
+  const blocks: ElementNode[] = [];
+  // Headings wrapped on their own, e.g. <div class="faq-question"><h3>...</h3></div>
+  let node = $(heading).next().length ? $(heading).next() : $(heading).parent().next();
+  while (node.length && !node.is(HEADINGS) && node.find(HEADINGS).length === 0 && blocks.length < 10) {
+    if (normaliseText(node.text())) blocks.push(node.get(0)!);
+    node = node.next();
+  }
+  return blocks;
+}
+
+function findFaqs($: CheerioAPI, structured: StructuredDataEntity[]): FaqItem[] {
+  const faqs: FaqItem[] = [];
+  for (const question of findEntities(structured, 'Question')) {
+    const answer = entities(question.properties.acceptedAnswer)[0];
+    faqs.push({
+      question: normaliseText(strings(question.properties.name)[0] || ''),
+      answer: snippet(normaliseText(strings(answer?.properties.text)[0] || '').replace(/<[^>]+>/g, '')),
+      source: 'schema',
+    });
+  }
+  $('details').each((_, el) => {
+    const question = normaliseText($(el).children('summary').first().text());
+    const answer = normaliseText($(el).clone().children('summary').remove().end().text());
+    if (question && answer) faqs.push({ question, answer: snippet(answer), source: 'details' });
+  });
+  $('h2, h3, h4, h5, dt').each((_, el) => {
+    const question = normaliseText($(el).text());
+    if (!question.endsWith('?')) return;
+    const answer = $(el).is('dt') ? normaliseText($(el).next('dd').text()) : normaliseText(sectionBlocks($, el).map(block => $(block).text()).join(' '));
+    if (answer) faqs.push({ question, answer: snippet(answer), source: $(el).is('dt') ? 'definition-list' : 'heading' });
+  });
+  return faqs.filter(faq => faq.question).slice(0, MAX_FAQS);
+}
+
+// Question-style H2-H4s and whether the text straight after them answers first
+function checkAnswers($: CheerioAPI): AnswerCheck[] {
+  return $('h2, h3, h4').toArray()
+    .filter(el => QUESTION_HEADING.test(normaliseText($(el).text())))
+    .map(el => {
+      const question = normaliseText($(el).text());
+      const first = sectionBlocks($, el)[0];
+      if (!first) return { question, words: 0, direct: false, reason: 'No content under the heading' };
+      const text = normaliseText($(first).text());
+      const sentence = firstSentence(text);
+      const words = wordCount(sentence);
+      const reason = !$(first).is('p, div, dd')
+        ? `Opens with a ${first.type === 'tag' ? first.tagName : 'block'} rather than a paragraph`
+        : PREAMBLE.test(sentence)
+        ? 'Opens with preamble before the answer'
+        : words > MAX_ANSWER_SENTENCE_WORDS
+        ? `First sentence is ${words} words`
+        : undefined;
+      return { question, answer: snippet(sentence), words, direct: !reason, reason };
+    });
+}
+
+/**
+ * llms.txt and llms-full.txt, AI crawler access to the page and to llms.txt, and
+ * the FAQ, answer-first and fact formatting AI answers quote from
+ */
+export async function analyzeAiReadiness(
+  $: CheerioAPI,
+  pageUrl: string,
+  structured: StructuredDataEntity[],
+  robots: ParsedRobotsTxt | null
+): Promise<AiReadinessAnalysis> {
+  const origin = new URL(pageUrl).origin;
+  const [llmsTxt, llmsFullTxt] = await Promise.all([
+    checkLlmsFile(`${origin}/llms.txt`, true),
+    checkLlmsFile(`${origin}/llms-full.txt`, false),
+  ]);
+
+  const crawlers = AI_CRAWLERS.map(agent => ({
+    agent,
+    page: robots ? isAllowed(robots, pageUrl, agent).allowed : true,
+    llmsTxt: robots ? isAllowed(robots, llmsTxt.url, agent).allowed : true,
+  }));
+
+  const faqs = findFaqs($, structured);
+  const answers = checkAnswers($);
+
+  const body = $('main').length ? $('main') : $('body');
+  const statistics = body.find('p, li, td').toArray()
+    .map(el => normaliseText($(el).text()))
+    .filter(text => text.length < 400 && STATISTIC.test(text))
+    .map(text => snippet(text.split(/(?<=[.!?])\s+/).find(sentence => STATISTIC.test(sentence)) || text));
+  const definitions = body.find('dl dt, dfn, abbr[title]').toArray().map(el => normaliseText($(el).text())).filter(Boolean);
+
+  return {
+    llmsTxt,
+    llmsFullTxt,
+    crawlers,
+    faqs,
+    answers,
+    facts: { statistics: [...new Set(statistics)].slice(0, 10), definitions: [...new Set(definitions)].slice(0, 10) },
+  };
+}
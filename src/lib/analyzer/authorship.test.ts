@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { analyzeAuthorship, extractAuthorship } from './authorship';
+
+const PAGE_URL = 'https://example.com/blog/flat-feet/';
+
+describe('extractAuthorship', () => {
+  it('reads authors from bylines, rel=author, meta tags and schema', () => {
+    const $ = parseHtml(`
+      <meta name="author" content="Jane Doe">
+      <meta property="article:author" content="https://example.com/authors/jane/">
+      <script type="application/ld+json">{"@type":"BlogPosting","author":{"@type":"Person","name":"Jane Doe","url":"/authors/jane/"}}</script>
+      <p class="byline">By <a href="/authors/jane/">Jane Doe</a> on 5 March 2024 | 4 min read</p>`);
+    const page = extractAuthorship($, PAGE_URL);
+    expect(page.isArticle).toBe(true);
+    expect(page.authors).toEqual([
+      { name: 'Jane Doe', url: 'https://example.com/authors/jane/', source: 'byline' },
+      { name: 'Jane Doe', source: 'meta' },
+      { url: 'https://example.com/authors/jane/', source: 'open-graph' },
+      { name: 'Jane Doe', url: 'https://example.com/authors/jane/', source: 'schema' },
+    ]);
+    expect(page.authorsConsistent).toBe(true);
+  });
+
+  it('drops an article:author URL that is an empty template value', async () => {
+    const $ = parseHtml('<meta property="og:type" content="article"><meta property="article:author" content="https://">');
+    expect(extractAuthorship($, PAGE_URL).authors).toEqual([]);
+    await expect(analyzeAuthorship($, PAGE_URL, [])).resolves.toMatchObject({ profiles: [] });
+  });
+
+  it('only reads <time>s that belong to the post', () => {
+    const $ = parseHtml(`
+      <main>
+        <article class="post">
+          <header><h1>Running shoes for flat feet</h1><p class="entry-meta">Posted <time datetime="2024-03-05">5 March</time></p></header>
+          <p>Body copy.</p>
+          <p>Updated <time class="updated" datetime="2024-04-01T09:00:00Z">1 April</time></p>
+          <section id="comments"><article class="comment"><time datetime="2024-03-09">9 March</time></article></section>
+        </article>
+        <section class="related-posts">
+          <article><h2>Trail shoes</h2><time datetime="2023-11-20">20 November 2023</time></article>
+        </section>
+      </main>
+      <aside><time datetime="2022-01-01">Archive</time></aside>`);
+    const page = extractAuthorship($, PAGE_URL);
+    expect(page.dates.map(date => [date.kind, date.iso])).toEqual([
+      ['published', '2024-03-05'],
+      ['modified', '2024-04-01'],
+    ]);
+    expect(page.datesConsistent).toBe(true);
+  });
+
+  it('reads a <time> beside the H1 when there is no <article>', () => {
+    const $ = parseHtml(`
+      <div class="post-header"><h1>Running shoes</h1><time datetime="2024-03-05">5 March 2024</time></div>
+      <div class="widget"><time datetime="2020-01-01">Old post</time></div>`);
+    expect(extractAuthorship($, PAGE_URL).dates.map(date => date.iso)).toEqual(['2024-03-05']);
+  });
+});
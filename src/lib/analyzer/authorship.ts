@@ -0,0 +1,246 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult, AuthorMention, AuthorProfile, AuthorshipPage, DateMention, StructuredDataEntity } from '@/types/analysis';
+import { fetchWithTimeout, mapWithConcurrency } from './fetch';
+import { parseHtml, normaliseText, resolveUrl, attrTokens, extractInternalLinks, extractSocial } from './extract';
+import { analyzeStructuredData, findEntities } from './structuredData';
+
+type AuthorshipAnalysis = NonNullable<AnalysisResult['authorship']>;
+
+// Blog posts, news and guides, as opposed to the listing pages above them
+const ARTICLE_PATH = /\/(blog|news|articles?|insights|posts?|guides?|resources|stories|journal)\/[^/]+/i;
+const MAX_ARTICLES = 3;
+const MAX_PROFILES = 3;
+// A paragraph this long about the author reads as a bio rather than a one-line credit
+const MIN_BIO_WORDS = 25;
+
+const BYLINE_SELECTOR = '.byline, .author, .author-name, .post-author, .entry-author, .article-author, [itemprop="author"], [class*="byline"]';
+// Dates that belong to something other than the post itself
+const OTHER_DATES_SELECTOR = 'aside, nav, .comments, #comments, .comment, [class*="related"], [class*="sidebar"]';
+const BIO_SELECTOR = '.author-bio, .about-author, .author-box, .author-info, .author-description, [class*="author-bio"], [class*="author-box"], [class*="about-author"]';
+
+const MONTHS = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+// "Updated on 5 March 2024", "Published: March 5, 2024", "Last modified 2024-03-05"
+const DATE_TEXT = new RegExp(
+  `\\b(published|posted|updated|last updated|modified|last modified)(?: on)?:?\\s+((?:${MONTHS})\\.? \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}|\\d{1,2}(?:st|nd|rd|th)? (?:${MONTHS})\\.?,? \\d{4}|\\d{4}-\\d{2}-\\d{2})`,
+  'i'
+);
+
+// Day-level ISO date as written, so a timestamp and a plain date for the same day agree
+function toIsoDate(value: string): string | undefined {
+  const iso = /^\d{4}-\d{2}-\d{2}/.exec(value.trim());
+  if (iso) return iso[0];
+  // Dates without a zone parse in local time, so read them back in local time
+  const date = new Date(value.replace(/(\d)(st|nd|rd|th)\b/i, '$1'));
+  if (Number.isNaN(date.getTime())) return undefined;
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function strings(values: (string | StructuredDataEntity)[] | undefined): string[] {
+  return (values || []).filter((value): value is string => typeof value === 'string');
+}
+
+function findMeta($: CheerioAPI, key: string): string | undefined {
+  const match = $('meta[content]').filter((_, el) => ($(el).attr('property') || $(el).attr('name') || '').toLowerCase() === key).first();
+  return match.length ? normaliseText(match.attr('content') || '') || undefined : undefined;
+}
+
+// "By Jane Doe" -> "Jane Doe"
+function cleanAuthorName(text: string): string | undefined {
+  const name = normaliseText(text)
+    .replace(/^(written |posted )?by:?\s+/i, '')
+    // Trailing dates, categories and reading times: "Jane Doe on 5 March | 4 min read"
+    .replace(/\s+[|•·–-]\s+.*$|,.*$|\s+(on|in|updated|published)\b.*$/i, '')
+    .trim();
+  return name && name.split(' ').length <= 5 ? name : undefined;
+}
+
+function findAuthors($: CheerioAPI, pageUrl: string, articles: StructuredDataEntity[]): AuthorMention[] {
+  const authors: AuthorMention[] = [];
+
+  $(BYLINE_SELECTOR).each((_, el) => {
+    // The bio box reuses author classes; its text isn't a byline
+    if ($(el).closest(BIO_SELECTOR).length) return;
+    const link = $(el).is('a[href]') ? $(el) : $(el).find('a[href]').first();
+    const name = cleanAuthorName(link.length ? link.text() : $(el).text());
+    if (name) authors.push({ name, url: link.length ? resolveUrl(link.attr('href') || '', pageUrl) : undefined, source: 'byline' });
+  });
+
+  $('a[rel][href], link[rel][href]').filter((_, el) => attrTokens($(el).attr('rel')).includes('author')).each((_, el) => {
+    authors.push({ name: cleanAuthorName($(el).text()), url: resolveUrl($(el).attr('href') || '', pageUrl), source: 'rel-author' });
+  });
+
+  const metaAuthor = findMeta($, 'author');
+  if (metaAuthor) authors.push({ name: metaAuthor, source: 'meta' });
+  const articleAuthor = findMeta($, 'article:author');
+  if (articleAuthor) {
+    // A profile URL, unless it's an unfilled template value like "https://"
+    if (!/^https?:/i.test(articleAuthor)) authors.push({ name: articleAuthor, source: 'open-graph' });
+    else authors.push({ url: resolveUrl(articleAuthor, pageUrl), source: 'open-graph' });
+  }
+
+  for (const article of articles) {
+    for (const author of article.properties.author || []) {
+      if (typeof author === 'string') {
+        authors.push({ name: author, source: 'schema' });
+      } else {
+        const url = strings(author.properties.url)[0];
+        authors.push({ name: strings(author.properties.name)[0], url: url ? resolveUrl(url, pageUrl) : undefined, source: 'schema' });
+      }
+    }
+  }
+
+  return authors.filter(author => author.name || author.url);
+}
+
+function findDates($: CheerioAPI, articles: StructuredDataEntity[]): DateMention[] {
+  const dates: DateMention[] = [];
+  const add = (value: string | undefined, kind: DateMention['kind'], source: DateMention['source']) => {
+    if (value) dates.push({ value, iso: toIsoDate(value), kind, source });
+  };
+
+  // The post's own <time>s: schema-marked, in a byline, beside the H1 or in the article
+  // holding it. Comments, related posts and sidebars carry dates of their own.
+  const heading = $('h1').first();
+  const articleWithHeading = heading.closest('article');
+  const article = articleWithHeading.length ? articleWithHeading : $('article').first();
+  $('time').each((_, el) => {
+    const time = $(el);
+    const inPost =
+      /^date(published|modified)$/i.test(time.attr('itemprop') || '') ||
+      (time.closest(OTHER_DATES_SELECTOR).length === 0 &&
+        (time.closest(BYLINE_SELECTOR).length > 0 ||
+          (heading.length > 0 && time.parent().is(heading.parent())) ||
+          (article.length > 0 && time.closest('article').is(article))));
+    if (!inPost) return;
+    const hints = `${time.attr('itemprop') || ''} ${time.attr('class') || ''} ${time.parent().attr('class') || ''} ${normaliseText(time.parent().text()).slice(0, 40)}`;
+    add(time.attr('datetime') || normaliseText(time.text()), /modif|updat/i.test(hints) ? 'modified' : 'published', 'time');
+  });
+
+  for (const article of articles) {
+    strings(article.properties.datePublished).forEach(value => add(value, 'published', 'schema'));
+    strings(article.properties.dateModified).forEach(value => add(value, 'modified', 'schema'));
+  }
+
+  add(findMeta($, 'article:published_time'), 'published', 'open-graph');
+  add(findMeta($, 'article:modified_time') || findMeta($, 'og:updated_time'), 'modified', 'open-graph');
+
+  // Visible "Updated ..." text outside <time>, which is already covered
+  const body = $('body').clone();
+  body.find('script, style, noscript, time').remove();
+  const match = DATE_TEXT.exec(normaliseText(body.text()));
+  if (match) add(match[2], /updat|modif/i.test(match[1]) ? 'modified' : 'published', 'text');
+
+  return dates;
+}
+
+function distinct(values: (string | undefined)[]): string[] {
+  return [...new Set(values.filter((value): value is string => !!value).map(value => value.toLowerCase()))];
+}
+
+/**
+ * Authors, author profile links and published/modified dates declared on a page,
+ * from bylines, rel=author, meta tags, Open Graph and Article schema
+ */
+export function extractAuthorship($: CheerioAPI, pageUrl: string): AuthorshipPage {
+  const articles = findEntities(analyzeStructuredData($, pageUrl).entities, 'Article');
+  const authors = findAuthors($, pageUrl, articles);
+  const dates = findDates($, articles);
+
+  const published = dates.filter(date => date.kind === 'published' && date.iso).map(date => date.iso!).sort()[0];
+  const modified = dates.filter(date => date.kind === 'modified' && date.iso).map(date => date.iso!).sort().pop();
+  const bio = normaliseText($(BIO_SELECTOR).first().text());
+
+  return {
+    url: pageUrl,
+    isArticle: articles.length > 0 || findMeta($, 'og:type') === 'article' || ARTICLE_PATH.test(new URL(pageUrl).pathname),
+    authors,
+    dates,
+    published,
+    modified,
+    hasBio: bio.split(' ').length >= MIN_BIO_WORDS,
+    authorsConsistent: distinct(authors.map(author => author.name)).length <= 1,
+    datesConsistent:
+      distinct(dates.filter(date => date.kind === 'published').map(date => date.iso)).length <= 1 &&
+      (!published || !modified || modified >= published),
+  };
+}
+
+async function fetchArticle(url: string): Promise<AuthorshipPage | null> {
+  try {
+    const response = await fetchWithTimeout(url);
+    if (!response.ok || !(response.headers.get('content-type') || '').includes('html')) {
+      await response.body?.cancel();
+      return null;
+    }
+    return extractAuthorship(parseHtml(await response.text()), response.url || url);
+  } catch {
+    return null;
+  }
+}
+
+async function checkProfile(url: string, name: string | undefined): Promise<AuthorProfile> {
+  const profile: AuthorProfile = { url, name, hasBio: false, socialLinks: 0, articleLinks: 0 };
+  try {
+    const response = await fetchWithTimeout(url);
+    profile.statusCode = response.status;
+    if (!response.ok) {
+      await response.body?.cancel();
+      return profile;
+    }
+    const $ = parseHtml(await response.text());
+    const people = findEntities(analyzeStructuredData($, url).entities, 'Person');
+    const paragraphs = $('p').toArray().map(el => normaliseText($(el).text()));
+    const bio = strings(people[0]?.properties.description)[0] || paragraphs.find(text => text.split(' ').length >= MIN_BIO_WORDS);
+
+    profile.hasBio = !!bio;
+    profile.bioExcerpt = bio?.slice(0, 160);
+    profile.socialLinks = extractSocial($, url).links.length + strings(people[0]?.properties.sameAs).length;
+    profile.articleLinks = extractInternalLinks($, url).filter(link => ARTICLE_PATH.test(new URL(link).pathname)).length;
+  } catch (error) {
+    profile.error = error instanceof Error ? error.message : 'Request failed';
+  }
+  return profile;
+}
+
+/**
+ * Check authorship and dates on the audited page when it's an article, otherwise
+ * on a few articles linked from it or listed in the sitemap, then fetch the
+ * author profile pages they link to
+ */
+export async function analyzeAuthorship($: CheerioAPI, pageUrl: string, candidateUrls: string[]): Promise<AuthorshipAnalysis> {
+  const audited = extractAuthorship($, pageUrl);
+  let pages = [audited];
+  if (!audited.isArticle) {
+    const host = new URL(pageUrl).host;
+    const articleUrls = [...new Set(candidateUrls)]
+      .filter(url => new URL(url).host === host && ARTICLE_PATH.test(new URL(url).pathname))
+      .slice(0, MAX_ARTICLES);
+    const fetched = await mapWithConcurrency(articleUrls, MAX_ARTICLES, fetchArticle);
+    pages = fetched.filter((page): page is AuthorshipPage => !!page && page.isArticle);
+  }
+
+  // Same-site author URLs; off-site ones are usually social profiles
+  const origin = new URL(pageUrl).origin;
+  const profileTargets = new Map<string, string | undefined>();
+  for (const author of pages.flatMap(page => page.authors)) {
+    if (author.url && new URL(author.url).origin === origin && !profileTargets.has(author.url)) {
+      profileTargets.set(author.url, author.name);
+    }
+  }
+  const profiles = await mapWithConcurrency([...profileTargets].slice(0, MAX_PROFILES), MAX_PROFILES, ([url, name]) => checkProfile(url, name));
+
+  const issues: string[] = [];
+  for (const page of pages) {
+    if (page.authors.length === 0) issues.push(`${page.url}: no author found`);
+    else if (!page.authors.some(author => author.url)) issues.push(`${page.url}: author isn't linked to a profile page`);
+    if (!page.authorsConsistent) issues.push(`${page.url}: sources name different authors (${distinct(page.authors.map(author => author.name)).join(', ')})`);
+    if (!page.published && !page.modified) issues.push(`${page.url}: no published or updated date`);
+    if (!page.datesConsistent) issues.push(`${page.url}: published/updated dates disagree`);
+  }
+  for (const profile of profiles) {
+    if (profile.error || (profile.statusCode && profile.statusCode >= 400)) issues.push(`${profile.url}: ${profile.error || `returns ${profile.statusCode}`}`);
+    else if (!profile.hasBio) issues.push(`${profile.url}: author page has no bio`);
+  }
+
+  return { pages, profiles, issues };
+}
@@ -0,0 +1,129 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { CrawledPage } from '@/types/analysis';
+import { parseHtml } from './extract';
+import { analyzeCanonical, analyzeCrawlCanonicals, findCanonicalDeclarations, getFilterParams } from './canonical';
+
+const PAGE_URL = 'https://shop.example/shoes/';
+
+const page = (url: string, extra: Partial<CrawledPage> = {}): CrawledPage => ({
+  url,
+  statusCode: 200,
+  contentType: 'text/html',
+  depth: 1,
+  h1s: [],
+  noindex: false,
+  inlinks: 0,
+  linkedFrom: [],
+  ...extra,
+});
+
+describe('findCanonicalDeclarations', () => {
+  it('lists head, body and Link header canonicals, resolving relative hrefs', () => {
+    const $ = parseHtml(`<head><link rel="canonical" href="/shoes/#top"></head>
+      <body><link rel="Canonical" href="https://shop.example/other/"></body>`);
+    expect(findCanonicalDeclarations($, PAGE_URL, '<https://shop.example/shoes/>; rel="canonical"')).toEqual([
+      { source: 'head', href: '/shoes/#top', url: 'https://shop.example/shoes/', relative: true },
+      { source: 'body', href: 'https://shop.example/other/', url: 'https://shop.example/other/', relative: false },
+      { source: 'link-header', href: 'https://shop.example/shoes/', url: 'https://shop.example/shoes/', relative: false },
+    ]);
+  });
+
+  it('ignores links that are only alternates', () => {
+    const $ = parseHtml('<head><link rel="alternate" hreflang="de" href="/de/shoes/"></head>');
+    expect(findCanonicalDeclarations($, PAGE_URL, null)).toEqual([]);
+  });
+});
+
+describe('getFilterParams', () => {
+  it('keeps filter, sort and tracking parameters but not pagination', () => {
+    expect(getFilterParams('https://shop.example/shoes/?colour=red&page=2&sort=price&utm_source=mail')).toEqual([
+      'colour',
+      'sort',
+      'utm_source',
+    ]);
+    expect(getFilterParams('https://shop.example/shoes/?Page=3')).toEqual([]);
+  });
+});
+
+describe('analyzeCanonical', () => {
+  let server: Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      response.writeHead(200, { 'Content-Type': 'text/html' });
+      response.end('<html><head><meta name="robots" content="noindex"></head></html>');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('reports an HTML canonical that conflicts with the Link header', async () => {
+    const $ = parseHtml('<head><link rel="canonical" href="https://shop.example/shoes/"></head>');
+    const headers = new Headers({ link: '<https://shop.example/shoes/?sort=price>; rel="canonical"' });
+    const analysis = await analyzeCanonical($, PAGE_URL, headers, { statusCode: 200, noindex: false });
+    expect(analysis.conflicting).toBe(true);
+    expect(analysis.selfReferencing).toBe(true);
+    expect(analysis.issues).toEqual([
+      'Conflicting canonicals: https://shop.example/shoes/ (head), https://shop.example/shoes/?sort=price (link-header)',
+    ]);
+  });
+
+  it('flags a relative canonical but reuses the page response when it points at itself', async () => {
+    const $ = parseHtml('<head><link rel="canonical" href="/shoes/"></head>');
+    const analysis = await analyzeCanonical($, PAGE_URL, new Headers(), { statusCode: 200, noindex: false });
+    expect(analysis.target).toEqual({ url: PAGE_URL, statusCode: 200, noindex: false });
+    expect(analysis.issues).toEqual(['Relative canonical "/shoes/" resolves to https://shop.example/shoes/']);
+  });
+
+  it('fetches a canonical on another host and checks it is indexable', async () => {
+    const pageUrl = origin.replace('127.0.0.1', 'localhost') + '/shoes/';
+    const $ = parseHtml(`<head><link rel="canonical" href="${origin}/shoes/"></head>`);
+    const analysis = await analyzeCanonical($, pageUrl, new Headers(), { statusCode: 200, noindex: false });
+    expect(analysis.crossDomain).toBe(true);
+    expect(analysis.target).toEqual({ url: `${origin}/shoes/`, statusCode: 200, noindex: true });
+    expect(analysis.issues).toEqual([
+      `Canonical points to another domain: ${origin}/shoes/`,
+      'Canonical target is noindexed',
+    ]);
+  });
+
+  it('reports a page with no canonical', async () => {
+    const analysis = await analyzeCanonical(parseHtml('<head></head>'), PAGE_URL, new Headers(), { statusCode: 200, noindex: false });
+    expect(analysis.issues).toEqual(['No canonical declared in the HTML or Link header']);
+    expect(analysis.target).toBeUndefined();
+  });
+});
+
+describe('analyzeCrawlCanonicals', () => {
+  it('checks crawled pages against the crawl responses for their targets', () => {
+    const sitewide = analyzeCrawlCanonicals([
+      page('https://shop.example/', { canonicalUrl: 'https://shop.example/' }),
+      page('https://shop.example/a/', { canonicalUrl: 'https://shop.example/old/' }),
+      page('https://shop.example/old/', { statusCode: 301, redirectsTo: 'https://shop.example/new/' }),
+      page('https://shop.example/b/', { canonicalUrl: 'https://shop.example/hidden/', canonicalConflict: true }),
+      page('https://shop.example/hidden/', { canonicalUrl: 'https://shop.example/hidden/', noindex: true }),
+      page('https://shop.example/shoes/?colour=red', { canonicalUrl: 'https://shop.example/shoes/' }),
+      page('https://shop.example/shoes/?size=9', { canonicalUrl: 'https://shop.example/shoes/?size=9' }),
+    ]);
+
+    expect(sitewide.pagesChecked).toBe(6);
+    expect(sitewide.notSelfReferencing).toEqual([
+      { url: 'https://shop.example/a/', canonicalUrl: 'https://shop.example/old/' },
+      { url: 'https://shop.example/b/', canonicalUrl: 'https://shop.example/hidden/' },
+    ]);
+    expect(sitewide.parameterised).toEqual([
+      { url: 'https://shop.example/shoes/?colour=red', canonicalUrl: 'https://shop.example/shoes/', ok: true },
+      { url: 'https://shop.example/shoes/?size=9', canonicalUrl: 'https://shop.example/shoes/?size=9', ok: false },
+    ]);
+    expect(sitewide.conflicts).toEqual([
+      { url: 'https://shop.example/a/', canonicalUrl: 'https://shop.example/old/', problem: 'Target redirects to https://shop.example/new/' },
+      { url: 'https://shop.example/b/', canonicalUrl: 'https://shop.example/hidden/', problem: 'Conflicting canonical declarations' },
+      { url: 'https://shop.example/b/', canonicalUrl: 'https://shop.example/hidden/', problem: 'Target is noindexed' },
+    ]);
+  });
+});
@@ -0,0 +1,201 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult, CanonicalDeclaration, CrawledPage } from '@/types/analysis';
+import { fetchWithTimeout } from './fetch';
+import { parseHtml, extractTechnical, resolveUrl, attrTokens } from './extract';
+import { findLinkHeaderCanonicals, isNoindexedByHeader } from './headers';
+
+type CanonicalAnalysis = NonNullable<AnalysisResult['canonical']>;
+
+const PAGINATION_PARAMS = ['page', 'p', 'pg', 'paged', 'pagenum', 'page_number'];
+
+function stripHash(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.href;
+}
+
+/**
+ * Page 2+ of a paginated series, e.g. ?page=2 or /page/2/
+ */
+export function isPaginatedUrl(url: string): boolean {
+  const parsed = new URL(url);
+  const pageParam = PAGINATION_PARAMS.some(param => Number(parsed.searchParams.get(param)) > 1);
+  const pagePath = /\/page\/(\d+)\/?$/i.exec(parsed.pathname);
+  return pageParam || (!!pagePath && Number(pagePath[1]) > 1);
+}
+
+/**
+ * Query parameters other than pagination: filters, sorting, tracking
+ */
+export function getFilterParams(url: string): string[] {
+  return [...new URL(url).searchParams.keys()].filter(param => !PAGINATION_PARAMS.includes(param.toLowerCase()));
+}
+
+/**
+ * Every canonical the page declares: <link rel=canonical> in the head or body,
+ * and the Link response header
+ */
+export function findCanonicalDeclarations($: CheerioAPI, pageUrl: string, linkHeader: string | null): CanonicalDeclaration[] {
+  const declarations: CanonicalDeclaration[] = [];
+
+  $('link[rel][href]').each((_, el) => {
+    if (!attrTokens($(el).attr('rel')).includes('canonical')) return;
+    const href = ($(el).attr('href') || '').trim();
+    const url = resolveUrl(href, pageUrl);
+    if (!url) return;
+    declarations.push({
+      source: $(el).closest('head').length ? 'head' : 'body',
+      href,
+      url: stripHash(url),
+      relative: !/^https?:\/\//i.test(href),
+    });
+  });
+
+  for (const url of findLinkHeaderCanonicals(linkHeader, pageUrl)) {
+    declarations.push({ source: 'link-header', href: url, url: stripHash(url), relative: false });
+  }
+
+  return declarations;
+}
+
+async function checkCanonicalTarget(url: string): Promise<NonNullable<CanonicalAnalysis['target']>> {
+  const target: NonNullable<CanonicalAnalysis['target']> = { url, noindex: false };
+
+  try {
+    const response = await fetchWithTimeout(url, 10000, { redirect: 'manual' });
+    target.statusCode = response.status;
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get('location');
+      target.redirectsTo = location ? new URL(location, url).href : undefined;
+      await response.body?.cancel();
+      return target;
+    }
+
+    target.noindex = isNoindexedByHeader(response.headers.get('x-robots-tag'));
+    if (response.ok && (response.headers.get('content-type') || '').includes('html')) {
+      target.noindex = target.noindex || extractTechnical(parseHtml(await response.text()), url).hasNoindex;
+    } else {
+      await response.body?.cancel();
+    }
+  } catch (error) {
+    target.error = error instanceof Error ? error.message : 'Request failed';
+  }
+
+  return target;
+}
+
+/**
+ * Validate the audited page's canonical: conflicting declarations, whether it's
+ * self-referencing, and whether the target is an indexable 200
+ */
+export async function analyzeCanonical(
+  $: CheerioAPI,
+  pageUrl: string,
+  headers: Headers,
+  page: { statusCode: number; noindex: boolean }
+): Promise<CanonicalAnalysis> {
+  const declarations = findCanonicalDeclarations($, pageUrl, headers.get('link'));
+  // Search engines ignore canonicals outside the head
+  const effective = declarations.filter(declaration => declaration.source !== 'body');
+  const canonicalUrl = effective[0]?.url;
+  const issues: string[] = [];
+
+  const analysis: CanonicalAnalysis = {
+    declarations,
+    canonicalUrl,
+    selfReferencing: !!canonicalUrl && canonicalUrl === stripHash(pageUrl),
+    conflicting: new Set(effective.map(declaration => declaration.url)).size > 1,
+    crossDomain: !!canonicalUrl && new URL(canonicalUrl).host !== new URL(pageUrl).host,
+    paginated: !!canonicalUrl && isPaginatedUrl(canonicalUrl),
+    parameterised: !!canonicalUrl && getFilterParams(canonicalUrl).length > 0,
+    issues,
+  };
+
+  if (declarations.length === 0) {
+    issues.push('No canonical declared in the HTML or Link header');
+    return analysis;
+  }
+
+  if (analysis.conflicting) {
+    issues.push(`Conflicting canonicals: ${effective.map(declaration => `${declaration.url} (${declaration.source})`).join(', ')}`);
+  } else if (effective.length > 1) {
+    issues.push(`Canonical declared ${effective.length} times`);
+  }
+  for (const declaration of declarations) {
+    if (declaration.source === 'body') {
+      issues.push(`<link rel="canonical"> in the body is ignored: ${declaration.href}`);
+    }
+    if (declaration.relative) {
+      issues.push(`Relative canonical "${declaration.href}" resolves to ${declaration.url}`);
+    }
+  }
+  if (analysis.crossDomain) issues.push(`Canonical points to another domain: ${canonicalUrl}`);
+  if (analysis.paginated) issues.push(`Canonical points to a paginated URL: ${canonicalUrl}`);
+  if (analysis.parameterised) issues.push(`Canonical has query parameters (${getFilterParams(canonicalUrl!).join(', ')})`);
+
+  if (!canonicalUrl) return analysis;
+
+  // The audited page was already fetched, so only other targets need a request
+  analysis.target = analysis.selfReferencing
+    ? { url: canonicalUrl, statusCode: page.statusCode, noindex: page.noindex }
+    : await checkCanonicalTarget(canonicalUrl);
+
+  const { target } = analysis;
+  if (target.error) {
+    issues.push(`Canonical target couldn't be fetched: ${target.error}`);
+  } else if (target.redirectsTo) {
+    issues.push(`Canonical target redirects (${target.statusCode}) to ${target.redirectsTo}`);
+  } else if (target.statusCode !== 200) {
+    issues.push(`Canonical target returns HTTP ${target.statusCode}`);
+  }
+  if (target.noindex) {
+    issues.push('Canonical target is noindexed');
+  }
+
+  return analysis;
+}
+
+/**
+ * Canonical checks across crawled pages, using the crawl's own responses for targets
+ */
+export function analyzeCrawlCanonicals(pages: CrawledPage[]): NonNullable<CanonicalAnalysis['sitewide']> {
+  const byUrl = new Map(pages.map(page => [page.url, page]));
+  const htmlPages = pages.filter(page => page.statusCode === 200 && page.contentType?.includes('html'));
+  const sitewide: NonNullable<CanonicalAnalysis['sitewide']> = {
+    pagesChecked: htmlPages.length,
+    notSelfReferencing: [],
+    conflicts: [],
+    parameterised: [],
+  };
+
+  for (const page of htmlPages) {
+    const { canonicalUrl } = page;
+    const hasFilters = getFilterParams(page.url).length > 0;
+
+    if (hasFilters) {
+      sitewide.parameterised.push({
+        url: page.url,
+        canonicalUrl,
+        ok: !!canonicalUrl && getFilterParams(canonicalUrl).length === 0,
+      });
+    } else if (!page.noindex && canonicalUrl !== page.url) {
+      sitewide.notSelfReferencing.push({ url: page.url, canonicalUrl });
+    }
+
+    if (page.canonicalConflict) {
+      sitewide.conflicts.push({ url: page.url, canonicalUrl: canonicalUrl || '', problem: 'Conflicting canonical declarations' });
+    }
+    const target = canonicalUrl && canonicalUrl !== page.url ? byUrl.get(canonicalUrl) : undefined;
+    if (!target || !canonicalUrl) continue;
+    if (target.redirectsTo) {
+      sitewide.conflicts.push({ url: page.url, canonicalUrl, problem: `Target redirects to ${target.redirectsTo}` });
+    } else if (target.statusCode !== 200) {
+      sitewide.conflicts.push({ url: page.url, canonicalUrl, problem: `Target returns ${target.statusCode ?? target.error}` });
+    } else if (target.noindex) {
+      sitewide.conflicts.push({ url: page.url, canonicalUrl, problem: 'Target is noindexed' });
+    }
+  }
+
+  return sitewide;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { extractBodyText, extractContentMetrics, findH1Description } from './content';
+
+describe('extractBodyText', () => {
+  it('keeps adjacent blocks apart and skips scripts, styles and templates', () => {
+    const $ = parseHtml(`<body><h1>Trail shoes</h1><p>Grip<br>for mud</p>
+      <script>var hidden = 1;</script><style>p { color: red }</style><template><p>Later</p></template></body>`);
+    expect(extractBodyText($)).toBe('Trail shoes Grip for mud');
+  });
+});
+
+describe('findH1Description', () => {
+  it('returns the paragraph directly under the H1 when it reads as a description', () => {
+    const $ = parseHtml('<h1>Trail shoes</h1><p>Grippy, cushioned trail shoes for mud, rock and long days on the fells.</p>');
+    expect(findH1Description($)).toBe('Grippy, cushioned trail shoes for mud, rock and long days on the fells.');
+  });
+
+  it('ignores a short label or a heading that comes first', () => {
+    expect(findH1Description(parseHtml('<h1>Trail shoes</h1><p>24 products</p>'))).toBeUndefined();
+    expect(findH1Description(parseHtml('<h1>Trail shoes</h1><h2>Filters</h2><p>Choose a size, width and colour to narrow down the list.</p>'))).toBeUndefined();
+  });
+});
+
+describe('extractContentMetrics', () => {
+  it('counts words, non-empty paragraphs, lists and data tables', () => {
+    const html = `<html><body>
+      <h1>Sizing guide</h1>
+      <p>Measure your foot in the evening.</p>
+      <p> </p>
+      <ul><li>Length</li><li>Width</li></ul>
+      <ul></ul>
+      <table><tr><th>UK</th><th>EU</th></tr><tr><td>8</td><td>42</td></tr></table>
+      <table><tr><td>Layout</td></tr></table>
+    </body></html>`;
+    const metrics = extractContentMetrics(parseHtml(html), html);
+
+    expect(metrics).toMatchObject({ wordCount: 15, paragraphCount: 1, listCount: 1, tableCount: 1, h1Description: undefined });
+    expect(metrics.textHtmlRatio).toBeGreaterThan(0);
+    expect(metrics.textHtmlRatio).toBeLessThan(100);
+  });
+
+  it('reports an empty page as zero', () => {
+    expect(extractContentMetrics(parseHtml(''), '')).toMatchObject({ wordCount: 0, paragraphCount: 0, textHtmlRatio: 0 });
+  });
+});
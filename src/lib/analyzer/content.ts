@@ -0,0 +1,49 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult } from '@/types/analysis';
+import { normaliseText } from './extract';
+
+// Enough words to read as a description rather than a label or button
+const MIN_DESCRIPTION_WORDS = 8;
+
+/**
+ * Visible body text, with a space between text nodes so adjacent blocks don't run together
+ */
+export function extractBodyText($: CheerioAPI): string {
+  const body = $('body').clone();
+  body.find('script, style, noscript, template, svg, iframe').remove();
+  const parts = body.find('*').addBack().contents().toArray()
+    .filter(node => node.type === 'text')
+    .map(node => $(node).text());
+  return normaliseText(parts.join(' '));
+}
+
+/**
+ * The paragraph directly under the first H1, e.g. a collection page's intro text
+ * Returns undefined when the next heading or the end of the page comes first
+ */
+export function findH1Description($: CheerioAPI): string | undefined {
+  const blocks = $('h1, h2, h3, h4, h5, h6, p').toArray();
+  const h1Index = blocks.findIndex(el => $(el).is('h1'));
+  const next = h1Index >= 0 ? blocks[h1Index + 1] : undefined;
+  if (!next || !$(next).is('p')) return undefined;
+  const text = normaliseText($(next).text());
+  return text.split(' ').length >= MIN_DESCRIPTION_WORDS ? text : undefined;
+}
+
+/**
+ * Word, paragraph, list and table counts, and how much of the HTML is visible text
+ */
+export function extractContentMetrics($: CheerioAPI, html: string): NonNullable<AnalysisResult['content']> {
+  const text = extractBodyText($);
+  const paragraphs = $('p').toArray().filter(el => normaliseText($(el).text()) !== '');
+
+  return {
+    wordCount: text ? text.split(' ').length : 0,
+    paragraphCount: paragraphs.length,
+    textHtmlRatio: html.length ? Math.round((text.length / html.length) * 1000) / 10 : 0,
+    listCount: $('ul, ol, dl').filter((_, el) => $(el).children('li, dt').length > 0).length,
+    // Layout tables rarely have header cells
+    tableCount: $('table').filter((_, el) => $(el).find('th').length > 0 || $(el).find('tr').length > 1).length,
+    h1Description: findH1Description($),
+  };
+}
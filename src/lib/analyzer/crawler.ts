@@ -0,0 +1,196 @@
+import { CrawlOptions, CrawledPage, AnalysisResult } from '@/types/analysis';
+import { fetchWithTimeout, USER_AGENT } from './fetch';
+import { parseHtml, extractMeta, extractHeadings, extractTechnical, extractInternalLinks } from './extract';
+import { ParsedRobotsTxt, isAllowed } from './robots';
+import { isNoindexedByHeader } from './headers';
+import { findMixedContent } from './mixedContent';
+import { findCanonicalDeclarations } from './canonical';
+import { countImageAlt } from './images';
+import { findH1Description } from './content';
+import { findPlaceholders } from './hygiene';
+import { extractNap } from './nap';
+
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+  maxPages: 50,
+  maxDepth: 4,
+  concurrency: 4,
+};
+
+// Hard caps so a single request can't turn into an unbounded crawl
+const CRAWL_LIMITS: CrawlOptions = {
+  maxPages: 500,
+  maxDepth: 10,
+  concurrency: 10,
+};
+
+const MAX_LINKED_FROM = 5;
+const PAGE_TIMEOUT_MS = 10000;
+// Too little time left to be worth starting another batch
+const MIN_PAGE_TIME_MS = 1000;
+
+// Links to files that aren't pages - not worth a request
+const NON_PAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|svg|ico|pdf|zip|gz|mp4|mp3|webm|css|js|json|xml|txt|woff2?|ttf|eot)$/i;
+
+/**
+ * Merge caller-supplied crawl options with the defaults, clamped to the hard limits
+ */
+export function resolveCrawlOptions(input?: Partial<CrawlOptions>): CrawlOptions {
+  const clamp = (value: unknown, fallback: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(Math.floor(value), 1), max) : fallback;
+
+  return {
+    maxPages: clamp(input?.maxPages, DEFAULT_CRAWL_OPTIONS.maxPages, CRAWL_LIMITS.maxPages),
+    maxDepth: clamp(input?.maxDepth, DEFAULT_CRAWL_OPTIONS.maxDepth, CRAWL_LIMITS.maxDepth),
+    concurrency: clamp(input?.concurrency, DEFAULT_CRAWL_OPTIONS.concurrency, CRAWL_LIMITS.concurrency),
+  };
+}
+
+// Crawl URLs are compared without their fragment
+function normaliseCrawlUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.href;
+}
+
+async function fetchPage(url: string, depth: number, timeout: number): Promise<{ page: CrawledPage; links: string[] }> {
+  const page: CrawledPage = { url, depth, h1s: [], noindex: false, inlinks: 0, linkedFrom: [] };
+
+  try {
+    const response = await fetchWithTimeout(url, timeout, { redirect: 'manual' });
+    page.statusCode = response.status;
+    page.contentType = response.headers.get('content-type') || undefined;
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get('location');
+      if (location) {
+        page.redirectsTo = new URL(location, url).href;
+        return { page, links: [page.redirectsTo] };
+      }
+      return { page, links: [] };
+    }
+
+    if (!response.ok || !page.contentType?.includes('html')) {
+      return { page, links: [] };
+    }
+
+    const $ = parseHtml(await response.text());
+    const meta = extractMeta($, url);
+    const technical = extractTechnical($, url);
+    page.title = meta.title;
+    page.description = meta.description;
+    page.h1s = extractHeadings($).h1Tags;
+    const canonicals = findCanonicalDeclarations($, url, response.headers.get('link')).filter(
+      declaration => declaration.source !== 'body'
+    );
+    page.canonicalUrl = canonicals[0]?.url;
+    if (new Set(canonicals.map(declaration => declaration.url)).size > 1) {
+      page.canonicalConflict = true;
+    }
+    page.noindex = technical.hasNoindex || isNoindexedByHeader(response.headers.get('x-robots-tag'));
+    page.mixedContent = findMixedContent($, url) || undefined;
+    page.imageAlt = countImageAlt($);
+    page.h1Description = findH1Description($);
+    page.placeholders = findPlaceholders($);
+    page.nap = extractNap($, url);
+
+    return { page, links: extractInternalLinks($, url) };
+  } catch (error) {
+    page.error = error instanceof Error ? error.message : 'Request failed';
+    return { page, links: [] };
+  }
+}
+
+/**
+ * Breadth-first crawl of the start URL's host, bounded by page count, click depth
+ * and an optional `deadline` (a Date.now() timestamp)
+ * Honours robots.txt for our user agent, so an unreachable one blocks the crawl. Sitemap URLs the crawl never reaches are
+ * reported as orphan candidates.
+ */
+export async function crawlSite(
+  startUrl: string,
+  options: CrawlOptions,
+  robots: ParsedRobotsTxt | null,
+  sitemapUrls: string[] = [],
+  deadline = Infinity
+): Promise<NonNullable<AnalysisResult['crawl']>> {
+  const startTime = Date.now();
+  const host = new URL(startUrl).host;
+  const pages = new Map<string, CrawledPage>();
+  const discovered = new Set<string>();
+  const blockedByRobots: string[] = [];
+  const queue: { url: string; depth: number }[] = [];
+  // Target URL -> pages linking to it
+  const inlinkSources = new Map<string, Set<string>>();
+  let truncated = false;
+
+  const enqueue = (url: string, depth: number) => {
+    const normalised = normaliseCrawlUrl(url);
+    if (discovered.has(normalised)) return;
+    discovered.add(normalised);
+
+    if (robots && !isAllowed(robots, normalised, USER_AGENT).allowed) {
+      blockedByRobots.push(normalised);
+      return;
+    }
+    if (depth > options.maxDepth) {
+      truncated = true;
+      return;
+    }
+    queue.push({ url: normalised, depth });
+  };
+
+  enqueue(startUrl, 0);
+
+  while (queue.length > 0) {
+    const remaining = options.maxPages - pages.size;
+    const timeLeft = deadline - Date.now();
+    if (remaining <= 0 || timeLeft < MIN_PAGE_TIME_MS) {
+      truncated = true;
+      break;
+    }
+
+    const batch = queue.splice(0, Math.min(options.concurrency, remaining));
+    const timeout = Math.min(PAGE_TIMEOUT_MS, timeLeft);
+    const results = await Promise.all(batch.map(({ url, depth }) => fetchPage(url, depth, timeout)));
+
+    for (const { page, links } of results) {
+      pages.set(page.url, page);
+      for (const link of links) {
+        const linkUrl = new URL(link);
+        if (linkUrl.host !== host || NON_PAGE_EXTENSIONS.test(linkUrl.pathname)) continue;
+        const normalised = normaliseCrawlUrl(link);
+
+        // Redirects don't cost the user a click, so the target keeps the same depth
+        enqueue(normalised, page.redirectsTo ? page.depth : page.depth + 1);
+
+        if (normalised !== page.url) {
+          const sources = inlinkSources.get(normalised) || new Set<string>();
+          sources.add(page.url);
+          inlinkSources.set(normalised, sources);
+        }
+      }
+    }
+  }
+
+  for (const [url, sources] of inlinkSources) {
+    const target = pages.get(url);
+    if (target) {
+      target.inlinks = sources.size;
+      target.linkedFrom = [...sources].slice(0, MAX_LINKED_FROM);
+    }
+  }
+
+  const orphanCandidates = sitemapUrls
+    .map(normaliseCrawlUrl)
+    .filter(url => new URL(url).host === host && !discovered.has(url));
+
+  return {
+    startUrl,
+    options,
+    pages: [...pages.values()],
+    truncated,
+    blockedByRobots,
+    orphanCandidates,
+    durationMs: Date.now() - startTime,
+  };
+}
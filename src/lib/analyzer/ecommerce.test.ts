@@ -0,0 +1,225 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { analyzeCollectionPage, analyzeEcommerce, analyzeProductPage, classifyEcommerceUrl, findBreadcrumbs } from './ecommerce';
+import { analyzeStructuredData } from './structuredData';
+
+const PRODUCT_PAGE = `<html><head>
+  <script type="application/ld+json">${JSON.stringify({
+    '@context': 'https://schema.org',
+    '@graph': [
+      {
+        '@type': 'Product',
+        name: 'Trail Runner 2',
+        offers: { '@type': 'Offer', price: '89.00', priceCurrency: 'GBP', availability: 'https://schema.org/InStock' },
+        aggregateRating: { '@type': 'AggregateRating', ratingValue: '4.6', reviewCount: '128' },
+      },
+      {
+        '@type': 'BreadcrumbList',
+        itemListElement: [
+          { '@type': 'ListItem', position: 1, name: 'Home', item: 'https://shop.example/' },
+          { '@type': 'ListItem', position: 2, name: 'Shoes', item: 'https://shop.example/collections/shoes' },
+          { '@type': 'ListItem', position: 3, name: 'Trail Runner 2' },
+        ],
+      },
+    ],
+  })}</script>
+</head><body><main>
+  <h1>Trail Runner 2</h1>
+  <p class="price">£89.00</p>
+  <p class="stock">Only 3 left</p>
+  <form action="/cart/add"><button type="submit">Add to basket</button></form>
+  <div class="yotpo-widget"></div>
+  <h2>Specifications</h2>
+  <a href="/pages/delivery">Delivery information</a>
+  <a href="/pages/returns">Returns</a>
+</main></body></html>`;
+
+describe('classifyEcommerceUrl', () => {
+  it('goes by the path, with products nested in collections counting as products', () => {
+    expect(classifyEcommerceUrl('https://shop.example/products/trail-runner')).toBe('product');
+    expect(classifyEcommerceUrl('https://shop.example/collections/shoes/products/trail-runner')).toBe('product');
+    expect(classifyEcommerceUrl('https://shop.example/product-category/shoes/')).toBe('collection');
+    expect(classifyEcommerceUrl('https://shop.example/pages/about')).toBeUndefined();
+  });
+});
+
+describe('findBreadcrumbs', () => {
+  it('reads the trail from BreadcrumbList schema', () => {
+    const url = 'https://shop.example/products/trail-runner-2';
+    const $ = parseHtml(PRODUCT_PAGE);
+    expect(findBreadcrumbs($, url, analyzeStructuredData($, url).entities)).toEqual({
+      found: true,
+      source: 'schema',
+      items: ['Home', 'Shoes', 'Trail Runner 2'],
+      issues: [],
+    });
+  });
+
+  it('falls back to breadcrumb markup and notes what it lacks', () => {
+    const url = 'https://shop.example/collections/shoes';
+    const $ = parseHtml(`<nav aria-label="Breadcrumb"><a href="/">Home</a> / <a href="/collections/shoes">Shoes</a></nav>`);
+    expect(findBreadcrumbs($, url, [])).toEqual({
+      found: true,
+      source: 'markup',
+      items: ['Home', 'Shoes'],
+      issues: ['The current page links to itself', 'No BreadcrumbList schema'],
+    });
+  });
+});
+
+describe('analyzeProductPage', () => {
+  it('takes price, stock and reviews from schema and checks the page for the rest', () => {
+    const check = analyzeProductPage(parseHtml(PRODUCT_PAGE), 'https://shop.example/products/trail-runner-2');
+    expect(check).toMatchObject({
+      price: '89.00',
+      currency: 'GBP',
+      priceSource: 'schema',
+      visiblePrice: '£89.00',
+      availability: 'InStock',
+      availabilitySource: 'schema',
+      visibleAvailability: 'Only 3 left',
+      addToCart: true,
+      reviews: { rating: 4.6, count: 128, widget: 'Yotpo' },
+      links: { shipping: 'https://shop.example/pages/delivery', returns: 'https://shop.example/pages/returns' },
+      hasSpecs: true,
+    });
+  });
+
+  it('falls back to the visible price and stock wording without schema', () => {
+    const check = analyzeProductPage(
+      parseHtml(`<main>
+        <h1>Wool socks</h1>
+        <span class="product-price">€12,50</span>
+        <p>Sold out</p>
+      </main>`),
+      'https://shop.example/products/wool-socks'
+    );
+    expect(check).toMatchObject({ price: '€12,50', currency: 'EUR', priceSource: 'text', availability: 'Sold out', availabilitySource: 'text', addToCart: false });
+  });
+});
+
+describe('analyzeCollectionPage', () => {
+  let server: Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      const { pathname, search } = new URL(request.url || '/', 'http://localhost');
+      if (!search) {
+        response.writeHead(404);
+        response.end();
+      } else if (pathname === '/collections/shoes') {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end('<html><head><link rel="canonical" href="/collections/shoes"></head><body></body></html>');
+      } else if (pathname === '/collections/socks') {
+        response.writeHead(404, { 'Content-Type': 'text/html' });
+        response.end('<html><head><link rel="canonical" href="/collections/socks"></head><body>Not found</body></html>');
+      } else {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end('{"products":[]}');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('picks out facet parameters by whole name or platform prefix', async () => {
+    const links = [
+      '?color=red',
+      '?sort_by=price-ascending',
+      '?filter.v.price.gte=10',
+      '?pf_t_size=9',
+      '?filter_colour=blue',
+      '?fbclid=abc',
+      '?from=nav',
+      '?format=list',
+      '?tagline=x',
+      '?ordernum=2',
+    ].map(query => `<a href="/collections/shoes${query}">Link</a>`).join('');
+    const collection = await analyzeCollectionPage(parseHtml(`<html><body>${links}</body></html>`), `${origin}/collections/shoes`);
+
+    expect(collection.filterParams).toEqual(['color', 'sort_by', 'filter.v.price.gte', 'pf_t_size', 'filter_colour']);
+  });
+
+  it('counts product cards with a CTA, pagination and FAQs', async () => {
+    const $ = parseHtml(`<html><body>
+      <ul>
+        <li><a href="/products/trail-runner">Trail Runner</a><button>Quick add</button></li>
+        <li><a href="/products/road-racer">Road Racer</a></li>
+      </ul>
+      <a href="/collections/shoes?page=2" rel="next">Next</a>
+      <h2>FAQs</h2>
+    </body></html>`);
+    const collection = await analyzeCollectionPage($, `${origin}/collections/shoes`);
+
+    expect(collection).toMatchObject({
+      productLinks: 2,
+      productCards: 2,
+      cardsWithCta: 1,
+      carousel: false,
+      filterParams: [],
+      filterCanonical: undefined,
+      pagination: { found: true, relNext: `${origin}/collections/shoes?page=2` },
+      hasFaqs: true,
+      faqSchema: false,
+    });
+  });
+
+  it('checks that a filtered URL canonicalises to the collection', async () => {
+    const $ = parseHtml('<a href="/collections/shoes?color=red">Red</a>');
+    const { filterCanonical } = await analyzeCollectionPage($, `${origin}/collections/shoes`);
+
+    expect(filterCanonical).toEqual({
+      url: `${origin}/collections/shoes?color=red`,
+      statusCode: 200,
+      canonicalUrl: `${origin}/collections/shoes`,
+      toCollection: true,
+    });
+  });
+
+  it("doesn't read a canonical from an error page or a non-HTML response", async () => {
+    const socks = await analyzeCollectionPage(parseHtml('<a href="/collections/socks?size=9">9</a>'), `${origin}/collections/socks`);
+    expect(socks.filterCanonical).toEqual({ url: `${origin}/collections/socks?size=9`, statusCode: 404, toCollection: false, error: 'HTTP 404' });
+
+    const feed = await analyzeCollectionPage(parseHtml('<a href="/collections/feed?sort=price">Price</a>'), `${origin}/collections/feed`);
+    expect(feed.filterCanonical).toEqual({ url: `${origin}/collections/feed?sort=price`, statusCode: 200, toCollection: false, error: 'Not an HTML page' });
+  });
+});
+
+describe('analyzeEcommerce', () => {
+  let server: Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.url === '/products/trail-runner-2') {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end(PRODUCT_PAGE);
+      } else {
+        response.writeHead(404, { 'Content-Type': 'text/html' });
+        response.end('<h1>Not found</h1>');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('samples same-host product and collection URLs and reports the ones that fail', async () => {
+    const { products, collections } = await analyzeEcommerce(`${origin}/`, [
+      `${origin}/products/trail-runner-2`,
+      `${origin}/pages/about`,
+      'https://other.example/products/elsewhere',
+      `${origin}/collections/gone`,
+    ]);
+
+    expect(products).toHaveLength(1);
+    expect(products[0]).toMatchObject({ url: `${origin}/products/trail-runner-2`, statusCode: 200, price: '89.00', addToCart: true });
+    expect(collections).toEqual([expect.objectContaining({ url: `${origin}/collections/gone`, statusCode: 404, error: 'HTTP 404', productLinks: 0 })]);
+  });
+});
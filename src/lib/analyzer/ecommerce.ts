@@ -0,0 +1,390 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult, BreadcrumbCheck, CollectionPageCheck, ProductPageCheck, StructuredDataEntity } from '@/types/analysis';
+import { fetchWithTimeout, mapWithConcurrency } from './fetch';
+import { parseHtml, normaliseText, resolveUrl, extractLinks, extractTechnical, ElementNode } from './extract';
+import { analyzeStructuredData, findEntities } from './structuredData';
+
+type EcommerceAnalysis = NonNullable<AnalysisResult['ecommerce']>;
+const MAX_SAMPLED = 5;
+const SAMPLE_CONCURRENCY = 3;
+
+// Shopify, WooCommerce, Magento and marketplace-style product URLs
+const PRODUCT_PATH = /\/(products?|p|item|dp)\/[^/?#]+/i;
+const COLLECTION_PATH = /\/(collections?|categor(y|ies)|product-category|shop|c)\/[^/?#]+/i;
+
+// Query parameters that facet or sort a listing rather than identify a page, by
+// name or by a platform's prefix, e.g. Shopify's filter.v.price.gte and WooCommerce's filter_colour
+const FACET_PARAM = /^(filter|filters|f|color|colour|size|price|min_price|max_price|brand|sort|sort_by|order|orderby|tag|tags|material|style|attr|refine|facet)$/i;
+const FACET_PARAM_PREFIX = /^(pf_|filter[._[]|attribute_|facet[._[])/i;
+const PAGE_PARAM = /^(page|p|pg|paged)$/i;
+
+function isFacetParam(key: string): boolean {
+  return FACET_PARAM.test(key) || FACET_PARAM_PREFIX.test(key);
+}
+
+const CTA_TEXT = /add to (cart|basket|bag)|buy( it)? now|shop now|view (product|details)|quick (view|add|shop)|choose options|select options|add$/i;
+const ADD_TO_CART = /add to (cart|basket|bag|trolley)|buy( it)? now|pre-?order/i;
+const CAROUSEL_PATTERN = /carousel|slider|swiper|slick|splide|glide|flickity|owl-/i;
+const CARD_SELECTOR = 'li, article, [class*="product"], [class*="card"], [class*="item"], [class*="tile"]';
+
+// Review platforms, by the class, id or script host they leave in the page
+const REVIEW_WIDGETS: [string, RegExp][] = [
+  ['Trustpilot', /trustpilot/i],
+  ['Yotpo', /yotpo/i],
+  ['Okendo', /okendo/i],
+  ['Judge.me', /jdgm|judge\.?me/i],
+  ['Reviews.io', /reviews\.io|reviewsio/i],
+  ['Bazaarvoice', /bazaarvoice|\bbv-/i],
+  ['Feefo', /feefo/i],
+  ['Stamped', /stamped/i],
+  ['Loox', /loox/i],
+  ['Google Customer Reviews', /google-customer-reviews|merchantwidget/i],
+];
+
+const AVAILABILITY_TEXT = /\b(in stock|out of stock|sold out|only \d+ left|low stock|available now|pre-?order|back ?order|currently unavailable|available to order)\b/i;
+// Symbol or code next to an amount, e.g. £24.99, $1,299, 24,99 €, USD 20
+const PRICE_TEXT = /(£|\$|€|¥|₹|(?:USD|GBP|EUR|AUD|CAD|NZD)\s?)\s?\d[\d,]*(?:\.\d{2})?|\d[\d.]*(?:,\d{2})?\s?(€|kr|zł)/;
+const CURRENCY_SYMBOLS: Record<string, string> = { '£': 'GBP', '$': 'USD', '€': 'EUR', '¥': 'JPY', '₹': 'INR', 'kr': 'SEK', 'zł': 'PLN' };
+
+const POLICY_LINKS: { key: keyof ProductPageCheck['links']; pattern: RegExp }[] = [
+  { key: 'shipping', pattern: /shipping|delivery/i },
+  { key: 'returns', pattern: /returns?\b|refund|exchange/i },
+  { key: 'warranty', pattern: /warrant|guarantee/i },
+  { key: 'contact', pattern: /contact|customer (service|support|care)|help ?cent(re|er)|support/i },
+];
+
+function strings(values: (string | StructuredDataEntity)[] | undefined): string[] {
+  return (values || []).filter((value): value is string => typeof value === 'string');
+}
+
+function entities(values: (string | StructuredDataEntity)[] | undefined): StructuredDataEntity[] {
+  return (values || []).filter((value): value is StructuredDataEntity => typeof value !== 'string');
+}
+
+function findMeta($: CheerioAPI, key: string): string | undefined {
+  const match = $('meta[content]').filter((_, el) => ($(el).attr('property') || $(el).attr('name') || '').toLowerCase() === key).first();
+  return match.length ? normaliseText(match.attr('content') || '') || undefined : undefined;
+}
+
+function classAndId($: CheerioAPI, el: ElementNode): string {
+  return `${$(el).attr('class') || ''} ${$(el).attr('id') || ''}`;
+}
+
+/**
+ * Whether a URL looks like a product or a collection page, going by its path
+ */
+export function classifyEcommerceUrl(url: string): 'product' | 'collection' | undefined {
+  const { pathname } = new URL(url);
+  // Shopify nests products under collections: /collections/x/products/y
+  if (PRODUCT_PATH.test(pathname)) return 'product';
+  if (COLLECTION_PATH.test(pathname)) return 'collection';
+  return undefined;
+}
+
+/**
+ * BreadcrumbList schema, or breadcrumb navigation markup, with its trail and any
+ * structural problems
+ */
+export function findBreadcrumbs($: CheerioAPI, pageUrl: string, structured: StructuredDataEntity[]): BreadcrumbCheck {
+  const list = findEntities(structured, 'BreadcrumbList')[0];
+  if (list) {
+    const items = entities(list.properties.itemListElement)
+      .map(item => {
+        // `item` is either the URL or a Thing with its own @id/name
+        const thing = entities(item.properties.item)[0];
+        return {
+          position: Number(strings(item.properties.position)[0]),
+          name: strings(item.properties.name)[0] || strings(thing?.properties.name)[0],
+          url: strings(item.properties.item)[0] || thing?.id || strings(thing?.properties.url)[0],
+        };
+      })
+      .sort((a, b) => a.position - b.position);
+    const issues: string[] = [];
+    if (items.some((item, i) => item.position !== i + 1)) issues.push('Positions are not numbered 1, 2, 3...');
+    items.forEach((item, i) => {
+      if (!item.name) issues.push(`Item ${i + 1} has no name`);
+      // The last item may omit its URL, as it's the current page
+      if (!item.url && i < items.length - 1) issues.push(`Item ${i + 1} has no URL`);
+    });
+    if (items.length < 2) issues.push('Trail has fewer than two items');
+    return { found: true, source: 'schema', items: items.map(item => item.name || '?'), issues };
+  }
+
+  const nav = $('nav[aria-label*="readcrumb"], [class*="breadcrumb"], [id*="breadcrumb"]').first();
+  if (!nav.length) return { found: false, items: [], issues: [] };
+  const links = nav.find('a[href]').toArray();
+  // The current page usually ends the trail as plain text after the links
+  const last = nav.contents().last();
+  const items = nav.find('li').length
+    ? nav.find('li').toArray().map(el => normaliseText($(el).text())).filter(Boolean)
+    : [...links.map(el => normaliseText($(el).text())), last.is('a') ? '' : normaliseText(last.text())]
+        // Separators written between items, e.g. "Home / Mugs" or "Home › Mugs"
+        .map(text => text.replace(/^[/>»›|\s]+/, ''))
+        .filter(Boolean);
+  const issues: string[] = [];
+  if (links.length === 0) issues.push('Breadcrumb items are not links');
+  if (links.some(el => resolveUrl($(el).attr('href') || '', pageUrl) === pageUrl)) issues.push('The current page links to itself');
+  issues.push('No BreadcrumbList schema');
+  return { found: true, source: 'markup', items, issues };
+}
+
+function findReviewWidget($: CheerioAPI): string | undefined {
+  const markers = [
+    ...$('[class], [id]').toArray().map(el => classAndId($, el)),
+    ...$('script[src], iframe[src]').toArray().map(el => $(el).attr('src') || ''),
+  ].join(' ');
+  return REVIEW_WIDGETS.find(([, pattern]) => pattern.test(markers))?.[0];
+}
+
+function findPolicyLinks($: CheerioAPI, pageUrl: string): ProductPageCheck['links'] {
+  const links: ProductPageCheck['links'] = {};
+  for (const link of extractLinks($, pageUrl)) {
+    const haystack = `${link.text} ${new URL(link.url).pathname}`;
+    for (const { key, pattern } of POLICY_LINKS) {
+      if (!links[key] && pattern.test(haystack)) links[key] = link.url;
+    }
+  }
+  if (!links.contact && $('a[href^="tel:"], a[href^="mailto:"]').length) {
+    links.contact = $('a[href^="tel:"], a[href^="mailto:"]').first().attr('href');
+  }
+  return links;
+}
+
+/**
+ * Price, stock, add-to-cart, reviews, policy links, specs and breadcrumbs on a
+ * product page
+ */
+export function analyzeProductPage($: CheerioAPI, url: string): ProductPageCheck {
+  const structured = analyzeStructuredData($, url).entities;
+  const product = findEntities(structured, 'Product')[0];
+  const offer = entities(product?.properties.offers)[0];
+  const check: ProductPageCheck = {
+    url,
+    addToCart: false,
+    links: findPolicyLinks($, url),
+    hasSpecs: false,
+    breadcrumbs: findBreadcrumbs($, url, structured),
+  };
+
+  // Price: schema, then microdata and meta tags, then a price element's text
+  const schemaPrice = strings(offer?.properties.price)[0] || strings(offer?.properties.lowPrice)[0];
+  const metaPrice = findMeta($, 'product:price:amount') || findMeta($, 'og:price:amount');
+  const itempropPrice = $('[itemprop="price"]').first().attr('content') || normaliseText($('[itemprop="price"]').first().text());
+  if (schemaPrice) {
+    check.price = schemaPrice;
+    check.currency = strings(offer?.properties.priceCurrency)[0];
+    check.priceSource = 'schema';
+  } else if (metaPrice) {
+    check.price = metaPrice;
+    check.currency = findMeta($, 'product:price:currency') || findMeta($, 'og:price:currency');
+    check.priceSource = 'meta';
+  } else if (itempropPrice) {
+    check.price = itempropPrice;
+    check.currency = $('[itemprop="priceCurrency"]').first().attr('content');
+    check.priceSource = 'microdata';
+  }
+  const priceText = $('[class*="price"]').toArray().map(el => normaliseText($(el).text())).find(text => PRICE_TEXT.test(text));
+  if (priceText) {
+    const match = PRICE_TEXT.exec(priceText)!;
+    check.visiblePrice = match[0];
+    check.currency ||= CURRENCY_SYMBOLS[(match[1] || match[2] || '').trim()] || (match[1] || '').trim() || undefined;
+    if (!check.price) {
+      check.price = match[0];
+      check.priceSource = 'text';
+    }
+  }
+
+  // Stock: schema availability, then visible stock wording
+  const schemaAvailability = strings(offer?.properties.availability)[0];
+  const stockText = $('[class*="stock"], [class*="availability"], [class*="inventory"]').toArray()
+    .map(el => normaliseText($(el).text())).find(text => AVAILABILITY_TEXT.test(text));
+  const bodyMatch = AVAILABILITY_TEXT.exec(normaliseText($('main').text() || $('body').text()));
+  if (schemaAvailability) {
+    check.availability = schemaAvailability.split('/').pop();
+    check.availabilitySource = 'schema';
+  }
+  const visibleAvailability = stockText ? AVAILABILITY_TEXT.exec(stockText)?.[0] : bodyMatch?.[0];
+  if (visibleAvailability) {
+    check.visibleAvailability = visibleAvailability;
+    if (!check.availability) {
+      check.availability = visibleAvailability;
+      check.availabilitySource = 'text';
+    }
+  }
+
+  check.addToCart = $('button, input[type="submit"], a').toArray().some(el => ADD_TO_CART.test(normaliseText($(el).text()) || $(el).attr('value') || '')) ||
+    $('form[action*="cart"], form[action*="basket"], [name="add-to-cart"], [name="add"]').length > 0;
+
+  const rating = entities(product?.properties.aggregateRating)[0];
+  const widget = findReviewWidget($);
+  if (rating || widget) {
+    check.reviews = {
+      rating: Number(strings(rating?.properties.ratingValue)[0]) || undefined,
+      count: Number(strings(rating?.properties.reviewCount)[0] || strings(rating?.properties.ratingCount)[0]) || undefined,
+      widget,
+    };
+  }
+
+  check.hasSpecs = $('table, dl').filter((_, el) => $(el).find('th, td, dt').length >= 2).length > 0 ||
+    $('h2, h3, h4, summary, button, [role="tab"]').toArray().some(el => /spec|feature|details|dimension|material|size guide/i.test($(el).text()));
+
+  return check;
+}
+
+// The nearest ancestor of a product link that holds one product: its card
+function findCard($: CheerioAPI, link: ElementNode, productUrl: string, pageUrl: string): ElementNode | undefined {
+  for (const el of $(link).parents(CARD_SELECTOR).toArray()) {
+    const products = new Set($(el).find('a[href]').toArray()
+      .map(a => resolveUrl($(a).attr('href') || '', pageUrl)?.split('#')[0])
+      .filter(href => href && classifyEcommerceUrl(href) === 'product'));
+    if (products.size > 1) return undefined;
+    if (products.has(productUrl)) return el;
+  }
+  return undefined;
+}
+
+async function checkFilterCanonical(url: string, collectionUrl: string): Promise<CollectionPageCheck['filterCanonical']> {
+  try {
+    const response = await fetchWithTimeout(url);
+    // An error or non-HTML response has no canonical to compare
+    if (!response.ok || !(response.headers.get('content-type') || '').includes('html')) {
+      await response.body?.cancel();
+      return { url, statusCode: response.status, toCollection: false, error: response.ok ? 'Not an HTML page' : `HTTP ${response.status}` };
+    }
+    const $ = parseHtml(await response.text());
+    const canonicalUrl = extractTechnical($, response.url || url).canonicalUrl;
+    const base = new URL(collectionUrl);
+    base.search = '';
+    return {
+      url,
+      statusCode: response.status,
+      canonicalUrl,
+      toCollection: !!canonicalUrl && canonicalUrl.replace(/\/$/, '') === base.href.replace(/\/$/, ''),
+    };
+  } catch (error) {
+    return { url, toCollection: false, error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+/**
+ * Product links and cards, their CTAs, carousels, faceted filters, pagination,
+ * breadcrumbs, reviews and FAQs on a collection page
+ */
+export async function analyzeCollectionPage($: CheerioAPI, url: string): Promise<CollectionPageCheck> {
+  const structured = analyzeStructuredData($, url).entities;
+  const links = extractLinks($, url);
+
+  const productLinks: { el: ElementNode; href: string }[] = [];
+  $('a[href]').each((_, el) => {
+    const href = resolveUrl($(el).attr('href') || '', url)?.split('#')[0];
+    if (href && classifyEcommerceUrl(href) === 'product') productLinks.push({ el, href });
+  });
+  const products = [...new Set(productLinks.map(link => link.href))];
+
+  const cards = new Map<string, ElementNode>();
+  for (const { el, href } of productLinks) {
+    if (cards.has(href)) continue;
+    const card = findCard($, el, href, url);
+    if (card) cards.set(href, card);
+  }
+  const cardsWithCta = [...cards.values()].filter(card =>
+    $(card).find('button, input[type="submit"], a').toArray().some(el => CTA_TEXT.test(normaliseText($(el).text()) || $(el).attr('value') || $(el).attr('aria-label') || ''))
+  ).length;
+
+  const carousel = $('[class], [id]').toArray().some(el => CAROUSEL_PATTERN.test(classAndId($, el)) && $(el).find('a[href]').toArray()
+    .some(a => classifyEcommerceUrl(resolveUrl($(a).attr('href') || '', url) || url) === 'product')) ||
+    $('[aria-roledescription="carousel"]').length > 0;
+
+  // Same-path links that only add facet parameters
+  const path = new URL(url).pathname.replace(/\/$/, '');
+  const facetUrls = links.map(link => new URL(link.url)).filter(link =>
+    link.pathname.replace(/\/$/, '') === path && [...link.searchParams.keys()].some(isFacetParam)
+  );
+  const filterParams = [...new Set(facetUrls.flatMap(link => [...link.searchParams.keys()].filter(isFacetParam)))];
+
+  const pageLinks = links.filter(link => {
+    const parsed = new URL(link.url);
+    return parsed.pathname.replace(/\/$/, '').startsWith(path) &&
+      ([...parsed.searchParams.keys()].some(key => PAGE_PARAM.test(key)) || /\/page\/\d+/.test(parsed.pathname));
+  });
+  const relNext = $('link[rel="next"], a[rel="next"]').attr('href');
+
+  const faqSchema = findEntities(structured, 'FAQPage').length > 0;
+
+  return {
+    url,
+    productLinks: products.length,
+    productCards: cards.size,
+    cardsWithCta,
+    carousel,
+    filterParams,
+    filterCanonical: facetUrls[0] ? await checkFilterCanonical(facetUrls[0].href, url) : undefined,
+    pagination: {
+      found: pageLinks.length > 0 || !!relNext || $('[class*="pagination"], nav[aria-label*="agination"]').length > 0,
+      relNext: relNext ? resolveUrl(relNext, url) : undefined,
+    },
+    breadcrumbs: findBreadcrumbs($, url, structured),
+    reviewsWidget: findReviewWidget($),
+    hasFaqs: faqSchema || $('h2, h3, h4, summary').toArray().some(el => /\bfaqs?\b|frequently asked/i.test($(el).text())),
+    faqSchema,
+  };
+}
+
+async function fetchPage(url: string): Promise<{ $?: CheerioAPI; finalUrl: string; statusCode?: number; error?: string }> {
+  try {
+    const response = await fetchWithTimeout(url);
+    if (!(response.headers.get('content-type') || '').includes('html')) {
+      await response.body?.cancel();
+      return { finalUrl: url, statusCode: response.status, error: 'Not an HTML page' };
+    }
+    const html = await response.text();
+    return {
+      $: response.ok ? parseHtml(html) : undefined,
+      finalUrl: response.url || url,
+      statusCode: response.status,
+      error: response.ok ? undefined : `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return { finalUrl: url, error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+/**
+ * Sample product and collection pages - the ones given, then ones found among
+ * the candidate URLs by their paths - and check each for the ecommerce checks
+ */
+export async function analyzeEcommerce(
+  pageUrl: string,
+  candidateUrls: string[],
+  given: { productUrls?: string[]; collectionUrls?: string[] } = {}
+): Promise<EcommerceAnalysis> {
+  const host = new URL(pageUrl).host;
+  const sameHost = [...new Set(candidateUrls)].filter(url => {
+    try {
+      return new URL(url).host === host;
+    } catch {
+      return false;
+    }
+  });
+  const pick = (kind: 'product' | 'collection', explicit: string[] = []) =>
+    [...new Set([...explicit, ...sameHost.filter(url => classifyEcommerceUrl(url) === kind)])].slice(0, MAX_SAMPLED);
+
+  const products = await mapWithConcurrency(pick('product', given.productUrls), SAMPLE_CONCURRENCY, async url => {
+    const page = await fetchPage(url);
+    if (!page.$) return { url, statusCode: page.statusCode, error: page.error, addToCart: false, links: {}, hasSpecs: false, breadcrumbs: { found: false, items: [], issues: [] } };
+    return { ...analyzeProductPage(page.$, page.finalUrl), statusCode: page.statusCode };
+  });
+
+  const collections = await mapWithConcurrency(pick('collection', given.collectionUrls), SAMPLE_CONCURRENCY, async url => {
+    const page = await fetchPage(url);
+    if (!page.$) {
+      return {
+        url, statusCode: page.statusCode, error: page.error, productLinks: 0, productCards: 0, cardsWithCta: 0, carousel: false,
+        filterParams: [], pagination: { found: false }, breadcrumbs: { found: false, items: [], issues: [] }, hasFaqs: false, faqSchema: false,
+      };
+    }
+    return { ...(await analyzeCollectionPage(page.$, page.finalUrl)), statusCode: page.statusCode };
+  });
+
+  return { products, collections };
+}
@@ -0,0 +1,205 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  classifySocialUrl,
+  extractHeadings,
+  extractInternalLinks,
+  extractMeta,
+  extractPages,
+  extractSocial,
+  extractTechnical,
+  parseHtml,
+  parseSrcset,
+} from './extract';
+
+const PAGE_URL = 'https://www.stride.example/running/shoes-for-flat-feet/';
+
+function fixture(name: string) {
+  return parseHtml(readFileSync(join(__dirname, '__fixtures__', name), 'utf8'));
+}
+
+describe('extractMeta', () => {
+  const meta = extractMeta(fixture('wordpress-post.html'), PAGE_URL);
+
+  it('collapses whitespace and decodes entities in the title', () => {
+    expect(meta.title).toBe('Running Shoes for Flat Feet | Stride & Co');
+    expect(meta.titleLength).toBe(meta.title!.length);
+  });
+
+  it('reads the description whatever the attribute order and name case', () => {
+    expect(meta.description).toBe('Our pick of the best running shoes for flat feet, tested over 500 miles.');
+  });
+
+  it('resolves a relative favicon', () => {
+    expect(meta.favicon).toBe('https://www.stride.example/wp-content/uploads/favicon-32.png');
+  });
+
+  it('reads og tags given with name= and keeps the first of a repeated property', () => {
+    expect(meta.ogTags?.title).toBe('Running Shoes for Flat Feet');
+    expect(meta.ogTags?.type).toBe('article');
+  });
+
+  it('resolves relative og:image and og:url', () => {
+    expect(meta.ogTags?.image).toBe('https://www.stride.example/running/uploads/hero.jpg');
+    expect(meta.ogTags?.url).toBe('https://www.stride.example/running/shoes-for-flat-feet/');
+  });
+
+  it('omits what the page does not declare', () => {
+    const empty = extractMeta(parseHtml('<p>No head at all</p>'), PAGE_URL);
+    expect(empty).toEqual({});
+  });
+
+  it('keeps an empty description so it can be reported as empty', () => {
+    const empty = extractMeta(parseHtml('<meta name="description" content="">'), PAGE_URL);
+    expect(empty.description).toBe('');
+    expect(empty.descriptionLength).toBe(0);
+  });
+});
+
+describe('extractHeadings', () => {
+  const headings = extractHeadings(fixture('wordpress-post.html'));
+  const outline = headings.outline || [];
+
+  it('reads an H1 with nested markup, ignoring comments and JSON-LD', () => {
+    expect(headings.h1Count).toBe(1);
+    expect(headings.h1Tags).toEqual(['Buying guide: Running shoes for flat feet']);
+  });
+
+  it('builds the outline and flags skipped, empty and hidden headings', () => {
+    expect(outline.map(heading => [heading.level, heading.text])).toEqual([
+      [1, 'Buying guide: Running shoes for flat feet'],
+      [3, 'Our top pick'],
+      [2, ''],
+      [2, 'Hidden subheading'],
+      [2, "Editor's choice"],
+    ]);
+    expect(outline[1].skipsLevel).toBe(true);
+    expect(outline[2].empty).toBe(true);
+    expect(outline[3].hidden).toBe(true);
+    expect(headings.issues).toEqual([
+      'H3 "Our top pick" skips a heading level',
+      'Empty H2',
+      'H2 "Hidden subheading" is hidden',
+    ]);
+  });
+
+  it('flags an H1 that repeats the title', () => {
+    const $ = parseHtml('<title>Home</title><h1> home </h1>');
+    expect(extractHeadings($).issues).toEqual(['H1 "home" duplicates the <title>']);
+  });
+
+  it('names image-only headings by their alt text and allows jumping back up levels', () => {
+    const $ = parseHtml('<h2><img src="/logo.png" alt="Stride"></h2><h3>Sizing</h3><h4>Width</h4><h2>Returns</h2><h4>Refunds</h4>');
+    const { outline, issues } = extractHeadings($);
+    expect(outline?.map(heading => heading.text)).toEqual(['Stride', 'Sizing', 'Width', 'Returns', 'Refunds']);
+    expect(issues).toEqual(['H4 "Refunds" skips a heading level']);
+  });
+
+  it('treats text hidden by an ancestor as hidden', () => {
+    const $ = parseHtml('<div aria-hidden="true"><h1>Logo text</h1></div>');
+    expect(extractHeadings($).outline?.[0].hidden).toBe(true);
+  });
+});
+
+describe('extractTechnical', () => {
+  it('resolves a relative canonical with rel and href in either order', () => {
+    const technical = extractTechnical(fixture('wordpress-post.html'), PAGE_URL);
+    expect(technical).toEqual({
+      hasCanonical: true,
+      canonicalUrl: 'https://www.stride.example/running/shoes-for-flat-feet/',
+      hasNoindex: false,
+    });
+  });
+
+  it('finds noindex in robots or googlebot meta, in any case and separator', () => {
+    expect(extractTechnical(parseHtml('<meta content="NOINDEX,nofollow" name="ROBOTS">'), PAGE_URL).hasNoindex).toBe(true);
+    expect(extractTechnical(parseHtml('<meta name="googlebot" content="noindex">'), PAGE_URL).hasNoindex).toBe(true);
+    expect(extractTechnical(parseHtml('<meta name="description" content="noindex">'), PAGE_URL).hasNoindex).toBe(false);
+  });
+
+  it('matches rel="canonical" among other rel tokens', () => {
+    const technical = extractTechnical(parseHtml('<link rel="Canonical nofollow" href="https://other.example/">'), PAGE_URL);
+    expect(technical.canonicalUrl).toBe('https://other.example/');
+  });
+});
+
+describe('links', () => {
+  const $ = fixture('wordpress-post.html');
+
+  it('lists same-host links without fragments', () => {
+    expect(extractInternalLinks($, PAGE_URL)).toEqual([
+      // The skip link, "#content"
+      PAGE_URL,
+      'https://www.stride.example/',
+      'https://www.stride.example/about-us/',
+      'https://www.stride.example/contact',
+      'https://www.stride.example/privacy-policy/',
+    ]);
+  });
+
+  it('finds key pages by path or link text', () => {
+    expect(extractPages($, PAGE_URL)).toEqual({ hasAbout: true, hasPrivacy: true, hasTerms: false, hasContact: true });
+  });
+});
+
+describe('parseSrcset', () => {
+  it('splits on commas whether or not whitespace follows', () => {
+    expect(parseSrcset('a.jpg 1x,b.jpg 2x')).toEqual(['a.jpg', 'b.jpg']);
+    expect(parseSrcset(' a.jpg 480w,\n  b.jpg 800w ')).toEqual(['a.jpg', 'b.jpg']);
+  });
+
+  it('keeps commas inside a URL and ends a candidate at a trailing comma', () => {
+    expect(parseSrcset('https://cdn.example/w_400,h_300/a.jpg 400w, b.jpg,c.jpg 2x')).toEqual([
+      'https://cdn.example/w_400,h_300/a.jpg',
+      'b.jpg,c.jpg',
+    ]);
+    expect(parseSrcset('a.jpg, b.jpg 2x')).toEqual(['a.jpg', 'b.jpg']);
+  });
+
+  it('skips commas inside descriptor parentheses', () => {
+    expect(parseSrcset('a.jpg (x, y) 1x, b.jpg 2x')).toEqual(['a.jpg', 'b.jpg']);
+  });
+});
+
+describe('classifySocialUrl', () => {
+  it('reads profile handles', () => {
+    expect(classifySocialUrl('https://x.com/@StrideAndCo')).toMatchObject({ platform: 'Twitter/X', handle: 'StrideAndCo', share: false });
+    expect(classifySocialUrl('https://www.linkedin.com/company/stride-and-co/')).toMatchObject({ platform: 'LinkedIn', handle: 'stride-and-co' });
+    expect(classifySocialUrl('https://www.youtube.com/@strideandco')).toMatchObject({ platform: 'YouTube', handle: 'strideandco' });
+    expect(classifySocialUrl('https://bsky.app/profile/stride.example')).toMatchObject({ platform: 'Bluesky', handle: 'stride.example' });
+  });
+
+  it('tells share links and posts apart from profiles', () => {
+    expect(classifySocialUrl('https://twitter.com/intent/tweet?url=x')).toMatchObject({ share: true, handle: undefined });
+    expect(classifySocialUrl('https://www.facebook.com/sharer/sharer.php?u=x')).toMatchObject({ share: true });
+    expect(classifySocialUrl('https://www.youtube.com/watch?v=abc')).toMatchObject({ content: true, handle: undefined });
+  });
+
+  it('has no handle for numeric profile and channel IDs', () => {
+    expect(classifySocialUrl('https://www.facebook.com/profile.php?id=100')?.handle).toBeUndefined();
+    expect(classifySocialUrl('https://www.youtube.com/channel/UC123')?.handle).toBeUndefined();
+  });
+
+  it('decodes percent-encoded handles and keeps malformed ones as written', () => {
+    expect(classifySocialUrl('https://www.tiktok.com/@caf%C3%A9')?.handle).toBe('café');
+    expect(classifySocialUrl('https://www.linkedin.com/company/acme%E0')?.handle).toBe('acme%E0');
+  });
+
+  it('ignores other hosts', () => {
+    expect(classifySocialUrl('https://notfacebook.com/acme')).toBeUndefined();
+  });
+});
+
+describe('extractSocial', () => {
+  it('separates profiles from share links and notes footer placement', () => {
+    const social = extractSocial(fixture('wordpress-post.html'), PAGE_URL, ['https://www.instagram.com/strideandco/']);
+    expect(social.links).toEqual([
+      { platform: 'Twitter/X', url: 'https://twitter.com/strideandco', handle: 'strideandco', inFooter: false },
+      { platform: 'Instagram', url: 'https://www.instagram.com/strideandco/', handle: 'strideandco', inFooter: true },
+    ]);
+    expect(social.hasTwitter).toBe(true);
+    expect(social.hasFacebook).toBe(false);
+    expect(social.sameAs).toEqual([{ platform: 'Instagram', url: 'https://www.instagram.com/strideandco/', handle: 'strideandco' }]);
+  });
+});
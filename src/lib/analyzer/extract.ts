@@ -0,0 +1,328 @@
+import { load, CheerioAPI } from 'cheerio';
+import { AnalysisResult, HeadingItem } from '@/types/analysis';
+
+/**
+ * A DOM element as cheerio's API takes it
+ */
+export type ElementNode = Parameters<CheerioAPI['contains']>[1];
+
+type SocialKey = Exclude<keyof AnalysisResult['social'], 'links' | 'shareLinks' | 'sameAs'>;
+
+// `handle` reads the username from a profile URL's path; `share` matches share/intent
+// links, which point at the platform rather than the brand's profile, and `content`
+// matches links to a single post or video
+const SOCIAL_PLATFORMS: { platform: string; hosts: string[]; key: SocialKey; handle: RegExp; share?: RegExp; content?: RegExp }[] = [
+  {
+    platform: 'Twitter/X', hosts: ['twitter.com', 'x.com'], key: 'hasTwitter',
+    handle: /^\/(?!intent\/|share\b|home\b|hashtag\/|search\b|i\/)@?([A-Za-z0-9_]{1,15})\/?$/, share: /^\/(intent\/|share\b)/,
+    content: /\/status\//,
+  },
+  {
+    platform: 'Facebook', hosts: ['facebook.com', 'fb.com'], key: 'hasFacebook',
+    handle: /^\/(?!sharer|share\b|dialog\/|plugins\/|groups\/|events\/|profile\.php)(?:pg\/)?([A-Za-z0-9.-]+)\/?$/, share: /^\/(sharer|share\b|dialog\/)/,
+    content: /\/(posts|photos|videos|reel)\/|^\/(watch|story\.php|permalink\.php)/,
+  },
+  {
+    platform: 'LinkedIn', hosts: ['linkedin.com'], key: 'hasLinkedIn',
+    handle: /^\/(?:company|in|school|showcase)\/([^/]+)\/?$/, share: /^\/(sharing\/|shareArticle|cws\/share)/,
+    content: /^\/(posts|feed|pulse|events)\//,
+  },
+  { platform: 'Instagram', hosts: ['instagram.com'], key: 'hasInstagram', handle: /^\/(?!p\/|reels?\/|explore\/|stories\/)([A-Za-z0-9_.]+)\/?$/, content: /^\/(p|reels?|stories)\// },
+  { platform: 'YouTube', hosts: ['youtube.com'], key: 'hasYouTube', handle: /^\/(?:@|c\/|user\/)([^/]+)\/?$/, content: /^\/(watch|shorts\/|embed\/|playlist|live\/)/ },
+  { platform: 'TikTok', hosts: ['tiktok.com'], key: 'hasTikTok', handle: /^\/@([^/]+)\/?$/, content: /\/video\// },
+  {
+    platform: 'Pinterest', hosts: ['pinterest.com', 'pinterest.co.uk'], key: 'hasPinterest',
+    handle: /^\/(?!pin\/)([A-Za-z0-9_]+)\/?$/, share: /^\/pin\/create/, content: /^\/pin\//,
+  },
+  { platform: 'Threads', hosts: ['threads.net', 'threads.com'], key: 'hasThreads', handle: /^\/@([^/]+)\/?$/, share: /^\/intent\//, content: /\/post\// },
+  { platform: 'Bluesky', hosts: ['bsky.app'], key: 'hasBluesky', handle: /^\/profile\/([^/]+)\/?$/, share: /^\/intent\//, content: /\/post\// },
+  { platform: 'Snapchat', hosts: ['snapchat.com'], key: 'hasSnapchat', handle: /^\/add\/([^/]+)\/?$/, share: /^\/(share|scan)\b/ },
+];
+
+// Open Graph properties holding a URL, resolved against the page like canonical and favicon
+const OG_URL_TAGS = ['url', 'image', 'image:url', 'image:secure_url', 'video', 'audio'];
+
+// Utility classes that hide content, either entirely or from everyone but screen readers
+const HIDDEN_CLASSES = ['sr-only', 'visually-hidden', 'visuallyhidden', 'screen-reader-text', 'hidden', 'd-none'];
+
+/**
+ * Parse an HTML document with a spec-compliant (WHATWG) parser
+ */
+export function parseHtml(html: string): CheerioAPI {
+  return load(html);
+}
+
+/**
+ * Collapse whitespace the way a browser renders text content
+ */
+export function normaliseText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Resolve a possibly-relative URL against the page URL
+ * Returns undefined for values that aren't valid URLs
+ */
+export function resolveUrl(href: string, pageUrl: string): string | undefined {
+  try {
+    return new URL(href.trim(), pageUrl).href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split a space-separated attribute (rel, content tokens) into lowercase tokens
+ */
+export function attrTokens(value: string | undefined): string[] {
+  return (value || '').toLowerCase().split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * The URLs in a srcset, parsed as browsers do: a URL runs to the next whitespace
+ * (trailing commas end the candidate), then descriptors run to the next comma
+ */
+export function parseSrcset(srcset: string): string[] {
+  const urls: string[] = [];
+  let rest = srcset;
+  for (;;) {
+    rest = rest.replace(/^[\s,]+/, '');
+    if (!rest) return urls;
+    const url = /^\S+/.exec(rest)![0];
+    rest = rest.slice(url.length);
+    urls.push(url.replace(/,+$/, ''));
+    // Commas inside parentheses belong to the descriptor, per the spec
+    if (!url.endsWith(',')) rest = rest.slice(/^[^,(]*(\([^)]*\)[^,(]*)*/.exec(rest)![0].length);
+  }
+}
+
+function findMetaContent($: CheerioAPI, name: string): string | undefined {
+  const match = $('meta[name]').filter((_, el) => ($(el).attr('name') || '').toLowerCase() === name).first();
+  return match.length ? match.attr('content') : undefined;
+}
+
+function findLinkHref($: CheerioAPI, rel: string): string | undefined {
+  const match = $('link[rel][href]').filter((_, el) => attrTokens($(el).attr('rel')).includes(rel)).first();
+  return match.length ? match.attr('href') : undefined;
+}
+
+export function extractMeta($: CheerioAPI, pageUrl: string): AnalysisResult['meta'] {
+  const meta: AnalysisResult['meta'] = {};
+
+  const titleElement = $('title').first();
+  if (titleElement.length) {
+    meta.title = normaliseText(titleElement.text());
+    meta.titleLength = meta.title.length;
+  }
+
+  const description = findMetaContent($, 'description');
+  if (description !== undefined) {
+    meta.description = normaliseText(description);
+    meta.descriptionLength = meta.description.length;
+  }
+
+  const favicon = findLinkHref($, 'icon');
+  if (favicon) {
+    meta.favicon = resolveUrl(favicon, pageUrl) || favicon;
+  }
+
+  // Open Graph is specified with `property`, but `name` is common in the wild
+  const ogTags: Record<string, string> = {};
+  $('meta[content]').each((_, el) => {
+    const key = ($(el).attr('property') || $(el).attr('name') || '').trim().toLowerCase();
+    if (key.startsWith('og:') && !(key.slice(3) in ogTags)) {
+      const content = ($(el).attr('content') || '').trim();
+      ogTags[key.slice(3)] = OG_URL_TAGS.includes(key.slice(3)) && content ? resolveUrl(content, pageUrl) || content : content;
+    }
+  });
+  if (Object.keys(ogTags).length > 0) {
+    meta.ogTags = ogTags;
+  }
+
+  return meta;
+}
+
+// Hidden from sighted users, though still in the HTML search engines read
+function isHidden($: CheerioAPI, el: ElementNode): boolean {
+  return $(el).add($(el).parents()).toArray().some(node => {
+    const element = $(node);
+    const style = (element.attr('style') || '').replace(/\s/g, '').toLowerCase();
+    return element.attr('hidden') !== undefined ||
+      element.attr('aria-hidden') === 'true' ||
+      style.includes('display:none') ||
+      style.includes('visibility:hidden') ||
+      HIDDEN_CLASSES.some(name => attrTokens(element.attr('class')).includes(name));
+  });
+}
+
+/**
+ * H1 text plus the full H1-H6 outline, flagging skipped levels, empty and hidden
+ * headings, and H1s that repeat the <title>
+ */
+export function extractHeadings($: CheerioAPI): AnalysisResult['headings'] {
+  const h1Tags = $('h1').map((_, el) => normaliseText($(el).text())).get();
+  const title = normaliseText($('title').first().text()).toLowerCase();
+  const issues: string[] = [];
+
+  let previousLevel = 0;
+  const outline: HeadingItem[] = $('h1, h2, h3, h4, h5, h6').toArray().map(el => {
+    const level = Number(String($(el).prop('tagName')).slice(1));
+    // Image-only headings are named by their alt text
+    const text = normaliseText($(el).text()) || normaliseText($(el).find('img[alt]').attr('alt') || '');
+    const heading: HeadingItem = {
+      level,
+      text,
+      empty: text === '',
+      hidden: isHidden($, el),
+      skipsLevel: previousLevel > 0 && level > previousLevel + 1,
+    };
+    previousLevel = level;
+    return heading;
+  });
+
+  for (const heading of outline) {
+    const label = `H${heading.level}${heading.text ? ` "${heading.text}"` : ''}`;
+    if (heading.empty) issues.push(`Empty H${heading.level}`);
+    if (heading.hidden) issues.push(`${label} is hidden`);
+    if (heading.skipsLevel) issues.push(`${label} skips a heading level`);
+    if (heading.level === 1 && title && heading.text.toLowerCase() === title) issues.push(`${label} duplicates the <title>`);
+  }
+
+  return { h1Count: h1Tags.length, h1Tags, outline, issues };
+}
+
+export function extractTechnical($: CheerioAPI, pageUrl: string): Omit<AnalysisResult['technical'], 'loadTimeMs'> {
+  const technical: Omit<AnalysisResult['technical'], 'loadTimeMs'> = {
+    hasCanonical: false,
+    hasNoindex: false,
+  };
+
+  const canonical = findLinkHref($, 'canonical');
+  if (canonical) {
+    technical.hasCanonical = true;
+    technical.canonicalUrl = resolveUrl(canonical, pageUrl) || canonical;
+  }
+
+  technical.hasNoindex = $('meta[name][content]').toArray().some(el => {
+    const name = ($(el).attr('name') || '').toLowerCase();
+    return (name === 'robots' || name === 'googlebot') && attrTokens($(el).attr('content')).includes('noindex');
+  });
+
+  return technical;
+}
+
+/**
+ * Every <a href> on the page, resolved to an absolute URL with its link text
+ */
+export function extractLinks($: CheerioAPI, pageUrl: string): { url: string; text: string }[] {
+  const links: { url: string; text: string }[] = [];
+  $('a[href]').each((_, el) => {
+    const url = resolveUrl($(el).attr('href') || '', pageUrl);
+    if (url) {
+      links.push({ url, text: normaliseText($(el).text()) });
+    }
+  });
+  return links;
+}
+
+/**
+ * Unique same-host page URLs linked from the page, without fragments
+ */
+export function extractInternalLinks($: CheerioAPI, pageUrl: string): string[] {
+  const host = new URL(pageUrl).host;
+  const urls = new Set<string>();
+  for (const link of extractLinks($, pageUrl)) {
+    const linkUrl = new URL(link.url);
+    if (linkUrl.host !== host || !linkUrl.protocol.startsWith('http')) continue;
+    linkUrl.hash = '';
+    urls.add(linkUrl.href);
+  }
+  return [...urls];
+}
+
+export function extractPages($: CheerioAPI, pageUrl: string): AnalysisResult['pages'] {
+  const links = extractLinks($, pageUrl);
+  const hasLink = (pathPattern: RegExp, textPattern: RegExp) =>
+    links.some(link => pathPattern.test(new URL(link.url).pathname) || textPattern.test(link.text));
+
+  return {
+    hasAbout: hasLink(/\/about/i, /\babout( us)?\b/i),
+    hasPrivacy: hasLink(/\/privacy/i, /\bprivacy( policy| notice)?\b/i),
+    hasTerms: hasLink(/\/terms/i, /\bterms (and|&) conditions\b|\bterms of (service|use)\b/i),
+    hasContact: hasLink(/\/contact/i, /\bcontact( us)?\b/i),
+  };
+}
+
+/**
+ * The platform a URL belongs to, and the profile handle or share intent it links to
+ */
+export function classifySocialUrl(url: string): { platform: string; key: SocialKey; handle?: string; share: boolean; content: boolean } | undefined {
+  const parsed = new URL(url);
+  const hostname = parsed.hostname.toLowerCase();
+  const match = SOCIAL_PLATFORMS.find(({ hosts }) =>
+    hosts.some(host => hostname === host || hostname.endsWith(`.${host}`))
+  );
+  if (!match) return undefined;
+  const share = !!match.share?.test(parsed.pathname) || /^sharer?\./.test(hostname);
+  const content = !share && !!match.content?.test(parsed.pathname);
+  // Channel IDs and numeric profile IDs aren't handles, so those profiles have none
+  const handle = share || content ? undefined : match.handle.exec(parsed.pathname)?.[1];
+  return { platform: match.platform, key: match.key, handle: handle ? decodeHandle(handle) : undefined, share, content };
+}
+
+// Handles are percent-encoded in the path; a malformed escape keeps the raw text
+function decodeHandle(handle: string): string {
+  try {
+    return decodeURIComponent(handle);
+  } catch {
+    return handle;
+  }
+}
+
+/**
+ * Social profile and share links on the page, with the handle each profile link
+ * names, plus the profiles the site's schema lists in `sameAs`
+ */
+export function extractSocial($: CheerioAPI, pageUrl: string, sameAs: string[] = []): AnalysisResult['social'] {
+  const social: AnalysisResult['social'] = {
+    links: [],
+    shareLinks: [],
+    sameAs: [],
+    hasTwitter: false,
+    hasFacebook: false,
+    hasLinkedIn: false,
+    hasInstagram: false,
+    hasYouTube: false,
+    hasTikTok: false,
+    hasPinterest: false,
+    hasThreads: false,
+    hasBluesky: false,
+    hasSnapchat: false,
+  };
+  const seen = new Set<string>();
+
+  $('a[href]').each((_, el) => {
+    const url = resolveUrl($(el).attr('href') || '', pageUrl);
+    if (!url || seen.has(url) || !/^https?:/.test(url)) return;
+    const match = classifySocialUrl(url);
+    // Posts and videos are neither the brand's profile nor a share button
+    if (!match || match.content) return;
+    seen.add(url);
+    if (match.share) {
+      social.shareLinks.push({ platform: match.platform, url });
+      return;
+    }
+    const inFooter = $(el).closest('footer, [role="contentinfo"]').length > 0;
+    social.links.push({ platform: match.platform, url, handle: match.handle, inFooter });
+    social[match.key] = true;
+  });
+
+  for (const url of new Set(sameAs)) {
+    const resolved = resolveUrl(url, pageUrl);
+    if (!resolved) continue;
+    const match = classifySocialUrl(resolved);
+    social.sameAs.push({ platform: match?.platform, url: resolved, handle: match?.handle });
+  }
+
+  return social;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency, normaliseInputUrl, readCapped, withDeadline } from './fetch';
+
+const wait = <T>(ms: number, value: T) => new Promise<T>(resolve => setTimeout(() => resolve(value), ms));
+
+describe('withDeadline', () => {
+  it('resolves with the task when it finishes in time', async () => {
+    await expect(withDeadline(Date.now() + 200, () => wait(10, 'done'))).resolves.toBe('done');
+  });
+
+  it('resolves undefined when the deadline passes first', async () => {
+    await expect(withDeadline(Date.now() + 20, () => wait(500, 'late'))).resolves.toBeUndefined();
+  });
+
+  it("doesn't start a task once the deadline has passed", async () => {
+    let started = false;
+    await withDeadline(Date.now() - 1, async () => {
+      started = true;
+    });
+    expect(started).toBe(false);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps order and limits calls in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms, index) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await wait(ms, null);
+      inFlight--;
+      return index;
+    });
+    expect(results).toEqual([0, 1, 2, 3]);
+    expect(maxInFlight).toBe(2);
+  });
+});
+
+describe('normaliseInputUrl', () => {
+  it('adds https:// when the scheme is left off', () => {
+    expect(normaliseInputUrl(' example.com/shop ')).toBe('https://example.com/shop');
+    expect(normaliseInputUrl('http://example.com')).toBe('http://example.com');
+  });
+});
+
+describe('readCapped', () => {
+  it('reads a body within the limit in full', async () => {
+    const { bytes, truncated } = await readCapped(new Response('hello'), 5);
+    expect(bytes.toString()).toBe('hello');
+    expect(truncated).toBe(false);
+  });
+
+  it('stops at the limit and flags the body as truncated', async () => {
+    const { bytes, truncated } = await readCapped(new Response('hello world'), 5);
+    expect(bytes.toString()).toBe('hello');
+    expect(truncated).toBe(true);
+  });
+});
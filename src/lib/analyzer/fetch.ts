@@ -0,0 +1,92 @@
+export const USER_AGENT = 'SEO-Audit-Tool/1.0';
+
+export async function fetchWithTimeout(url: string, timeout = 10000, init: RequestInit = {}): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      signal: controller.signal,
+      headers: {
+        'User-Agent': USER_AGENT,
+        ...init.headers,
+      },
+    });
+    clearTimeout(timeoutId);
+    return response;
+  } catch (error) {
+    clearTimeout(timeoutId);
+    throw error;
+  }
+}
+
+/**
+ * Read at most `limit` bytes of a response body, cancelling the rest of the download,
+ * whatever Content-Length says. `truncated` is set when the body went past the limit.
+ */
+export async function readCapped(response: Response, limit: number): Promise<{ bytes: Buffer; truncated: boolean }> {
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  const reader = response.body?.getReader();
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value.subarray(0, limit - received));
+    received += value.length;
+    if (received > limit) {
+      await reader.cancel();
+      return { bytes: Buffer.concat(chunks), truncated: true };
+    }
+  }
+  return { bytes: Buffer.concat(chunks), truncated: false };
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Run `task` unless `deadline` (a Date.now() timestamp) has passed, resolving
+ * undefined if it hasn't finished by then. Its requests carry on to their own timeouts.
+ */
+export async function withDeadline<T>(deadline: number, task: () => Promise<T>): Promise<T | undefined> {
+  const remaining = deadline - Date.now();
+  if (remaining <= 0) return undefined;
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<undefined>(resolve => {
+    timeoutId = setTimeout(() => resolve(undefined), remaining);
+  });
+  try {
+    return await Promise.race([task(), expired]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * The URL as entered, with https:// added when the scheme is left off
+ */
+export function normaliseInputUrl(input: string): string {
+  const url = input.trim();
+  return url.startsWith('http://') || url.startsWith('https://') ? url : `https://${url}`;
+}
@@ -0,0 +1,68 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { analyzeGeoRedirects } from './geoRedirects';
+
+const page = (lang: string, heading: string) => `<html lang="${lang}"><head><title>Stride</title></head><body><h1>${heading}</h1></body></html>`;
+
+describe('analyzeGeoRedirects', () => {
+  let server: Server;
+  let origin: string;
+  // How the homepage treats visitors' locale, set per test
+  let mode: 'country-redirect' | 'accept-language' | 'same-for-all';
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.url === '/de/') {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end(page('de', 'Laufschuhe'));
+      } else if (mode === 'country-redirect' && request.headers['cf-ipcountry'] === 'DE') {
+        response.writeHead(302, { Location: '/de/' });
+        response.end();
+      } else if (mode === 'accept-language' && String(request.headers['accept-language']).startsWith('fr')) {
+        response.writeHead(200, { 'Content-Type': 'text/html', 'Content-Language': 'fr', Vary: 'Accept-Language' });
+        response.end(page('fr', 'Chaussures de course'));
+      } else {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end(page('en', 'Running shoes'));
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('reports a redirect on the CDN country header', async () => {
+    mode = 'country-redirect';
+    const analysis = await analyzeGeoRedirects(`${origin}/`);
+
+    const german = analysis.variants.find(variant => variant.country === 'DE');
+    expect(german).toMatchObject({ finalUrl: `${origin}/de/`, finalStatus: 200, redirects: [`302 → ${origin}/de/`], lang: 'de' });
+    expect(analysis.variants.filter(variant => variant.finalUrl !== `${origin}/`)).toEqual([german]);
+    expect(analysis).toMatchObject({ stableContent: true, redirects: true, contentVaries: false });
+    expect(analysis.issues).toEqual([`de-DE (DE) is redirected to ${origin}/de/`]);
+  });
+
+  it('reports content that varies on Accept-Language at the same URL', async () => {
+    mode = 'accept-language';
+    const analysis = await analyzeGeoRedirects(`${origin}/`);
+
+    expect(analysis.variants.find(variant => variant.country === 'FR')).toMatchObject({
+      finalUrl: `${origin}/`,
+      lang: 'fr',
+      contentLanguage: 'fr',
+      vary: 'Accept-Language',
+    });
+    expect(analysis).toMatchObject({ stableContent: true, redirects: false, contentVaries: true });
+    expect(analysis.issues).toEqual(['fr-FR (FR) is served different content at the same URL (lang="fr")']);
+  });
+
+  it('passes a page served the same to every locale', async () => {
+    mode = 'same-for-all';
+    const analysis = await analyzeGeoRedirects(`${origin}/`);
+
+    expect(new Set(analysis.variants.map(variant => variant.contentHash))).toEqual(new Set([analysis.baseline.contentHash]));
+    expect(analysis).toMatchObject({ stableContent: true, redirects: false, contentVaries: false, issues: [] });
+  });
+});
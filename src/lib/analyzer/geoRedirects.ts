@@ -0,0 +1,103 @@
+import { createHash } from 'crypto';
+import { AnalysisResult, GeoVariant } from '@/types/analysis';
+import { fetchWithTimeout, mapWithConcurrency } from './fetch';
+import { parseHtml, normaliseText } from './extract';
+import { traceRedirects } from './redirects';
+
+type GeoRedirectAnalysis = NonNullable<AnalysisResult['geoRedirects']>;
+
+const GEO_CONCURRENCY = 3;
+
+// Each locale's language plus an address in that country's allocations, for
+// servers that geolocate X-Forwarded-For rather than trusting a CDN header
+const LOCALES: { label: string; acceptLanguage: string; country: string; ip: string }[] = [
+  { label: 'en-US', acceptLanguage: 'en-US,en;q=0.9', country: 'US', ip: '8.8.8.8' },
+  { label: 'en-GB', acceptLanguage: 'en-GB,en;q=0.9', country: 'GB', ip: '81.2.69.142' },
+  { label: 'de-DE', acceptLanguage: 'de-DE,de;q=0.9', country: 'DE', ip: '78.46.0.1' },
+  { label: 'fr-FR', acceptLanguage: 'fr-FR,fr;q=0.9', country: 'FR', ip: '2.15.0.1' },
+  { label: 'es-ES', acceptLanguage: 'es-ES,es;q=0.9', country: 'ES', ip: '83.44.0.1' },
+  { label: 'ja-JP', acceptLanguage: 'ja-JP,ja;q=0.9', country: 'JP', ip: '133.242.0.1' },
+  { label: 'pt-BR', acceptLanguage: 'pt-BR,pt;q=0.9', country: 'BR', ip: '200.160.2.3' },
+];
+
+// The country headers CDNs and hosts add, which origin code often reads directly
+function geoHeaders(locale: (typeof LOCALES)[number]): Record<string, string> {
+  return {
+    'Accept-Language': locale.acceptLanguage,
+    'CF-IPCountry': locale.country,
+    'CloudFront-Viewer-Country': locale.country,
+    'X-Vercel-IP-Country': locale.country,
+    'X-Forwarded-For': locale.ip,
+  };
+}
+
+// Follow the URL's redirects with the given headers, then fetch where it lands
+async function fetchVariant(label: string, url: string, headers: Record<string, string>, locale?: (typeof LOCALES)[number]): Promise<GeoVariant> {
+  const trace = await traceRedirects(url, label, headers);
+  const variant: GeoVariant = {
+    label,
+    acceptLanguage: locale?.acceptLanguage,
+    country: locale?.country,
+    finalUrl: trace.finalUrl,
+    finalStatus: trace.finalStatus,
+    redirects: trace.hops.map(hop => `${hop.statusCode} → ${hop.location}`),
+    error: trace.error,
+  };
+  if (!trace.finalUrl || trace.finalStatus !== 200) return variant;
+
+  try {
+    const response = await fetchWithTimeout(trace.finalUrl, 10000, { headers });
+    const $ = parseHtml(await response.text());
+    // Visible text only, so per-request script nonces and tokens don't change the hash
+    $('script, style, noscript, template').remove();
+    variant.lang = $('html').attr('lang') || undefined;
+    variant.title = normaliseText($('title').first().text()) || undefined;
+    variant.contentHash = createHash('sha256').update(normaliseText($('body').text())).digest('hex').slice(0, 12);
+    variant.contentLanguage = response.headers.get('content-language') || undefined;
+    variant.vary = response.headers.get('vary') || undefined;
+  } catch (error) {
+    variant.error = error instanceof Error ? error.message : 'Request failed';
+  }
+  return variant;
+}
+
+/**
+ * Request the audited URL as visitors from several locales - Accept-Language
+ * plus CDN country and X-Forwarded-For headers - and compare where each ends up
+ * and what it's served against a request with none of them
+ */
+export async function analyzeGeoRedirects(url: string): Promise<GeoRedirectAnalysis> {
+  // Two plain requests: if they differ, the page changes per request and hashes can't be compared
+  const [baseline, repeat] = await Promise.all([
+    fetchVariant('Default', url, {}),
+    fetchVariant('Default (repeat)', url, {}),
+  ]);
+  const variants = await mapWithConcurrency(LOCALES, GEO_CONCURRENCY, locale => fetchVariant(locale.label, url, geoHeaders(locale), locale));
+  const stableContent = !!baseline.contentHash && baseline.contentHash === repeat.contentHash;
+
+  const issues: string[] = [];
+  const redirected = variants.filter(variant => variant.finalUrl && baseline.finalUrl && variant.finalUrl !== baseline.finalUrl);
+  for (const variant of redirected) {
+    issues.push(`${variant.label} (${variant.country}) is redirected to ${variant.finalUrl}`);
+  }
+  const differentContent = variants.filter(variant =>
+    !redirected.includes(variant) && variant.contentHash && baseline.contentHash &&
+    ((stableContent && variant.contentHash !== baseline.contentHash) || (variant.lang && variant.lang !== baseline.lang))
+  );
+  for (const variant of differentContent) {
+    issues.push(`${variant.label} (${variant.country}) is served different content at the same URL${variant.lang !== baseline.lang ? ` (lang="${variant.lang}")` : ''}`);
+  }
+  if (!stableContent && baseline.contentHash) {
+    issues.push('The page changes between identical requests, so only redirects and lang are compared');
+  }
+
+  return {
+    baseline,
+    repeat,
+    variants,
+    stableContent,
+    redirects: redirected.length > 0,
+    contentVaries: differentContent.length > 0,
+    issues,
+  };
+}
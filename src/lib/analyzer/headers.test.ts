@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { isNoindexedByHeader, parseXRobotsTag } from './headers';
+
+describe('parseXRobotsTag', () => {
+  it('groups directives under the user agent that precedes them', () => {
+    expect(parseXRobotsTag('noindex, max-snippet: 50, googlebot: nofollow, noarchive')).toEqual([
+      { agent: '*', directives: ['noindex', 'max-snippet: 50'] },
+      { agent: 'googlebot', directives: ['nofollow', 'noarchive'] },
+    ]);
+  });
+
+  it('keeps an unavailable_after date whole, comma and all', () => {
+    expect(parseXRobotsTag('unavailable_after: Monday, 01 Jan 2030 15:00:00 GMT, noarchive')).toEqual([
+      { agent: '*', directives: ['unavailable_after: monday, 01 jan 2030 15:00:00 gmt', 'noarchive'] },
+    ]);
+    expect(parseXRobotsTag('googlebot: unavailable_after: 2030-01-01, nosnippet')).toEqual([
+      { agent: 'googlebot', directives: ['unavailable_after: 2030-01-01', 'nosnippet'] },
+    ]);
+  });
+
+  it('starts each header line afresh, so a user agent does not carry over', () => {
+    expect(parseXRobotsTag(['bingbot: nofollow', 'noindex', 'googlebot: noarchive'])).toEqual([
+      { agent: 'bingbot', directives: ['nofollow'] },
+      { agent: '*', directives: ['noindex'] },
+      { agent: 'googlebot', directives: ['noarchive'] },
+    ]);
+  });
+
+  it('returns nothing without a header', () => {
+    expect(parseXRobotsTag(null)).toEqual([]);
+  });
+});
+
+describe('isNoindexedByHeader', () => {
+  it('counts noindex or none for all crawlers or Googlebot', () => {
+    expect(isNoindexedByHeader('none')).toBe(true);
+    expect(isNoindexedByHeader('googlebot: noindex')).toBe(true);
+    expect(isNoindexedByHeader('bingbot: noindex')).toBe(false);
+    expect(isNoindexedByHeader('unavailable_after: Monday, 01 Jan 2030 15:00:00 GMT')).toBe(false);
+    expect(isNoindexedByHeader(['bingbot: nofollow', 'noindex'])).toBe(true);
+  });
+});
@@ -0,0 +1,203 @@
+import { AnalysisResult, XRobotsTagRule } from '@/types/analysis';
+import { resolveUrl, attrTokens } from './extract';
+
+type HeaderAudit = NonNullable<AnalysisResult['headers']>;
+
+// hstspreload.org requires at least a year
+const HSTS_PRELOAD_MIN_AGE = 31536000;
+
+// X-Robots-Tag directives that take a value after a colon, so aren't user-agent prefixes
+const VALUED_DIRECTIVES = ['unavailable_after', 'max-snippet', 'max-image-preview', 'max-video-preview'];
+
+export function parseHsts(value: string | null, isHttps: boolean): HeaderAudit['hsts'] {
+  const hsts: HeaderAudit['hsts'] = {
+    present: value !== null,
+    includeSubDomains: false,
+    preload: false,
+    preloadEligible: false,
+    issues: [],
+  };
+
+  if (!isHttps) {
+    hsts.issues.push('Page is not served over HTTPS, so HSTS cannot apply');
+  }
+  if (value === null) {
+    hsts.issues.push('No Strict-Transport-Security header');
+    return hsts;
+  }
+
+  hsts.value = value;
+  for (const directive of value.split(';').map(part => part.trim()).filter(Boolean)) {
+    const [name, directiveValue] = directive.split('=').map(part => part.trim());
+    switch (name.toLowerCase()) {
+      case 'max-age':
+        hsts.maxAge = Number(directiveValue?.replace(/"/g, ''));
+        break;
+      case 'includesubdomains':
+        hsts.includeSubDomains = true;
+        break;
+      case 'preload':
+        hsts.preload = true;
+        break;
+    }
+  }
+
+  if (hsts.maxAge === undefined || Number.isNaN(hsts.maxAge)) {
+    hsts.issues.push('max-age is missing or invalid');
+  } else if (hsts.maxAge === 0) {
+    hsts.issues.push('max-age=0 tells browsers to forget the HSTS policy');
+  } else if (hsts.maxAge < HSTS_PRELOAD_MIN_AGE) {
+    hsts.issues.push(`max-age is ${hsts.maxAge}s - at least ${HSTS_PRELOAD_MIN_AGE}s (1 year) is needed for preloading`);
+  }
+  if (!hsts.includeSubDomains) {
+    hsts.issues.push('includeSubDomains is missing');
+  }
+
+  hsts.preloadEligible = isHttps && hsts.preload && hsts.includeSubDomains && (hsts.maxAge ?? 0) >= HSTS_PRELOAD_MIN_AGE;
+  return hsts;
+}
+
+// Split on commas, except the one after the weekday in an unavailable_after date,
+// e.g. "unavailable_after: Monday, 01 Jan 2030 15:00:00 GMT"
+function splitDirectives(value: string): string[] {
+  const parts: string[] = [];
+  for (const part of value.split(',')) {
+    const previous = parts[parts.length - 1];
+    if (previous !== undefined && /unavailable_after\s*:\s*[a-z]+$/i.test(previous)) parts[parts.length - 1] = `${previous},${part}`;
+    else parts.push(part);
+  }
+  return parts.map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse X-Robots-Tag into directives per user agent ('*' when none is named)
+ * e.g. "googlebot: noindex, nofollow" or "noindex, max-snippet: 50"
+ * Pass repeated headers as separate lines: a user agent only carries over to the
+ * directives after it on the same line.
+ */
+export function parseXRobotsTag(value: string | string[] | null): XRobotsTagRule[] {
+  if (!value) return [];
+  const rules: XRobotsTagRule[] = [];
+  const ruleFor = (agent: string) => {
+    let rule = rules.find(item => item.agent === agent);
+    if (!rule) {
+      rule = { agent, directives: [] };
+      rules.push(rule);
+    }
+    return rule;
+  };
+
+  for (const line of Array.isArray(value) ? value : [value]) {
+    let current: XRobotsTagRule | null = null;
+
+    for (const part of splitDirectives(line)) {
+      const agentMatch = part.match(/^([a-z0-9_-]+)\s*:\s*(.*)$/i);
+      let directive = part;
+
+      if (agentMatch && !VALUED_DIRECTIVES.includes(agentMatch[1].toLowerCase())) {
+        current = ruleFor(agentMatch[1].toLowerCase());
+        directive = agentMatch[2];
+      } else if (!current) {
+        current = ruleFor('*');
+      }
+
+      if (directive) {
+        current.directives.push(directive.toLowerCase());
+      }
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Whether X-Robots-Tag blocks indexing for all crawlers or for Googlebot
+ */
+export function isNoindexedByHeader(value: string | string[] | null): boolean {
+  return parseXRobotsTag(value).some(
+    rule => (rule.agent === '*' || rule.agent === 'googlebot') &&
+      rule.directives.some(directive => directive === 'noindex' || directive === 'none')
+  );
+}
+
+function parseCacheControl(value: string): Record<string, string | true> {
+  const directives: Record<string, string | true> = {};
+  for (const part of splitDirectives(value)) {
+    const [name, directiveValue] = part.split('=');
+    directives[name.trim().toLowerCase()] = directiveValue !== undefined ? directiveValue.trim().replace(/"/g, '') : true;
+  }
+  return directives;
+}
+
+// Split a Link header into its URLs and lowercased parameters
+function parseLinkHeader(value: string | null): { href: string; params: Record<string, string> }[] {
+  if (!value) return [];
+  const links: { href: string; params: Record<string, string> }[] = [];
+  for (const link of value.split(/,(?=\s*<)/)) {
+    const match = link.match(/<([^>]*)>(.*)/);
+    if (!match) continue;
+    const params: Record<string, string> = {};
+    for (const param of match[2].matchAll(/;\s*([a-z*-]+)\s*=\s*(?:"([^"]*)"|([^;,\s]*))/gi)) {
+      params[param[1].toLowerCase()] = (param[2] ?? param[3]).trim();
+    }
+    links.push({ href: match[1], params });
+  }
+  return links;
+}
+
+/**
+ * Canonical URLs declared in a Link header, resolved against the page URL
+ * e.g. Link: <https://example.com/page>; rel="canonical"
+ */
+export function findLinkHeaderCanonicals(value: string | null, pageUrl: string): string[] {
+  return parseLinkHeader(value)
+    .filter(link => attrTokens(link.params.rel).includes('canonical'))
+    .map(link => resolveUrl(link.href, pageUrl) || link.href);
+}
+
+/**
+ * hreflang alternates declared in a Link header
+ * e.g. Link: <https://example.com/de/>; rel="alternate"; hreflang="de"
+ */
+export function findLinkHeaderAlternates(value: string | null, pageUrl: string): { hreflang: string; href: string }[] {
+  return parseLinkHeader(value)
+    .filter(link => attrTokens(link.params.rel).includes('alternate') && link.params.hreflang)
+    .map(link => ({ hreflang: link.params.hreflang, href: resolveUrl(link.href, pageUrl) || link.href }));
+}
+
+/**
+ * Evaluate the main document's security, indexing and caching headers
+ */
+export function analyzeHeaders(headers: Headers, statusCode: number, pageUrl: string): HeaderAudit {
+  const isHttps = pageUrl.startsWith('https://');
+  const raw: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    raw[name] = value;
+  });
+
+  const cacheControl = headers.get('cache-control');
+  const csp = headers.get('content-security-policy');
+  const cspReportOnly = headers.get('content-security-policy-report-only');
+  const contentTypeOptions = headers.get('x-content-type-options');
+  const xRobotsTag = headers.get('x-robots-tag');
+
+  return {
+    statusCode,
+    secure: isHttps,
+    raw,
+    hsts: parseHsts(headers.get('strict-transport-security'), isHttps),
+    xRobotsTag: parseXRobotsTag(xRobotsTag),
+    noindex: isNoindexedByHeader(xRobotsTag),
+    contentEncoding: headers.get('content-encoding') || undefined,
+    cacheControl: cacheControl ? { value: cacheControl, directives: parseCacheControl(cacheControl) } : undefined,
+    vary: headers.get('vary')?.split(',').map(item => item.trim()).filter(Boolean),
+    linkCanonical: findLinkHeaderCanonicals(headers.get('link'), pageUrl)[0],
+    contentSecurityPolicy: {
+      present: !!(csp || cspReportOnly),
+      reportOnly: !csp && !!cspReportOnly,
+      value: csp || cspReportOnly || undefined,
+    },
+    xContentTypeOptions: contentTypeOptions || undefined,
+    nosniff: contentTypeOptions?.trim().toLowerCase() === 'nosniff',
+  };
+}
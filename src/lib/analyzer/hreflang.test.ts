@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { findHreflangLinks, validateHreflangCode } from './hreflang';
+
+describe('validateHreflangCode', () => {
+  it('accepts languages, regions, scripts and x-default', () => {
+    for (const code of ['en', 'en-GB', 'EN-gb', 'zh-Hant-TW', 'zh-Hans', 'x-default', 'X-Default']) {
+      expect(validateHreflangCode(code), code).toBeNull();
+    }
+  });
+
+  it('explains what is wrong with an invalid code', () => {
+    expect(validateHreflangCode('en_GB')).toBe('Use a hyphen, not an underscore (en-GB)');
+    expect(validateHreflangCode('en-UK')).toBe('UK is not an ISO 3166-1 code - use GB');
+    expect(validateHreflangCode('eng')).toBe('"eng" is not an ISO 639-1 language code');
+    expect(validateHreflangCode('GB')).toBe('"GB" is not an ISO 639-1 language code');
+    expect(validateHreflangCode('en-XX')).toBe('"XX" is not an ISO 3166-1 alpha-2 region code');
+    expect(validateHreflangCode('en-GB-london')).toBe('Too many subtags - use language or language-region');
+  });
+});
+
+describe('findHreflangLinks', () => {
+  it('reads alternates from HTML and the Link header, resolved and without fragments', () => {
+    const $ = parseHtml(`
+      <link hreflang="de-DE" href="/de/#top" rel="alternate">
+      <link rel="alternate nofollow" hreflang=" fr " href="https://example.com/fr/">
+      <link rel="alternate" type="application/rss+xml" href="/feed">
+      <link rel="canonical" hreflang="en" href="/en/">`);
+    const linkHeader = '<https://example.com/es/>; rel="alternate"; hreflang="es"';
+    expect(findHreflangLinks($, 'https://example.com/en/', linkHeader)).toEqual([
+      { hreflang: 'de-DE', href: 'https://example.com/de/', source: 'html' },
+      { hreflang: 'fr', href: 'https://example.com/fr/', source: 'html' },
+      { hreflang: 'es', href: 'https://example.com/es/', source: 'link-header' },
+    ]);
+  });
+});
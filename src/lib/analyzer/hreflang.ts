@@ -0,0 +1,244 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult, HreflangAlternate, HreflangLink } from '@/types/analysis';
+import { fetchWithTimeout, mapWithConcurrency } from './fetch';
+import { parseHtml, extractTechnical, resolveUrl, attrTokens } from './extract';
+import { findLinkHeaderAlternates, isNoindexedByHeader } from './headers';
+import { findCanonicalDeclarations } from './canonical';
+
+type HreflangAnalysis = NonNullable<AnalysisResult['hreflang']>;
+
+const MAX_ALTERNATES_CHECKED = 30;
+const ALTERNATE_CONCURRENCY = 5;
+
+// ISO 639-1 language codes
+const LANGUAGES = new Set(
+  ('aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy da de dv dz ee el en eo es et eu ' +
+    'fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is it iu ja jv ka kg ki kj kk kl km kn ko ' +
+    'kr ks ku kv kw ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn no nr nv ny oc oj om or os pa pi ' +
+    'pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ss st su sv sw ta te tg th ti tk tl tn to tr ts tt tw ty ug uk ' +
+    'ur uz ve vi vo wa wo xh yi yo za zh zu').split(' ')
+);
+
+// ISO 3166-1 alpha-2 region codes
+const REGIONS = new Set(
+  ('AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ CA CC CD CF CG CH ' +
+    'CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN ' +
+    'GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI ' +
+    'LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM ' +
+    'PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD ' +
+    'TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW').split(' ')
+);
+
+interface FetchedAlternate {
+  statusCode?: number;
+  redirectsTo?: string;
+  canonicalUrl?: string;
+  noindex: boolean;
+  annotations: HreflangLink[];
+  error?: string;
+}
+
+function stripHash(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Check an hreflang value is "x-default" or an ISO 639-1 language, optionally
+ * followed by a script and an ISO 3166-1 alpha-2 region
+ * Returns why the value is invalid, or null when it's fine
+ */
+export function validateHreflangCode(value: string): string | null {
+  const code = value.trim();
+  if (code.toLowerCase() === 'x-default') return null;
+  if (code.includes('_')) return `Use a hyphen, not an underscore (${code.replace(/_/g, '-')})`;
+
+  const [language, ...rest] = code.split('-');
+  if (!LANGUAGES.has(language.toLowerCase())) {
+    return `"${language}" is not an ISO 639-1 language code`;
+  }
+
+  // zh-Hant-TW style: a four-letter script subtag before the region
+  const subtags = rest[0]?.length === 4 ? rest.slice(1) : rest;
+  if (subtags.length > 1) return 'Too many subtags - use language or language-region';
+  if (subtags.length === 0) return null;
+
+  const region = subtags[0].toUpperCase();
+  if (region === 'UK') return 'UK is not an ISO 3166-1 code - use GB';
+  if (!REGIONS.has(region)) return `"${subtags[0]}" is not an ISO 3166-1 alpha-2 region code`;
+  return null;
+}
+
+/**
+ * hreflang alternates a page declares in its HTML and Link header
+ */
+export function findHreflangLinks($: CheerioAPI, pageUrl: string, linkHeader: string | null): HreflangLink[] {
+  const links: HreflangLink[] = [];
+
+  $('link[rel][hreflang][href]').each((_, el) => {
+    if (!attrTokens($(el).attr('rel')).includes('alternate')) return;
+    const url = resolveUrl(($(el).attr('href') || '').trim(), pageUrl);
+    if (url) {
+      links.push({ hreflang: ($(el).attr('hreflang') || '').trim(), href: stripHash(url), source: 'html' });
+    }
+  });
+
+  for (const link of findLinkHeaderAlternates(linkHeader, pageUrl)) {
+    links.push({ hreflang: link.hreflang, href: stripHash(link.href), source: 'link-header' });
+  }
+
+  return links;
+}
+
+async function fetchAlternate(url: string, sitemapHreflang: Record<string, HreflangLink[]>): Promise<FetchedAlternate> {
+  const fetched: FetchedAlternate = { noindex: false, annotations: sitemapHreflang[url] || [] };
+
+  try {
+    const response = await fetchWithTimeout(url, 10000, { redirect: 'manual' });
+    fetched.statusCode = response.status;
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get('location');
+      fetched.redirectsTo = location ? new URL(location, url).href : undefined;
+      await response.body?.cancel();
+      return fetched;
+    }
+
+    const linkHeader = response.headers.get('link');
+    fetched.noindex = isNoindexedByHeader(response.headers.get('x-robots-tag'));
+    if (response.ok && (response.headers.get('content-type') || '').includes('html')) {
+      const $ = parseHtml(await response.text());
+      fetched.noindex = fetched.noindex || extractTechnical($, url).hasNoindex;
+      fetched.canonicalUrl = findCanonicalDeclarations($, url, linkHeader).find(declaration => declaration.source !== 'body')?.url;
+      fetched.annotations = [...findHreflangLinks($, url, linkHeader), ...fetched.annotations];
+    } else {
+      await response.body?.cancel();
+      fetched.annotations = [...findLinkHeaderAlternates(linkHeader, url).map(link => ({ ...link, source: 'link-header' as const })), ...fetched.annotations];
+    }
+  } catch (error) {
+    fetched.error = error instanceof Error ? error.message : 'Request failed';
+  }
+
+  return fetched;
+}
+
+/**
+ * Validate the audited page's hreflang cluster: language/region codes, x-default,
+ * and for each alternate its status, canonical, self-reference and return tag
+ * Returns undefined when the page has no hreflang annotations anywhere
+ */
+export async function analyzeHreflang(
+  $: CheerioAPI,
+  pageUrl: string,
+  linkHeader: string | null,
+  sitemapHreflang: Record<string, HreflangLink[]>
+): Promise<HreflangAnalysis | undefined> {
+  const pageKey = stripHash(pageUrl);
+  const annotations = [...findHreflangLinks($, pageUrl, linkHeader), ...(sitemapHreflang[pageKey] || [])];
+  if (annotations.length === 0) return undefined;
+
+  const issues: string[] = [];
+  const invalidCodes: HreflangAnalysis['invalidCodes'] = [];
+  for (const hreflang of new Set(annotations.map(link => link.hreflang))) {
+    const reason = validateHreflangCode(hreflang);
+    if (reason) invalidCodes.push({ hreflang, reason });
+  }
+  for (const { hreflang, reason } of invalidCodes) {
+    issues.push(`Invalid hreflang "${hreflang}": ${reason}`);
+  }
+
+  // One URL per locale; the same locale pointing at different URLs is ambiguous
+  const byLocale = new Map<string, string>();
+  for (const link of annotations) {
+    const locale = link.hreflang.toLowerCase();
+    const existing = byLocale.get(locale);
+    if (existing && existing !== link.href) {
+      issues.push(`hreflang "${link.hreflang}" points to both ${existing} and ${link.href}`);
+    } else if (!existing) {
+      byLocale.set(locale, link.href);
+    }
+  }
+
+  const hasXDefault = byLocale.has('x-default');
+  const selfReferencing = [...byLocale.values()].includes(pageKey);
+  if (!hasXDefault) issues.push('No x-default alternate');
+  if (!selfReferencing) issues.push('The page does not include itself in its hreflang annotations');
+
+  const localeEntries = [...byLocale.entries()];
+  const checked = localeEntries.slice(0, MAX_ALTERNATES_CHECKED);
+  if (localeEntries.length > checked.length) {
+    issues.push(`Only the first ${MAX_ALTERNATES_CHECKED} of ${localeEntries.length} alternates were fetched`);
+  }
+
+  // The audited page's own response is already in hand
+  const fetched = await mapWithConcurrency(checked, ALTERNATE_CONCURRENCY, async ([, url]) =>
+    url === pageKey ? null : fetchAlternate(url, sitemapHreflang)
+  );
+
+  const annotationsByUrl = new Map<string, HreflangLink[]>();
+  const alternates: HreflangAlternate[] = checked.map(([locale, url], index) => {
+    const hreflang = annotations.find(link => link.hreflang.toLowerCase() === locale)?.hreflang || locale;
+    const result = fetched[index];
+
+    if (!result) {
+      annotationsByUrl.set(url, annotations);
+      return { hreflang, url, statusCode: 200, noindex: false, selfReferencing, returnTag: true, issues: [] };
+    }
+
+    annotationsByUrl.set(url, result.annotations);
+    const targets = new Set(result.annotations.map(link => link.href));
+    const alternate: HreflangAlternate = {
+      hreflang,
+      url,
+      statusCode: result.statusCode,
+      redirectsTo: result.redirectsTo,
+      canonicalUrl: result.canonicalUrl,
+      noindex: result.noindex,
+      selfReferencing: targets.has(url),
+      returnTag: targets.has(pageKey),
+      error: result.error,
+      issues: [],
+    };
+
+    if (result.error) {
+      alternate.issues.push(`Could not be fetched: ${result.error}`);
+    } else if (result.redirectsTo) {
+      alternate.issues.push(`Redirects (${result.statusCode}) to ${result.redirectsTo}`);
+    } else if (result.statusCode !== 200) {
+      alternate.issues.push(`Returns HTTP ${result.statusCode}`);
+    } else {
+      if (result.noindex) alternate.issues.push('Noindexed');
+      if (result.canonicalUrl && result.canonicalUrl !== url) alternate.issues.push(`Canonical points elsewhere: ${result.canonicalUrl}`);
+      if (!alternate.returnTag) alternate.issues.push('No return tag to the audited page');
+      if (!alternate.selfReferencing) alternate.issues.push('Does not reference itself');
+    }
+    return alternate;
+  });
+
+  for (const alternate of alternates) {
+    for (const issue of alternate.issues) {
+      issues.push(`${alternate.hreflang} (${alternate.url}): ${issue}`);
+    }
+  }
+
+  const locales = alternates.map(alternate => alternate.hreflang);
+  const links = alternates.map(from => {
+    const targets = new Set((annotationsByUrl.get(from.url) || []).map(link => link.href));
+    return alternates.map(to => targets.has(to.url));
+  });
+
+  return {
+    annotations,
+    invalidCodes,
+    hasXDefault,
+    selfReferencing,
+    alternates,
+    matrix: { locales, links },
+    issues,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { findCopyright, findPlaceholders } from './hygiene';
+
+const matches = (html: string) => findPlaceholders(parseHtml(html)).map(match => [match.kind, match.match, match.location]);
+
+describe('findPlaceholders', () => {
+  it('finds lorem ipsum, TODOs, template tokens and CMS sample copy with where they are', () => {
+    expect(matches(`<title>Lorem ipsum | Shop</title><body>
+      <p class="intro">Bacon ipsum dolor amet</p>
+      <p>Shipping TODO confirm rates</p>
+      <h2>Hi {{ customer.first_name }}</h2>
+      <div id="promo"><span>Your content goes here</span></div>
+    </body>`)).toEqual([
+      ['lorem-ipsum', 'Lorem ipsum', 'head > title'],
+      ['lorem-ipsum', 'Bacon ipsum', 'body > p.intro:nth-of-type(1)'],
+      ['todo', 'TODO', 'body > p:nth-of-type(2)'],
+      ['template-token', '{{ customer.first_name }}', 'body > h2'],
+      ['cms-default', 'Your content goes here', 'div#promo > span'],
+    ]);
+  });
+
+  it("doesn't treat clothing sizes or lowercase todo as placeholders", () => {
+    expect(matches('<body><p>Now in XXX-Large and XXL.</p><p>Our todo list app</p></body>')).toEqual([]);
+  });
+
+  it('matches WordPress default titles only as a whole title or heading', () => {
+    expect(matches('<title>Sample Page</title><body><h1>Hello world!</h1></body>')).toEqual([
+      ['cms-default', 'Sample Page', 'head > title'],
+      ['cms-default', 'Hello world!', 'body > h1'],
+    ]);
+    expect(matches(`<title>Request a sample page layout</title><body>
+      <h2>Say hello world! to our new range</h2><p>Hello world!</p>
+    </body>`)).toEqual([]);
+  });
+
+  it('skips code samples and scripts', () => {
+    expect(matches('<body><pre>// TODO</pre><code>{{ name }}</code><script>// FIXME</script></body>')).toEqual([]);
+  });
+});
+
+describe('findCopyright', () => {
+  it('prefers the footer notice and reads its latest year', () => {
+    const $ = parseHtml(`<body><p>Copyright law explained, 1998</p>
+      <footer class="site-footer"><p>© <span>2019-2024</span> Stride Ltd</p></footer></body>`);
+    expect(findCopyright($)).toEqual({
+      text: '© 2019-2024 Stride Ltd',
+      year: 2024,
+      location: 'body > footer.site-footer > p',
+      inFooter: true,
+      dynamic: false,
+    });
+  });
+
+  it('notices a year written by a script', () => {
+    const $ = parseHtml('<footer><p>&copy; <script>document.write(new Date().getFullYear())</script> Stride</p></footer>');
+    expect(findCopyright($)).toMatchObject({ year: undefined, dynamic: true });
+  });
+
+  it('returns nothing without a notice', () => {
+    expect(findCopyright(parseHtml('<footer><p>Stride Ltd</p></footer>'))).toBeUndefined();
+  });
+});
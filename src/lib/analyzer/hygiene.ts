@@ -0,0 +1,161 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult, PlaceholderMatch } from '@/types/analysis';
+import { normaliseText, attrTokens, ElementNode } from './extract';
+
+type HygieneAnalysis = NonNullable<AnalysisResult['hygiene']>;
+// Characters either side of a match to show in its snippet
+const SNIPPET_CONTEXT = 40;
+const MAX_MATCHES = 50;
+
+const PLACEHOLDER_PATTERNS: { kind: PlaceholderMatch['kind']; pattern: RegExp }[] = [
+  // Classic lorem ipsum and the themed generators (bacon ipsum, hipster ipsum...)
+  { kind: 'lorem-ipsum', pattern: /\b(lorem|\w+) ipsum\b|\bdolor sit amet\b|\bconsectetur adipiscing\b|\bsed do eiusmod\b/i },
+  // Uppercase only, so the words in ordinary sentences don't match; XXX is left out
+  // as it's also a clothing size (XXX-Large)
+  { kind: 'todo', pattern: /\b(TODO|TBD|FIXME)\b/ },
+  { kind: 'coming-soon', pattern: /\bcoming soon\b|\bunder construction\b/i },
+  { kind: 'template-token', pattern: /\{\{\s*[\w.$|\s]+\}\}|\{%[^%]*%\}|\[\s*(insert|your|add|enter|placeholder)\b[^\]]*\]|%%\w+%%|\$\{\w+\}|<%=?/i },
+];
+
+// Theme and CMS sample content left in place
+const CMS_DEFAULTS = [
+  'just another wordpress site',
+  'welcome to wordpress',
+  'this is your first post',
+  'this is an example page',
+  'your content goes here',
+  'click here to edit',
+  'click to edit',
+  'add your text here',
+  'edit this text',
+  'your company name',
+  'your tagline here',
+  'example product title',
+  'this is a sample blog post',
+  'insert text here',
+];
+
+// WordPress's default post and page titles, too common in ordinary copy to match
+// anywhere but as a whole title or heading
+const CMS_DEFAULT_TITLES = ['hello world!', 'sample page'];
+
+const FOOTER_SELECTOR = 'footer, [role="contentinfo"], #footer, .footer, .site-footer';
+const COPYRIGHT_PATTERN = /©|&copy;|\(c\)|\bcopyright\b/i;
+const YEAR_PATTERN = /\b(19|20)\d{2}\b/g;
+
+/**
+ * A readable CSS-style path to an element, stopping at the nearest id
+ */
+export function domPath($: CheerioAPI, el: ElementNode): string {
+  const parts: string[] = [];
+  for (const node of $(el).add($(el).parents()).toArray().reverse()) {
+    const element = $(node);
+    const tag = String(element.prop('tagName')).toLowerCase();
+    if (tag === 'html') break;
+    const id = element.attr('id');
+    if (id) {
+      parts.unshift(`${tag}#${id}`);
+      break;
+    }
+    const className = attrTokens(element.attr('class'))[0];
+    // Position among same-tag siblings, so repeated <p>s can be told apart
+    const sameTag = element.parent().children(tag);
+    const position = sameTag.length > 1 ? `:nth-of-type(${sameTag.index(node) + 1})` : '';
+    parts.unshift(`${className ? `${tag}.${className}` : tag}${position}`);
+  }
+  return parts.join(' > ');
+}
+
+function ownText($: CheerioAPI, el: ElementNode): string {
+  return normaliseText($(el).contents().toArray().filter(node => node.type === 'text').map(node => $(node).text()).join(' '));
+}
+
+function visibleText($: CheerioAPI, el: ElementNode): string {
+  const clone = $(el).clone();
+  clone.find('script, style').remove();
+  return normaliseText(clone.text());
+}
+
+function snippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+}
+
+function matchPlaceholder(text: string, isTitle = false): Omit<PlaceholderMatch, 'location'> | null {
+  if (isTitle && CMS_DEFAULT_TITLES.includes(text.toLowerCase())) {
+    return { kind: 'cms-default', match: text, snippet: text };
+  }
+  for (const { kind, pattern } of PLACEHOLDER_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) return { kind, match: match[0], snippet: snippet(text, match.index, match[0].length) };
+  }
+  const lower = text.toLowerCase();
+  const cmsDefault = CMS_DEFAULTS.find(value => lower.includes(value));
+  if (cmsDefault) {
+    const index = lower.indexOf(cmsDefault);
+    return { kind: 'cms-default', match: text.slice(index, index + cmsDefault.length), snippet: snippet(text, index, cmsDefault.length) };
+  }
+  return null;
+}
+
+/**
+ * Lorem ipsum, TODOs, "coming soon", unrendered template tokens and CMS sample
+ * content in the page's title and visible text, with where each was found
+ */
+export function findPlaceholders($: CheerioAPI): PlaceholderMatch[] {
+  const matches: PlaceholderMatch[] = [];
+
+  const title = normaliseText($('title').first().text());
+  const titleMatch = title ? matchPlaceholder(title, true) : null;
+  if (titleMatch) matches.push({ ...titleMatch, location: 'head > title' });
+
+  // One match per element, checking the text each element holds directly
+  $('body, body *').not('script, style, noscript, template, svg, code, pre, textarea').each((_, el) => {
+    if (matches.length >= MAX_MATCHES) return false;
+    const text = ownText($, el);
+    const match = text ? matchPlaceholder(text, $(el).is('h1, h2, h3, h4, h5, h6')) : null;
+    if (match) matches.push({ ...match, location: domPath($, el) });
+  });
+
+  return matches;
+}
+
+/**
+ * The copyright notice, preferring the footer, with the latest year it names
+ */
+export function findCopyright($: CheerioAPI): HygieneAnalysis['copyright'] {
+  // Elements whose own text has the © mark, so the notice isn't the whole footer
+  const candidates = (scope: string) => $(scope).find('*').addBack()
+    .not('script, style, noscript, template')
+    .filter((_, el) => COPYRIGHT_PATTERN.test(ownText($, el)))
+    .toArray();
+
+  const inFooter = candidates(FOOTER_SELECTOR);
+  let el = inFooter[0] || candidates('body')[0];
+  if (!el) return undefined;
+  // "© <span>2024</span> Acme" keeps the year in a child; "<span>©</span> 2024" in the parent
+  if (!visibleText($, el).match(YEAR_PATTERN) && $(el).parent().length) el = $(el).parent()[0];
+
+  const text = visibleText($, el);
+  const years = (text.match(YEAR_PATTERN) || []).map(Number);
+  return {
+    text: text.slice(0, 200),
+    year: years.length ? Math.max(...years) : undefined,
+    location: domPath($, el),
+    inFooter: inFooter.length > 0,
+    // e.g. <script>document.write(new Date().getFullYear())</script>, always current once run
+    dynamic: $(el).find('script').add($(el).siblings('script')).toArray().some(script => /getFullYear|getYear/.test($(script).html() || '')),
+  };
+}
+
+/**
+ * Placeholder copy and the copyright notice, for the on-page hygiene checks
+ */
+export function analyzeHygiene($: CheerioAPI): HygieneAnalysis {
+  return {
+    placeholders: findPlaceholders($),
+    copyright: findCopyright($),
+    currentYear: new Date().getFullYear(),
+  };
+}
@@ -0,0 +1,132 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { analyzeImages, fileNameIssue, findImages, readImageInfo } from './images';
+
+const PAGE_URL = 'https://shop.example/shoes/';
+
+// Build header bytes from strings (ASCII) and byte arrays
+const bytes = (...parts: (string | number[])[]) =>
+  new Uint8Array(parts.flatMap(part => (typeof part === 'string' ? [...part].map(char => char.charCodeAt(0)) : part)));
+const uint32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+const uint16 = (value: number) => [value >> 8, value & 0xff];
+
+// 640x480 in each format
+const PNG_HEADER = bytes([0x89], 'PNG', [0x0d, 0x0a, 0x1a, 0x0a], uint32(13), 'IHDR', uint32(640), uint32(480), [8, 6, 0, 0, 0]);
+const JPEG_HEADER = bytes(
+  [0xff, 0xd8],
+  // An APP0 segment to walk past before the start-of-frame
+  [0xff, 0xe0], uint16(16), 'JFIF', new Array(10).fill(0),
+  [0xff, 0xc0], uint16(17), [8], uint16(480), uint16(640), [3], new Array(9).fill(0)
+);
+const WEBP_HEADER = bytes('RIFF', [0, 0, 0, 0], 'WEBP', 'VP8X', [10, 0, 0, 0], [0, 0, 0, 0], [639 & 0xff, 639 >> 8, 0], [479 & 0xff, 479 >> 8, 0]);
+const AVIF_HEADER = bytes(uint32(24), 'ftyp', 'avif', uint32(0), 'mif1', 'miaf', uint32(20), 'ispe', uint32(0), uint32(640), uint32(480));
+
+describe('readImageInfo', () => {
+  it('reads the format and dimensions from PNG, JPEG, WebP and AVIF headers', () => {
+    for (const [format, header] of [['png', PNG_HEADER], ['jpeg', JPEG_HEADER], ['webp', WEBP_HEADER], ['avif', AVIF_HEADER]] as const) {
+      expect(readImageInfo(header), format).toEqual({ format, width: 640, height: 480 });
+    }
+  });
+
+  it('recognises SVG without dimensions and nothing from unknown bytes', () => {
+    expect(readImageInfo(bytes('<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg">'))).toEqual({ format: 'svg' });
+    expect(readImageInfo(bytes('not an image'))).toEqual({});
+  });
+});
+
+describe('fileNameIssue', () => {
+  it('flags camera defaults and hashed names, ignoring size suffixes', () => {
+    expect(fileNameIssue('https://cdn.example/IMG_1234.jpg')).toBe('Non-descriptive file name "IMG_1234"');
+    expect(fileNameIssue('https://cdn.example/uploads/image-3-300x200.png')).toBe('Non-descriptive file name "image-3"');
+    expect(fileNameIssue('https://cdn.example/hero.3f9a2b7c1d4e5f60.webp')).toBe('Hashed file name "hero.3f9a2b7c1d4e5f60"');
+  });
+
+  it('accepts descriptive names', () => {
+    expect(fileNameIssue('https://cdn.example/red-running-shoes@2x.jpg')).toBeNull();
+  });
+});
+
+describe('findImages', () => {
+  it('lists img, picture and CSS background images with their alt text issues', () => {
+    const $ = parseHtml(`<body>
+      <img src="/IMG_0001.jpg">
+      <img src="/spacer.gif" alt="">
+      <img src="/red-shoes.jpg" alt="red-shoes">
+      <div class="product-card"><img src="/a.jpg" alt="Shoe" width="300"></div>
+      <div class="swiper"><img data-src="/b.jpg" src="data:image/gif;base64,R0lGOD" alt="Shoe"></div>
+      <picture><source type="image/avif" srcset="/hero.avif 1x"><img src="/hero.jpg" alt="Runner on a track"></picture>
+      <section style="background-image: url('/banner.png')"></section>
+    </body>`);
+    const images = findImages($, PAGE_URL);
+
+    expect(images.map(image => [image.source, image.url])).toEqual([
+      ['img', 'https://shop.example/IMG_0001.jpg'],
+      ['img', 'https://shop.example/spacer.gif'],
+      ['img', 'https://shop.example/red-shoes.jpg'],
+      ['img', 'https://shop.example/a.jpg'],
+      ['img', 'https://shop.example/b.jpg'],
+      ['img', 'https://shop.example/hero.jpg'],
+      ['picture', 'https://shop.example/hero.avif'],
+      ['css', 'https://shop.example/banner.png'],
+    ]);
+    expect(images.map(image => image.issues.map(issue => issue.message))).toEqual([
+      ['Missing alt attribute', 'Non-descriptive file name "IMG_0001"'],
+      ['Empty alt text'],
+      ['Alt text is a file name: "red-shoes"'],
+      ['Alt text "Shoe" is shared with other images'],
+      ['Alt text "Shoe" is shared with other images'],
+      [],
+      [],
+      [],
+    ]);
+    expect(images[3]).toMatchObject({ context: 'product', declared: { width: 300 } });
+    expect(images[4]).toMatchObject({ context: 'carousel', lazy: true });
+    expect(images[5].hasModernSource).toBe(true);
+  });
+});
+
+describe('analyzeImages', () => {
+  let server: Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.url === '/running-shoe.png') {
+        // Far more than the header, with its length declared up front
+        response.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': String(PNG_HEADER.length + 300 * 1024) });
+        response.write(PNG_HEADER);
+        response.end(Buffer.alloc(300 * 1024));
+        return;
+      }
+      // Streamed without a Content-Length and never ending on its own
+      response.writeHead(200, { 'Content-Type': 'image/jpeg' });
+      response.write(JPEG_HEADER);
+      const chunk = Buffer.alloc(1024 * 1024);
+      const timer = setInterval(() => response.write(chunk), 1);
+      response.on('close', () => clearInterval(timer));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    return new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('takes the size from Content-Length and stops reading an endless image at the cap', async () => {
+    const $ = parseHtml(`<img src="${origin}/running-shoe.png" alt="Red trainer on a track" width="320"><img src="${origin}/stream.jpg" alt="Stream">`);
+    const { items, totalBytes } = await analyzeImages($, `${origin}/`);
+
+    expect(items[0]).toMatchObject({ statusCode: 200, bytes: PNG_HEADER.length + 300 * 1024, format: 'png', intrinsic: { width: 640, height: 480 } });
+    expect(items[0].issues.map(issue => issue.message)).toEqual([
+      '300KB - over 200KB',
+      'Served as PNG with no WebP/AVIF alternative',
+      '640px wide but displayed at 320px',
+    ]);
+    expect(items[1]).toMatchObject({ statusCode: 200, bytes: 5 * 1024 * 1024, format: 'jpeg', intrinsic: { width: 640, height: 480 } });
+    expect(totalBytes).toBe(items[0].bytes! + items[1].bytes!);
+  });
+});
@@ -0,0 +1,302 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult, CrawledPage, ImageItem } from '@/types/analysis';
+import { fetchWithTimeout, mapWithConcurrency, readCapped } from './fetch';
+import { resolveUrl, normaliseText, parseSrcset, ElementNode } from './extract';
+
+type ImageAnalysis = NonNullable<AnalysisResult['images']>;
+
+const MAX_IMAGES_FETCHED = 40;
+const IMAGE_CONCURRENCY = 4;
+// Without a Content-Length, stop counting an image's size here
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+// Enough for the dimensions even behind a large EXIF block in a JPEG
+const IMAGE_HEADER_BYTES = 128 * 1024;
+const LARGE_IMAGE_BYTES = 200 * 1024;
+// Intrinsic width this many times the declared width is wasted bytes
+const OVERSIZE_RATIO = 2;
+
+const MODERN_FORMATS = ['webp', 'avif', 'svg'];
+
+// Camera, phone and CMS defaults, e.g. IMG_1234, DSC01234, PXL_20230101, image-3, 12345
+const NON_DESCRIPTIVE_NAME = /^(img|image|dsc[fn]?|dcim|photo|pic|picture|screenshot|screen[-_ ]?shot|untitled|pxl|gopr|mvimg|wp|placeholder|default|unnamed|download)([-_ ]?\d+)*$|^[\d-_ ]+$/i;
+// Hex digests, UUIDs and CDN content hashes
+const HASHED_NAME = /(^|[-_.])([a-f0-9]{12,}|[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12})($|[-_.])/i;
+
+const CAROUSEL_PATTERN = /carousel|slider|swiper|slick|splide|glide|flickity|owl-/i;
+const PRODUCT_PATTERN = /product/i;
+
+// The file name without its extension, CMS size suffix or retina marker
+function baseName(url: string): string {
+  try {
+    const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+    return name.replace(/\.[a-z0-9]+$/i, '').replace(/([-_]\d+x\d+|@\dx)$/i, '');
+  } catch {
+    return '';
+  }
+}
+
+export function fileNameIssue(url: string): string | null {
+  const name = baseName(url);
+  if (!name) return null;
+  if (NON_DESCRIPTIVE_NAME.test(name)) return `Non-descriptive file name "${name}"`;
+  if (HASHED_NAME.test(name)) return `Hashed file name "${name}"`;
+  return null;
+}
+
+// Alt text that is just the file name, e.g. alt="IMG_1234.jpg" or alt="red-shoes"
+function isFileNameAlt(alt: string, url: string): boolean {
+  const simplify = (text: string) => text.toLowerCase().replace(/[-_.+]+/g, ' ').trim();
+  return /\.(jpe?g|png|gif|webp|avif|svg)$/i.test(alt.trim()) ||
+    NON_DESCRIPTIVE_NAME.test(alt.trim()) ||
+    (!!baseName(url) && simplify(alt) === simplify(baseName(url)));
+}
+
+function firstSrcsetUrl(srcset: string | undefined): string | undefined {
+  return parseSrcset(srcset || '')[0];
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  const parsed = parseInt(value || '', 10);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Read the format and pixel dimensions from an image's header bytes
+ * Supports PNG, GIF, JPEG, WebP and AVIF; SVG is reported without dimensions
+ */
+export function readImageInfo(bytes: Uint8Array): { format?: string; width?: number; height?: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (start: number, length: number) => String.fromCharCode(...bytes.subarray(start, start + length));
+
+  if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(1, 3) === 'PNG') {
+    return { format: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+  }
+  if (bytes.length >= 10 && ascii(0, 4) === 'GIF8') {
+    return { format: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    // Walk the segments to the start-of-frame marker, which holds the dimensions
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) break;
+      const marker = bytes[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { format: 'jpeg', width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+    return { format: 'jpeg' };
+  }
+  if (bytes.length >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+    const chunk = ascii(12, 4);
+    if (chunk === 'VP8 ') return { format: 'webp', width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    if (chunk === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      return { format: 'webp', width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+      const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+      return { format: 'webp', width, height };
+    }
+    return { format: 'webp' };
+  }
+  if (bytes.length >= 12 && ascii(4, 4) === 'ftyp' && /avi[fs]/.test(ascii(8, 4))) {
+    // The image spatial extents property box carries the dimensions
+    for (let offset = 12; offset + 16 <= bytes.length; offset++) {
+      if (ascii(offset, 4) === 'ispe') {
+        return { format: 'avif', width: view.getUint32(offset + 8), height: view.getUint32(offset + 12) };
+      }
+    }
+    return { format: 'avif' };
+  }
+  if (/<svg[\s>]/i.test(ascii(0, Math.min(bytes.length, 512)))) {
+    return { format: 'svg' };
+  }
+  return {};
+}
+
+function findContext($: CheerioAPI, el: ElementNode): ImageItem['context'] {
+  const ancestors = $(el).parents().toArray();
+  const matches = (pattern: RegExp) =>
+    ancestors.some(ancestor => pattern.test(`${$(ancestor).attr('class') || ''} ${$(ancestor).attr('id') || ''}`));
+  if (matches(CAROUSEL_PATTERN) || $(el).parents('[aria-roledescription="carousel"]').length) return 'carousel';
+  if (matches(PRODUCT_PATTERN) || $(el).parents('[itemtype$="Product"]').length) return 'product';
+  return undefined;
+}
+
+/**
+ * Inventory <img> elements, <picture> sources and inline CSS background images,
+ * with alt text and file name issues - everything that doesn't need a request
+ */
+export function findImages($: CheerioAPI, pageUrl: string): ImageItem[] {
+  const items: ImageItem[] = [];
+  const add = (href: string | undefined, item: Omit<ImageItem, 'url' | 'fileName' | 'issues'>) => {
+    const url = href && !href.startsWith('data:') ? resolveUrl(href, pageUrl) : undefined;
+    if (!url) return;
+    items.push({ url, fileName: baseName(url), issues: [], ...item });
+  };
+
+  $('img').each((_, el) => {
+    const img = $(el);
+    // Lazy-loading libraries keep the real URL in a data attribute until scrolled into view
+    const lazySrc = img.attr('data-src') || img.attr('data-lazy-src') || firstSrcsetUrl(img.attr('data-srcset'));
+    const src = img.attr('src') && !img.attr('src')!.startsWith('data:') ? img.attr('src') : lazySrc || firstSrcsetUrl(img.attr('srcset'));
+    const picture = img.parent('picture');
+    const modernTypes = picture.find('source[type]').toArray().map(source => ($(source).attr('type') || '').toLowerCase());
+
+    add(src, {
+      source: 'img',
+      alt: img.attr('alt') !== undefined ? normaliseText(img.attr('alt')!) : undefined,
+      context: findContext($, el),
+      hasModernSource: modernTypes.some(type => type.includes('webp') || type.includes('avif')),
+      declared: img.attr('width') || img.attr('height')
+        ? { width: toNumber(img.attr('width')), height: toNumber(img.attr('height')) }
+        : undefined,
+      lazy: (img.attr('loading') || '').toLowerCase() === 'lazy' || !!lazySrc || /\blazy/i.test(img.attr('class') || ''),
+    });
+  });
+
+  $('picture source[srcset]').each((_, el) => {
+    add(firstSrcsetUrl($(el).attr('srcset')), { source: 'picture', context: findContext($, el), lazy: false });
+  });
+
+  const cssSources = [
+    ...$('[style]').toArray().map(el => $(el).attr('style') || ''),
+    ...$('style').toArray().map(el => $(el).text()),
+  ];
+  for (const css of cssSources) {
+    for (const match of css.matchAll(/background(?:-image)?\s*:[^;}]*?url\(\s*['"]?([^'")]+)['"]?\s*\)/gi)) {
+      add(match[1], { source: 'css', lazy: false });
+    }
+  }
+
+  // Alt text issues only apply to <img>; alt="" is valid for decorative images but still worth flagging
+  const altCounts = new Map<string, Set<string>>();
+  for (const item of items) {
+    if (item.source === 'img' && item.alt) {
+      altCounts.set(item.alt.toLowerCase(), (altCounts.get(item.alt.toLowerCase()) || new Set()).add(item.url));
+    }
+  }
+  for (const item of items) {
+    if (item.source === 'img') {
+      if (item.alt === undefined) item.issues.push({ kind: 'alt', message: 'Missing alt attribute' });
+      else if (item.alt === '') item.issues.push({ kind: 'alt', message: 'Empty alt text' });
+      else if (isFileNameAlt(item.alt, item.url)) item.issues.push({ kind: 'alt', message: `Alt text is a file name: "${item.alt}"` });
+      else if ((altCounts.get(item.alt.toLowerCase())?.size || 0) > 1) item.issues.push({ kind: 'alt', message: `Alt text "${item.alt}" is shared with other images` });
+    }
+    const nameIssue = fileNameIssue(item.url);
+    if (nameIssue) item.issues.push({ kind: 'file-name', message: nameIssue });
+  }
+
+  return items;
+}
+
+type FetchedImage = Pick<ImageItem, 'statusCode' | 'bytes' | 'format' | 'intrinsic' | 'error'>;
+
+async function fetchImage(url: string): Promise<FetchedImage> {
+  try {
+    const response = await fetchWithTimeout(url, 10000);
+    const contentType = response.headers.get('content-type')?.split('/')[1]?.split(/[;+]/)[0];
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { statusCode: response.status };
+    }
+
+    // With a Content-Length only the header bytes are needed, for the format and dimensions
+    const declaredLength = Number(response.headers.get('content-length')) || undefined;
+    const { bytes, truncated } = await readCapped(response, declaredLength ? IMAGE_HEADER_BYTES : MAX_IMAGE_BYTES);
+    const info = readImageInfo(bytes);
+    return {
+      statusCode: response.status,
+      bytes: declaredLength ?? (truncated ? MAX_IMAGE_BYTES : bytes.length),
+      format: info.format || contentType,
+      intrinsic: info.width && info.height ? { width: info.width, height: info.height } : undefined,
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+// Record what the request found, and the issues it raises for this element
+function applyFetched(item: ImageItem, fetched: FetchedImage): void {
+  Object.assign(item, fetched);
+  if (fetched.error) return;
+  if (fetched.statusCode !== 200) {
+    item.issues.push({ kind: 'status', message: `Returns HTTP ${fetched.statusCode}` });
+    return;
+  }
+  if (item.bytes && item.bytes > LARGE_IMAGE_BYTES) {
+    item.issues.push({ kind: 'optimisation', message: `${Math.round(item.bytes / 1024)}KB - over ${LARGE_IMAGE_BYTES / 1024}KB` });
+  }
+  if (item.format && !MODERN_FORMATS.includes(item.format) && !item.hasModernSource) {
+    item.issues.push({ kind: 'optimisation', message: `Served as ${item.format.toUpperCase()} with no WebP/AVIF alternative` });
+  }
+  if (item.intrinsic && item.declared?.width && item.intrinsic.width >= item.declared.width * OVERSIZE_RATIO) {
+    item.issues.push({ kind: 'optimisation', message: `${item.intrinsic.width}px wide but displayed at ${item.declared.width}px` });
+  }
+}
+
+/**
+ * Image inventory for the audited page: alt text and file name coverage, plus
+ * size, format and dimensions for a sample of images fetched
+ */
+export async function analyzeImages($: CheerioAPI, pageUrl: string): Promise<ImageAnalysis> {
+  const items = findImages($, pageUrl);
+
+  // Fetch each distinct URL once, favouring those used by <img> elements
+  const urls = [...new Set([...items].sort((a, b) => Number(b.source === 'img') - Number(a.source === 'img')).map(item => item.url))];
+  const fetched = new Map<string, FetchedImage>();
+  await mapWithConcurrency(urls.slice(0, MAX_IMAGES_FETCHED), IMAGE_CONCURRENCY, async url => {
+    fetched.set(url, await fetchImage(url));
+  });
+  for (const item of items) {
+    const result = fetched.get(item.url);
+    if (result) applyFetched(item, result);
+  }
+
+  const imgs = items.filter(item => item.source === 'img');
+  const percent = (count: number, total: number) => (total === 0 ? 100 : Math.round((count / total) * 100));
+  const altPresent = imgs.filter(item => !!item.alt).length;
+  const descriptiveFileNames = items.filter(item => !fileNameIssue(item.url)).length;
+
+  return {
+    imgCount: imgs.length,
+    altPresent,
+    altEmpty: imgs.filter(item => item.alt === '').length,
+    altMissing: imgs.filter(item => item.alt === undefined).length,
+    altCoverage: percent(altPresent, imgs.length),
+    descriptiveFileNames,
+    fileNameCoverage: percent(descriptiveFileNames, items.length),
+    lazyLoaded: imgs.filter(item => item.lazy).length,
+    fetched: items.filter(item => item.bytes !== undefined).length,
+    totalBytes: [...fetched.values()].reduce((total, image) => total + (image.bytes || 0), 0),
+    items,
+  };
+}
+
+/**
+ * Count <img> elements and how many carry alt text, for the crawl
+ */
+export function countImageAlt($: CheerioAPI): NonNullable<CrawledPage['imageAlt']> {
+  const imgs = $('img').toArray();
+  return {
+    total: imgs.length,
+    present: imgs.filter(el => normaliseText($(el).attr('alt') || '') !== '').length,
+  };
+}
+
+/**
+ * Alt text coverage across crawled pages
+ */
+export function summariseImageAlt(pages: CrawledPage[]): NonNullable<ImageAnalysis['sitewide']> {
+  const checked = pages.filter(page => page.imageAlt);
+  const imgCount = checked.reduce((total, page) => total + page.imageAlt!.total, 0);
+  const altPresent = checked.reduce((total, page) => total + page.imageAlt!.present, 0);
+  return {
+    pagesChecked: checked.length,
+    imgCount,
+    altPresent,
+    altCoverage: imgCount === 0 ? 100 : Math.round((altPresent / imgCount) * 100),
+  };
+}
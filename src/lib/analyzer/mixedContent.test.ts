@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { findMixedContent } from './mixedContent';
+
+const PAGE_URL = 'https://shop.example/';
+
+describe('findMixedContent', () => {
+  it('finds every http:// candidate in a srcset', () => {
+    const $ = parseHtml('<img src="/a.jpg" srcset="http://cdn.example/a.jpg 1x,http://cdn.example/b.jpg 2x">');
+    expect(findMixedContent($, PAGE_URL)).toEqual([
+      { url: 'http://cdn.example/a.jpg', element: '<img srcset>', category: 'passive' },
+      { url: 'http://cdn.example/b.jpg', element: '<img srcset>', category: 'passive' },
+    ]);
+  });
+
+  it('ignores prefetch hints and treats image preloads as passive', () => {
+    const $ = parseHtml(`<head>
+      <link rel="prefetch" href="http://shop.example/next-page">
+      <link rel="preload" as="image" href="http://cdn.example/hero.jpg">
+      <link rel="preload" as="script" href="http://cdn.example/app.js">
+    </head>`);
+    expect(findMixedContent($, PAGE_URL)).toEqual([
+      { url: 'http://cdn.example/hero.jpg', element: '<link rel=preload>', category: 'passive' },
+      { url: 'http://cdn.example/app.js', element: '<link rel=preload>', category: 'active' },
+    ]);
+  });
+
+  it("doesn't apply to pages served over HTTP", () => {
+    expect(findMixedContent(parseHtml('<img src="http://cdn.example/a.jpg">'), 'http://shop.example/')).toBeNull();
+  });
+});
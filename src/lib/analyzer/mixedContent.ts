@@ -0,0 +1,137 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult, MixedContentItem } from '@/types/analysis';
+import { resolveUrl, attrTokens, parseSrcset } from './extract';
+
+// Elements whose plain-HTTP requests browsers block outright (scripts, styles, frames)
+// vs. those they load or auto-upgrade with a warning (images, audio, video)
+const ELEMENT_SOURCES: { selector: string; attr: string; element: string; category: MixedContentItem['category'] }[] = [
+  { selector: 'script[src]', attr: 'src', element: '<script src>', category: 'active' },
+  { selector: 'iframe[src]', attr: 'src', element: '<iframe src>', category: 'active' },
+  { selector: 'frame[src]', attr: 'src', element: '<frame src>', category: 'active' },
+  { selector: 'object[data]', attr: 'data', element: '<object data>', category: 'active' },
+  { selector: 'embed[src]', attr: 'src', element: '<embed src>', category: 'active' },
+  { selector: 'track[src]', attr: 'src', element: '<track src>', category: 'active' },
+  // Submitting a form over HTTP exposes whatever the user typed
+  { selector: 'form[action]', attr: 'action', element: '<form action>', category: 'active' },
+  { selector: 'button[formaction]', attr: 'formaction', element: '<button formaction>', category: 'active' },
+  { selector: 'img[src]', attr: 'src', element: '<img src>', category: 'passive' },
+  { selector: 'input[type="image" i][src]', attr: 'src', element: '<input type=image src>', category: 'passive' },
+  { selector: 'video[src]', attr: 'src', element: '<video src>', category: 'passive' },
+  { selector: 'video[poster]', attr: 'poster', element: '<video poster>', category: 'passive' },
+  { selector: 'audio[src]', attr: 'src', element: '<audio src>', category: 'passive' },
+  { selector: 'video source[src], audio source[src]', attr: 'src', element: '<source src>', category: 'passive' },
+];
+
+// Images referenced through srcset
+const SRCSET_SOURCES = [
+  { selector: 'img[srcset]', element: '<img srcset>' },
+  { selector: 'picture source[srcset]', element: '<source srcset>' },
+];
+
+// <link> rel values that fetch something for this page, and how they're treated;
+// prefetch hints are for later navigations, so they aren't counted
+const LINK_RELS: Record<string, MixedContentItem['category']> = {
+  stylesheet: 'active',
+  preload: 'active',
+  modulepreload: 'active',
+  icon: 'passive',
+  'apple-touch-icon': 'passive',
+};
+
+// Preload `as` values that are treated like the passive elements they stand in for
+const PASSIVE_PRELOADS = ['image', 'audio', 'video'];
+
+function isInsecure(url: string | undefined): url is string {
+  return !!url && url.startsWith('http://');
+}
+
+function findCssUrls(css: string): { url: string; category: MixedContentItem['category'] }[] {
+  const found: { url: string; category: MixedContentItem['category'] }[] = [];
+
+  // Stylesheets and fonts are blockable; everything else in CSS is an image
+  for (const match of css.matchAll(/@import\s+(?:url\(\s*)?['"]?([^'")\s;]+)/gi)) {
+    found.push({ url: match[1], category: 'active' });
+  }
+  const fontFaces = css.match(/@font-face\s*{[^}]*}/gi) || [];
+  for (const block of fontFaces) {
+    for (const match of block.matchAll(/url\(\s*['"]?([^'")]+)['"]?\s*\)/gi)) {
+      found.push({ url: match[1], category: 'active' });
+    }
+  }
+
+  const rest = fontFaces.reduce((text, block) => text.replace(block, ''), css).replace(/@import[^;]*;/gi, '');
+  for (const match of rest.matchAll(/url\(\s*['"]?([^'")]+)['"]?\s*\)/gi)) {
+    found.push({ url: match[1], category: 'passive' });
+  }
+
+  return found;
+}
+
+/**
+ * List the http:// subresources an HTTPS page references
+ * Returns null for pages that aren't served over HTTPS, where mixed content doesn't apply
+ */
+export function findMixedContent($: CheerioAPI, pageUrl: string): MixedContentItem[] | null {
+  if (!pageUrl.startsWith('https://')) return null;
+
+  const items = new Map<string, MixedContentItem>();
+  const add = (href: string | undefined, element: string, category: MixedContentItem['category']) => {
+    const url = href ? resolveUrl(href, pageUrl) : undefined;
+    if (isInsecure(url) && !items.has(`${element} ${url}`)) {
+      items.set(`${element} ${url}`, { url, element, category });
+    }
+  };
+
+  for (const source of ELEMENT_SOURCES) {
+    $(source.selector).each((_, el) => add($(el).attr(source.attr), source.element, source.category));
+  }
+
+  for (const source of SRCSET_SOURCES) {
+    $(source.selector).each((_, el) => {
+      for (const candidate of parseSrcset($(el).attr('srcset') || '')) {
+        add(candidate, source.element, 'passive');
+      }
+    });
+  }
+
+  $('link[rel][href]').each((_, el) => {
+    for (const rel of attrTokens($(el).attr('rel'))) {
+      if (rel === 'preload' && PASSIVE_PRELOADS.includes(($(el).attr('as') || '').toLowerCase())) {
+        add($(el).attr('href'), `<link rel=${rel}>`, 'passive');
+      } else if (LINK_RELS[rel]) {
+        add($(el).attr('href'), `<link rel=${rel}>`, LINK_RELS[rel]);
+      }
+    }
+  });
+
+  $('[style]').each((_, el) => {
+    for (const { url, category } of findCssUrls($(el).attr('style') || '')) {
+      add(url, 'style attribute url()', category);
+    }
+  });
+  $('style').each((_, el) => {
+    for (const { url, category } of findCssUrls($(el).text())) {
+      add(url, '<style> url()', category);
+    }
+  });
+
+  return [...items.values()];
+}
+
+/**
+ * Combine per-page findings into one report, skipping pages that weren't scanned
+ */
+export function summariseMixedContent(
+  pages: { url: string; items: MixedContentItem[] | null | undefined }[]
+): NonNullable<AnalysisResult['mixedContent']> {
+  const scanned = pages.filter((page): page is { url: string; items: MixedContentItem[] } => !!page.items);
+  const resources = scanned.flatMap(page => page.items.map(item => ({ ...item, pageUrl: page.url })));
+
+  return {
+    pagesScanned: scanned.length,
+    pagesAffected: scanned.filter(page => page.items.length > 0).length,
+    activeCount: resources.filter(item => item.category === 'active').length,
+    passiveCount: resources.filter(item => item.category === 'passive').length,
+    resources,
+  };
+}
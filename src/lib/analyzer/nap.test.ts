@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { addressMismatches, countryCode, extractNap, normaliseBusinessName, normalisePhone, parseAddress } from './nap';
+
+describe('countryCode', () => {
+  it('maps names and codes to ISO 3166', () => {
+    expect(countryCode('United Kingdom')).toBe('GB');
+    expect(countryCode('UK')).toBe('GB');
+    expect(countryCode('us')).toBe('US');
+    expect(countryCode('Deutschland.')).toBe('DE');
+    expect(countryCode('Atlantis')).toBeUndefined();
+    expect(countryCode('')).toBeUndefined();
+  });
+});
+
+describe('normalisePhone', () => {
+  it('writes numbers in E.164', () => {
+    expect(normalisePhone('020 7946 0000', 'GB')).toBe('+442079460000');
+    expect(normalisePhone('+44 (0)20 7946 0000')).toBe('+442079460000');
+    expect(normalisePhone('0044 20 7946 0000')).toBe('+442079460000');
+    expect(normalisePhone('tel:+1-415-555-0100')).toBe('+14155550100');
+    expect(normalisePhone('(415) 555-0100', 'US')).toBe('+14155550100');
+    expect(normalisePhone('1 415 555 0100', 'us')).toBe('+14155550100');
+    expect(normalisePhone('442079460000', 'GB')).toBe('+442079460000');
+  });
+
+  it('drops extensions', () => {
+    expect(normalisePhone('020 7946 0000 ext. 12', 'GB')).toBe('+442079460000');
+  });
+
+  it('gives up without a country code or known country, or when too short', () => {
+    expect(normalisePhone('020 7946 0000')).toBeUndefined();
+    expect(normalisePhone('020 7946 0000', 'ZZ')).toBeUndefined();
+    expect(normalisePhone('12345', 'GB')).toBeUndefined();
+  });
+});
+
+describe('parseAddress', () => {
+  it('splits a UK address', () => {
+    expect(parseAddress('Unit 4, 12 High St, Bristol, bs1 4dj, United Kingdom')).toEqual({
+      street: 'Unit 4',
+      locality: 'Bristol',
+      postalCode: 'BS1 4DJ',
+      country: 'GB',
+    });
+  });
+
+  it('splits a US address with state and ZIP', () => {
+    expect(parseAddress('500 Market Street\nSan Francisco, CA 94103-1234\nUSA')).toEqual({
+      street: '500 Market Street',
+      locality: 'San Francisco',
+      region: 'CA',
+      postalCode: '94103-1234',
+      country: 'US',
+    });
+  });
+
+  it('reads the town beside a numeric postcode', () => {
+    expect(parseAddress('Friedrichstraße 43 | 10117 Berlin | Germany')).toEqual({
+      street: 'Friedrichstraße 43',
+      locality: 'Berlin',
+      postalCode: '10117',
+      country: 'DE',
+    });
+  });
+});
+
+describe('normaliseBusinessName', () => {
+  it('ignores case, punctuation and company suffixes', () => {
+    expect(normaliseBusinessName('Stride & Co. Ltd')).toBe('stride');
+    expect(normaliseBusinessName('STRIDE LIMITED')).toBe('stride');
+    expect(normaliseBusinessName('Acme Widgets, Inc.')).toBe('acme widgets');
+  });
+});
+
+describe('addressMismatches', () => {
+  it('compares the parts both addresses have, ignoring abbreviations and formatting', () => {
+    expect(addressMismatches(
+      { street: 'Unit 4, 12 High St', locality: 'Bristol', postalCode: 'bs14dj' },
+      { street: '12 High Street', locality: 'Bristol', postalCode: 'BS1 4DJ', country: 'GB' }
+    )).toEqual([]);
+    expect(addressMismatches(
+      { street: '14 High Street', locality: 'Bath', postalCode: 'BA1 1AA' },
+      { street: '12 High Street', locality: 'Bristol', postalCode: 'BS1 4DJ' }
+    )).toEqual(['street', 'locality', 'postalCode']);
+  });
+});
+
+describe('extractNap', () => {
+  it('reads name, phone, address and hours from LocalBusiness schema', () => {
+    const $ = parseHtml(`<script type="application/ld+json">${JSON.stringify({
+      '@context': 'https://schema.org',
+      '@type': 'ClothingStore',
+      name: 'Stride Running',
+      telephone: '0117 496 0000',
+      address: { '@type': 'PostalAddress', streetAddress: '12 High Street', addressLocality: 'Bristol', postalCode: 'BS1 4DJ', addressCountry: 'GB' },
+      openingHoursSpecification: { '@type': 'OpeningHoursSpecification', dayOfWeek: ['https://schema.org/Monday', 'Tuesday'], opens: '09:00', closes: '17:30' },
+    })}</script>`);
+    const nap = extractNap($, 'https://stride.example/');
+
+    expect(nap.country).toBe('GB');
+    expect(nap.names).toEqual([{ value: 'Stride Running', source: 'schema' }]);
+    expect(nap.phones).toEqual([{ raw: '0117 496 0000', e164: '+441174960000', source: 'schema' }]);
+    expect(nap.addresses).toEqual([{
+      raw: '12 High Street, Bristol, BS1 4DJ, GB',
+      parts: { street: '12 High Street', locality: 'Bristol', region: undefined, postalCode: 'BS1 4DJ', country: 'GB' },
+      source: 'schema',
+    }]);
+    expect(nap.openingHours).toEqual(['Monday, Tuesday 09:00-17:30']);
+  });
+
+  it('falls back to the footer, tel: links and visible hours', () => {
+    const $ = parseHtml(`<html lang="de-DE"><head><meta property="og:site_name" content="Laufladen"></head><body>
+      <footer>
+        <address>Laufladen GmbH<br>Friedrichstraße 43<br>10117 Berlin</address>
+        <p>Anrufen: <a href="tel:+49301234567">030 123 4567</a></p>
+        <p>Mon-Fri 10:00-19:00</p>
+        <p>© 2024 Laufladen GmbH. All rights reserved.</p>
+      </footer>
+    </body></html>`);
+    const nap = extractNap($, 'https://laufladen.example/');
+
+    expect(nap.country).toBe('DE');
+    expect(nap.names).toEqual([
+      { value: 'Laufladen', source: 'open-graph' },
+      { value: 'Laufladen GmbH', source: 'footer' },
+    ]);
+    expect(nap.phones).toEqual([
+      { raw: '+49301234567', e164: '+49301234567', source: 'tel-link' },
+      { raw: '030 123 4567', e164: '+49301234567', source: 'text' },
+    ]);
+    expect(nap.addresses.map(address => [address.raw, address.parts.postalCode, address.source])).toEqual([
+      ['Laufladen GmbH, Friedrichstraße 43, 10117 Berlin', '10117', 'address'],
+    ]);
+    expect(nap.openingHours).toEqual(['Mon-Fri 10:00-19:00']);
+  });
+
+  it("doesn't take a year for a numeric postcode without a street beside it", () => {
+    const $ = parseHtml(`<footer>
+      <p class="about">Family run since 1998 in the Cotswolds</p>
+      <p class="location">Serving runners, 2024 Edition kit in stock</p>
+    </footer>`);
+    expect(extractNap($, 'https://stride.example/').addresses).toEqual([]);
+  });
+});
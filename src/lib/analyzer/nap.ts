@@ -0,0 +1,273 @@
+import { CheerioAPI } from 'cheerio';
+import { NapDetails, PostalAddressParts, StructuredDataEntity } from '@/types/analysis';
+import { normaliseText, ElementNode } from './extract';
+import { analyzeStructuredData, findEntities } from './structuredData';
+import { findCopyright } from './hygiene';
+
+// Name, address and phone as listed on the Google Business Profile, entered by the auditor
+export interface ReferenceNap {
+  name?: string;
+  address?: string;
+  phone?: string;
+  // ISO 3166 code, for phone numbers written without a country code
+  country?: string;
+}
+
+const CALLING_CODES: Record<string, string> = {
+  GB: '44', IE: '353', US: '1', CA: '1', AU: '61', NZ: '64', ZA: '27', IN: '91', SG: '65',
+  DE: '49', FR: '33', ES: '34', IT: '39', NL: '31', BE: '32', AT: '43', CH: '41', SE: '46',
+  NO: '47', DK: '45', FI: '358', PT: '351', PL: '48',
+};
+
+const COUNTRY_NAMES: Record<string, string> = {
+  'united kingdom': 'GB', 'uk': 'GB', 'great britain': 'GB', 'england': 'GB', 'scotland': 'GB', 'wales': 'GB',
+  'northern ireland': 'GB', 'ireland': 'IE', 'united states': 'US', 'united states of america': 'US', 'usa': 'US',
+  'canada': 'CA', 'australia': 'AU', 'new zealand': 'NZ', 'germany': 'DE', 'deutschland': 'DE', 'france': 'FR',
+  'spain': 'ES', 'españa': 'ES', 'italy': 'IT', 'italia': 'IT', 'netherlands': 'NL', 'belgium': 'BE',
+};
+
+const UK_POSTCODE = /\b([A-Z]{1,2}\d[A-Z\d]?)\s*(\d[A-Z]{2})\b/i;
+// State then ZIP, e.g. "CA 94103" or "CA 94103-1234"
+const US_STATE_ZIP = /\b([A-Z]{2})\s+(\d{5}(?:-\d{4})?)\b/;
+// Four or five digits for most of Europe and Australia, e.g. "10115 Berlin", "NSW 2000"
+const NUMERIC_POSTCODE = /\b(\d{4,5})\b/;
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  st: 'street', rd: 'road', ave: 'avenue', av: 'avenue', ln: 'lane', dr: 'drive', blvd: 'boulevard',
+  ct: 'court', pl: 'place', sq: 'square', hwy: 'highway', pkwy: 'parkway', cres: 'crescent', tce: 'terrace',
+};
+
+const COMPANY_SUFFIXES = /\b(ltd|limited|inc|incorporated|llc|llp|plc|co|corp|corporation|gmbh|pty|bv|sa|srl)\b\.?/g;
+
+// Where contact details live in the visible page
+const CONTACT_SELECTOR = 'footer, [role="contentinfo"], address, [class*="contact"], [class*="location"], [class*="address"]';
+// Digit runs with the spacing and punctuation phone numbers are written with; nine digits or more count
+const PHONE_PATTERN = /(?:\+|00)?\d[\d\s().-]{7,}\d/g;
+// A postal code somewhere in the block: UK postcodes, US state + ZIP or an Australian state + postcode
+const POSTAL_PATTERN = /\b[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}\b|\b[A-Z]{2} \d{5}(?:-\d{4})?\b|\b(?:NSW|VIC|QLD|WA|SA|TAS|ACT|NT) \d{4}\b/;
+// A bare 4-5 digit code could be a year, so it only counts starting a line before the
+// town ("10115 Berlin") in a block that also names a street
+const NUMERIC_POSTAL_PATTERN = /(?:^|,\s*)\d{4,5} \p{Lu}\p{L}+/u;
+const STREET_PATTERN = /(straße|strasse|str\.|weg|gasse|platz|straat|laan|gracht|gade|gatan)(?!\p{L})|\b(street|st|road|rd|avenue|ave|lane|drive|boulevard|blvd|rue|via|calle|avenida|plaza|place|square)\b/iu;
+const MAX_ADDRESS_LENGTH = 200;
+const COPYRIGHT_PATTERN = /©|\(c\)|\bcopyright\b/i;
+
+const DAY_PATTERN = /\b(mon|tue|wed|thu|fri|sat|sun)[a-z]*\b/i;
+const TIME_PATTERN = /\b\d{1,2}([:.]\d{2})?\s*(am|pm)\b|\b\d{1,2}[:.]\d{2}\b|\b(open 24 hours|closed)\b/i;
+
+// ccTLDs worth trusting for the country; .com and friends say nothing
+const TLD_COUNTRIES: Record<string, string> = { uk: 'GB', ie: 'IE', au: 'AU', nz: 'NZ', ca: 'CA', de: 'DE', fr: 'FR', es: 'ES', it: 'IT', nl: 'NL', be: 'BE', za: 'ZA', in: 'IN', sg: 'SG' };
+
+/**
+ * ISO 3166 code for a country name or code, e.g. 'United Kingdom' -> 'GB'
+ */
+export function countryCode(value: string | undefined): string | undefined {
+  const cleaned = (value || '').trim().toLowerCase().replace(/\.$/, '');
+  if (!cleaned) return undefined;
+  if (/^[a-z]{2}$/.test(cleaned)) return cleaned === 'uk' ? 'GB' : cleaned.toUpperCase();
+  return COUNTRY_NAMES[cleaned];
+}
+
+/**
+ * E.164 form of a phone number, e.g. '020 7946 0000' in GB -> '+442079460000'
+ * Returns undefined when there's no country code and the country is unknown
+ */
+export function normalisePhone(raw: string, country?: string): string | undefined {
+  // "+44 (0)20 ..." writes the trunk prefix that's dropped after a country code
+  const trimmed = raw.trim().replace(/^tel:/i, '').replace(/\s*(ext|x|#)\.?\s*\d+$/i, '').replace(/\(0\)/, '');
+  const digits = trimmed.replace(/\D/g, '');
+  if (digits.length < 7 || digits.length > 15) return undefined;
+  if (trimmed.startsWith('+')) return `+${digits}`;
+  if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+
+  const code = country ? CALLING_CODES[country.toUpperCase()] : undefined;
+  if (!code) return undefined;
+  // A leading 0 is the national trunk prefix
+  if (code === '1') return digits.length === 11 && digits.startsWith('1') ? `+${digits}` : digits.length === 10 ? `+1${digits}` : undefined;
+  // Numbers that already start with the calling code but lost their +
+  if (digits.startsWith(code) && digits.length > 10) return `+${digits}`;
+  return `+${code}${digits.replace(/^0/, '')}`;
+}
+
+/**
+ * Split a one-line or multi-line address into street, locality, region, postal
+ * code and country
+ */
+export function parseAddress(text: string): PostalAddressParts {
+  const segments = text.split(/\s*(?:,|\n|\s{2,}|\|)\s*/).map(segment => segment.trim()).filter(Boolean);
+  const parts: PostalAddressParts = {};
+
+  const country = countryCode(segments[segments.length - 1]);
+  if (country && segments.length > 1 && !/\d/.test(segments[segments.length - 1])) {
+    parts.country = country;
+    segments.pop();
+  }
+
+  // Work back from the end, where the postal code usually sits
+  let postalIndex = -1;
+  for (let i = segments.length - 1; i >= 0 && postalIndex < 0; i--) {
+    const uk = UK_POSTCODE.exec(segments[i]);
+    const us = US_STATE_ZIP.exec(segments[i]);
+    const numeric = i > 0 ? NUMERIC_POSTCODE.exec(segments[i]) : null;
+    const match = uk || us || numeric;
+    if (!match) continue;
+    postalIndex = i;
+    if (uk) parts.postalCode = `${uk[1]} ${uk[2]}`.toUpperCase();
+    else if (us) {
+      parts.region = us[1];
+      parts.postalCode = us[2];
+    } else parts.postalCode = numeric![1];
+    // What's left of the segment is the town, e.g. "10115 Berlin" or "Springfield IL 62701"
+    const rest = segments[i].replace(match[0], '').replace(/\s+/g, ' ').trim();
+    if (rest) parts.locality = rest;
+  }
+
+  const before = postalIndex >= 0 ? segments.slice(0, postalIndex) : segments;
+  parts.street = before.find(segment => /\d/.test(segment)) || before[0];
+  if (!parts.locality && before.length > 1) parts.locality = before[before.length - 1];
+
+  return parts;
+}
+
+function normaliseWords(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => STREET_ABBREVIATIONS[word] || word)
+    .join(' ');
+}
+
+/**
+ * Business name without case, punctuation or company suffixes, for comparison
+ */
+export function normaliseBusinessName(name: string): string {
+  return normaliseWords(name).replace(COMPANY_SUFFIXES, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Address components that are present in both and differ
+ */
+export function addressMismatches(found: PostalAddressParts, reference: PostalAddressParts): (keyof PostalAddressParts)[] {
+  const keys: (keyof PostalAddressParts)[] = ['street', 'locality', 'region', 'postalCode', 'country'];
+  return keys.filter(key => {
+    const a = found[key];
+    const b = reference[key];
+    if (!a || !b) return false;
+    if (key === 'postalCode') return a.replace(/\s/g, '').toUpperCase() !== b.replace(/\s/g, '').toUpperCase();
+    const [x, y] = [normaliseWords(a), normaliseWords(b)];
+    // "Unit 4, 12 High Street" and "12 High Street" are the same place for this purpose
+    return !(x === y || x.includes(y) || y.includes(x));
+  });
+}
+
+function strings(values: (string | StructuredDataEntity)[] | undefined): string[] {
+  return (values || []).filter((value): value is string => typeof value === 'string');
+}
+
+function entities(values: (string | StructuredDataEntity)[] | undefined): StructuredDataEntity[] {
+  return (values || []).filter((value): value is StructuredDataEntity => typeof value !== 'string');
+}
+
+// The country to read national phone numbers in: schema, then <html lang>, then the TLD
+function detectCountry($: CheerioAPI, pageUrl: string, businesses: StructuredDataEntity[]): string | undefined {
+  const schemaCountry = businesses.flatMap(business => entities(business.properties.address))
+    .flatMap(address => [...strings(address.properties.addressCountry), ...entities(address.properties.addressCountry).flatMap(country => strings(country.properties.name))])[0];
+  const langRegion = ($('html').attr('lang') || '').split('-')[1];
+  const tld = new URL(pageUrl).hostname.split('.').pop() || '';
+  return countryCode(schemaCountry) || countryCode(langRegion) || TLD_COUNTRIES[tld];
+}
+
+// Element text with <br>s as line breaks, since they separate the lines of an address
+function blockText($: CheerioAPI, el: ElementNode): string {
+  const html = ($(el).html() || '').replace(/<br\s*\/?>/gi, ', ');
+  return normaliseText($(`<div>${html}</div>`).text()).replace(/(\s*,\s*)+/g, ', ').replace(/^, |, $/g, '');
+}
+
+function looksLikeAddress(text: string): boolean {
+  const hasPhone = (text.match(PHONE_PATTERN) || []).some(match => match.replace(/\D/g, '').length >= 9);
+  const hasPostalCode = POSTAL_PATTERN.test(text) || (NUMERIC_POSTAL_PATTERN.test(text) && STREET_PATTERN.test(text));
+  return text.length <= MAX_ADDRESS_LENGTH && hasPostalCode && !COPYRIGHT_PATTERN.test(text) && !hasPhone;
+}
+
+// Innermost elements in contact areas whose text reads as an address
+function addressBlocks($: CheerioAPI): { text: string; source: 'address' | 'footer' }[] {
+  return $(CONTACT_SELECTOR).find('*').addBack().toArray()
+    .filter(el => looksLikeAddress(blockText($, el)) && !$(el).children().toArray().some(child => looksLikeAddress(blockText($, child))))
+    .map(el => ({ text: blockText($, el), source: $(el).closest('address').length ? 'address' as const : 'footer' as const }));
+}
+
+/**
+ * Business name, address, phone and opening hours from LocalBusiness/Organization
+ * schema, tel: links and the contact areas of the page, with phones in E.164
+ */
+export function extractNap($: CheerioAPI, pageUrl: string): NapDetails {
+  const structured = analyzeStructuredData($, pageUrl).entities;
+  // LocalBusiness first, as the more specific; it's also an Organization
+  const businesses = [...new Set([...findEntities(structured, 'LocalBusiness'), ...findEntities(structured, 'Organization')])];
+  const country = detectCountry($, pageUrl, businesses);
+  const nap: NapDetails = { country, names: [], phones: [], addresses: [], openingHours: [] };
+
+  const addName = (value: string | undefined, source: NapDetails['names'][number]['source']) => {
+    const name = normaliseText(value || '');
+    if (name && !nap.names.some(existing => existing.value === name && existing.source === source)) nap.names.push({ value: name, source });
+  };
+  const addPhone = (raw: string, source: NapDetails['phones'][number]['source']) => {
+    const value = normaliseText(raw.replace(/^tel:/i, ''));
+    const e164 = normalisePhone(value, country);
+    if (e164 || source !== 'text') {
+      if (!nap.phones.some(existing => existing.raw === value && existing.source === source)) nap.phones.push({ raw: value, e164, source });
+    }
+  };
+  const addAddress = (text: string, source: NapDetails['addresses'][number]['source']) => {
+    if (text && !nap.addresses.some(existing => existing.raw === text)) nap.addresses.push({ raw: text, parts: parseAddress(text), source });
+  };
+
+  for (const business of businesses) {
+    strings(business.properties.name).forEach(name => addName(name, 'schema'));
+    strings(business.properties.telephone).forEach(phone => addPhone(phone, 'schema'));
+    for (const address of entities(business.properties.address)) {
+      const field = (key: string) => strings(address.properties[key])[0];
+      const parts = {
+        street: field('streetAddress'),
+        locality: field('addressLocality'),
+        region: field('addressRegion'),
+        postalCode: field('postalCode'),
+        country: countryCode(field('addressCountry')) || field('addressCountry'),
+      };
+      const raw = Object.values(parts).filter(Boolean).join(', ');
+      if (raw) nap.addresses.push({ raw, parts, source: 'schema' });
+    }
+    strings(business.properties.address).forEach(address => addAddress(address, 'schema'));
+    strings(business.properties.openingHours).forEach(hours => nap.openingHours.push(hours));
+    for (const spec of entities(business.properties.openingHoursSpecification)) {
+      const days = strings(spec.properties.dayOfWeek).map(day => day.split('/').pop()).join(', ');
+      nap.openingHours.push(`${days} ${strings(spec.properties.opens)[0] || ''}-${strings(spec.properties.closes)[0] || ''}`.trim());
+    }
+  }
+
+  $('meta[property="og:site_name"]').each((_, el) => addName($(el).attr('content'), 'open-graph'));
+  // "© 2024 Acme Ltd. All rights reserved." -> "Acme Ltd"
+  const holder = findCopyright($)?.text.replace(/^.*?(©|\(c\)|copyright)\s*/i, '').replace(/^[\d\s–-]+/, '').replace(/\.?\s*all rights reserved.*$/i, '').split(/[.|]/)[0];
+  if (holder && holder.split(' ').length <= 6) addName(holder, 'footer');
+
+  $('a[href^="tel:"]').each((_, el) => addPhone($(el).attr('href') || '', 'tel-link'));
+  $(CONTACT_SELECTOR).each((_, el) => {
+    for (const match of normaliseText($(el).text()).match(PHONE_PATTERN) || []) {
+      if (match.replace(/\D/g, '').length >= 9) addPhone(match, 'text');
+    }
+  });
+
+  addressBlocks($).forEach(block => addAddress(block.text, block.source));
+
+  // Visible hours: short lines naming a day and a time
+  if (nap.openingHours.length === 0) {
+    $('dl, table, ul, p, div').filter((_, el) => $(el).children('dl, table, ul, p, div').length === 0).each((_, el) => {
+      const text = normaliseText($(el).text());
+      if (text.length < 200 && DAY_PATTERN.test(text) && TIME_PATTERN.test(text)) nap.openingHours.push(text);
+    });
+  }
+
+  return nap;
+}
@@ -0,0 +1,92 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { analyzeNotFound } from './notFound';
+
+const HOME = `<html><head><title>Stride Running</title></head><body>
+  <h1>Running shoes, clothing and race-day kit</h1>
+  <p>Free delivery over fifty pounds and free returns within thirty days on every order.</p>
+</body></html>`;
+
+const ERROR_PAGE = `<html><head><title>Page not found | Stride</title></head><body>
+  <header><nav><a href="/">Home</a><a href="/shoes/">Shoes</a><a href="/clothing/">Clothing</a></nav></header>
+  <h1>Sorry, we couldn't find that page</h1>
+  <form role="search" action="/search"><input type="search" name="q"></form>
+</body></html>`;
+
+describe('analyzeNotFound', () => {
+  let server: Server;
+  let origin: string;
+  // How every path other than the homepage is answered, set per test
+  let mode: 'not-found' | 'bare-not-found' | 'empty-not-found' | 'soft' | 'home-redirect';
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.url === '/') {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end(HOME);
+      } else if (mode === 'home-redirect') {
+        response.writeHead(302, { Location: '/' });
+        response.end();
+      } else if (mode === 'soft') {
+        response.writeHead(200, { 'Content-Type': 'text/html' });
+        response.end('<html><body><h1>Latest offers</h1><p>Trail shoes from forty pounds this week.</p></body></html>');
+      } else {
+        response.writeHead(404, { 'Content-Type': 'text/html' });
+        response.end(mode === 'not-found' ? ERROR_PAGE : mode === 'bare-not-found' ? '<html><body><p>Oops</p></body></html>' : '');
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('passes a real 404 with a useful error page', async () => {
+    mode = 'not-found';
+    const analysis = await analyzeNotFound(origin, `${origin}/`, parseHtml(HOME));
+    expect(analysis.probes.map(probe => [probe.redirect.finalStatus, probe.soft])).toEqual([[404, false], [404, false]]);
+    expect(analysis.page).toEqual({
+      title: 'Page not found | Stride',
+      mentionsNotFound: true,
+      navigationLinks: 3,
+      hasSearch: true,
+      hasHomeLink: true,
+    });
+    expect(analysis.softNotFound).toBe(false);
+    expect(analysis.issues).toEqual([]);
+  });
+
+  it('lists what an unhelpful error page is missing', async () => {
+    mode = 'bare-not-found';
+    const { issues } = await analyzeNotFound(origin, `${origin}/`, parseHtml(HOME));
+    expect(issues).toEqual([
+      "Error page doesn't tell visitors the page wasn't found",
+      'Error page has 0 navigation link(s)',
+      'Error page has no search box',
+      'Error page has no link back to the homepage',
+    ]);
+  });
+
+  it('reports a 200 for a missing page as a soft 404', async () => {
+    mode = 'soft';
+    const analysis = await analyzeNotFound(origin, `${origin}/`, parseHtml(HOME));
+    expect(analysis.softNotFound).toBe(true);
+    expect(analysis.probes.map(probe => probe.reason)).toEqual(['Returns 200 instead of 404', 'Returns 200 instead of 404']);
+    expect(analysis.page).toBeUndefined();
+  });
+
+  it('reports a redirect to the homepage as a soft 404', async () => {
+    mode = 'home-redirect';
+    const analysis = await analyzeNotFound(origin, `${origin}/shoes/`, parseHtml('<h1>Shoes</h1>'));
+    expect(analysis.probes[0]).toMatchObject({ soft: true, reason: 'Redirects to the homepage (302)', similarityToHome: 1 });
+    expect(analysis.issues[0]).toBe(`${analysis.probes[0].url}: Redirects to the homepage (302)`);
+  });
+
+  it("doesn't match an empty error page to an empty homepage", async () => {
+    mode = 'empty-not-found';
+    const analysis = await analyzeNotFound(origin, `${origin}/`, parseHtml(''));
+    expect(analysis.probes.map(probe => [probe.soft, probe.similarityToHome])).toEqual([[false, 0], [false, 0]]);
+  });
+});
@@ -0,0 +1,127 @@
+import { CheerioAPI } from 'cheerio';
+import { randomBytes } from 'crypto';
+import { AnalysisResult, NotFoundProbe } from '@/types/analysis';
+import { fetchWithTimeout } from './fetch';
+import { parseHtml, normaliseText, resolveUrl, extractInternalLinks } from './extract';
+import { extractBodyText } from './content';
+import { traceRedirects } from './redirects';
+
+type NotFoundAnalysis = NonNullable<AnalysisResult['notFound']>;
+
+// Pages sharing this much of the homepage's vocabulary are the homepage in disguise
+const HOME_SIMILARITY_THRESHOLD = 0.9;
+// Header/nav links an error page needs for visitors to find their way back
+const MIN_NAVIGATION_LINKS = 3;
+
+const SEARCH_SELECTOR = 'form[role="search"], [role="search"] input, input[type="search"], input[name="q"], input[name="s"], input[name="search"], input[name="query"]';
+
+// Paths no real site serves: a missing page and a missing file in a missing directory
+function probePaths(): string[] {
+  const token = () => randomBytes(6).toString('hex');
+  return [`/${token()}-page-not-found`, `/${token()}/${token()}.html`];
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/\W+/).filter(word => word.length > 2));
+}
+
+// Jaccard similarity of the two pages' word sets; a page with no words resembles nothing
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter(word => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+function isHomepage(url: string): boolean {
+  const parsed = new URL(url);
+  return (parsed.pathname === '/' || /^\/index\.\w+$/i.test(parsed.pathname)) && !parsed.search;
+}
+
+function describeErrorPage($: CheerioAPI, pageUrl: string): NonNullable<NotFoundAnalysis['page']> {
+  const title = normaliseText($('title').first().text()) || undefined;
+  const origin = new URL(pageUrl).origin;
+  const navLinks = $('nav a[href], header a[href], [role="navigation"] a[href]').toArray()
+    .map(el => resolveUrl($(el).attr('href') || '', pageUrl))
+    .filter((url): url is string => !!url && new URL(url).origin === origin);
+
+  return {
+    title,
+    mentionsNotFound: /404|not found|doesn.t exist|no longer (exists|available)|can.t be found|cannot be found/i.test(
+      `${title || ''} ${normaliseText($('h1, h2').text())}`
+    ),
+    navigationLinks: new Set(navLinks).size,
+    hasSearch: $(SEARCH_SELECTOR).length > 0,
+    hasHomeLink: extractInternalLinks($, pageUrl).some(isHomepage),
+  };
+}
+
+async function fetchHomeText(baseUrl: string): Promise<string> {
+  try {
+    const response = await fetchWithTimeout(`${baseUrl}/`);
+    return extractBodyText(parseHtml(await response.text()));
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Request made-up URLs on the audited host to check they return a real 404 -
+ * not a 200 or a redirect to the homepage - and how helpful the error page is
+ */
+export async function analyzeNotFound(baseUrl: string, pageUrl: string, $page: CheerioAPI): Promise<NotFoundAnalysis> {
+  const homeWords = wordSet(isHomepage(pageUrl) ? extractBodyText($page) : await fetchHomeText(baseUrl));
+  const probes: NotFoundProbe[] = [];
+  let page: NotFoundAnalysis['page'];
+
+  for (const path of probePaths()) {
+    const url = `${baseUrl}${path}`;
+    const redirect = await traceRedirects(url);
+    const probe: NotFoundProbe = { url, redirect, soft: false };
+    probes.push(probe);
+
+    if (!redirect.finalUrl || !redirect.finalStatus) continue;
+
+    if (redirect.hops.length > 0 && isHomepage(redirect.finalUrl)) {
+      probe.soft = true;
+      probe.reason = `Redirects to the homepage (${redirect.hops.map(hop => hop.statusCode).join(' → ')})`;
+    } else if (redirect.finalStatus === 200) {
+      probe.soft = true;
+      probe.reason = 'Returns 200 instead of 404';
+    }
+
+    try {
+      const response = await fetchWithTimeout(redirect.finalUrl);
+      if (!(response.headers.get('content-type') || '').includes('html')) {
+        await response.body?.cancel();
+        continue;
+      }
+      const $ = parseHtml(await response.text());
+      probe.similarityToHome = Math.round(similarity(wordSet(extractBodyText($)), homeWords) * 100) / 100;
+      if (probe.similarityToHome >= HOME_SIMILARITY_THRESHOLD && !probe.soft) {
+        probe.soft = true;
+        probe.reason = `Serves the homepage content (${Math.round(probe.similarityToHome * 100)}% similar)`;
+      }
+      // A soft 404's page is the homepage or a real page, not an error page
+      if (!probe.soft) page ||= describeErrorPage($, redirect.finalUrl);
+    } catch {
+      // The status is what matters; the body is only for the usefulness checks
+    }
+  }
+
+  const issues: string[] = [];
+  for (const probe of probes) {
+    if (probe.soft) issues.push(`${probe.url}: ${probe.reason}`);
+    else if (probe.redirect.error) issues.push(`${probe.url}: ${probe.redirect.error}`);
+    else if (probe.redirect.finalStatus !== 404 && probe.redirect.finalStatus !== 410) {
+      issues.push(`${probe.url}: returns ${probe.redirect.finalStatus}`);
+    }
+  }
+  if (page) {
+    if (!page.mentionsNotFound) issues.push("Error page doesn't tell visitors the page wasn't found");
+    if (page.navigationLinks < MIN_NAVIGATION_LINKS) issues.push(`Error page has ${page.navigationLinks} navigation link(s)`);
+    if (!page.hasSearch) issues.push('Error page has no search box');
+    if (!page.hasHomeLink) issues.push('Error page has no link back to the homepage');
+  }
+
+  return { probes, softNotFound: probes.some(probe => probe.soft), page, issues };
+}
@@ -0,0 +1,86 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { getHostVariants, traceRedirects } from './redirects';
+
+// Each path redirects to the Location given for it, or answers 200
+const LOCATIONS: Record<string, string> = {
+  '/old': '/newer',
+  '/newer': '/new',
+  '/loop-a': '/loop-b',
+  '/loop-b': '/loop-a',
+  '/broken': 'http://[::1',
+};
+
+describe('traceRedirects', () => {
+  let server: Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      const location = LOCATIONS[request.url || ''];
+      if (request.url === '/geo' && request.headers['cf-ipcountry'] === 'DE') {
+        response.writeHead(302, { Location: '/de/' });
+      } else if (location) {
+        response.writeHead(request.url === '/old' ? 301 : 302, { Location: location });
+      } else {
+        response.writeHead(200);
+      }
+      response.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('records each hop of a chain', async () => {
+    const trace = await traceRedirects(`${origin}/old`);
+    expect(trace.hops.map(hop => [hop.statusCode, hop.location])).toEqual([
+      [301, `${origin}/newer`],
+      [302, `${origin}/new`],
+    ]);
+    expect(trace).toMatchObject({ finalUrl: `${origin}/new`, finalStatus: 200, loop: false });
+  });
+
+  it('stops at a loop', async () => {
+    const trace = await traceRedirects(`${origin}/loop-a`);
+    expect(trace.loop).toBe(true);
+    expect(trace.hops).toHaveLength(2);
+  });
+
+  it('records a malformed Location as an error rather than throwing', async () => {
+    const trace = await traceRedirects(`${origin}/broken`);
+    expect(trace.finalUrl).toBeUndefined();
+    expect(trace.error).toBe('302 with an invalid Location header (http://[::1)');
+  });
+
+  it('sends the given headers with every hop', async () => {
+    expect((await traceRedirects(`${origin}/geo`)).finalUrl).toBe(`${origin}/geo`);
+    expect((await traceRedirects(`${origin}/geo`, 'DE', { 'CF-IPCountry': 'DE' })).finalUrl).toBe(`${origin}/de/`);
+  });
+});
+
+describe('getHostVariants', () => {
+  const hosts = (url: string) => getHostVariants(url).map(variant => variant.url);
+
+  it('adds www and non-www for an apex domain, keeping the path and query', () => {
+    expect(hosts('https://example.com/shoes?page=2')).toEqual([
+      'http://example.com/shoes?page=2',
+      'http://www.example.com/shoes?page=2',
+      'https://example.com/shoes?page=2',
+      'https://www.example.com/shoes?page=2',
+    ]);
+    expect(hosts('https://www.example.co.uk/')).toEqual([
+      'http://example.co.uk/',
+      'http://www.example.co.uk/',
+      'https://example.co.uk/',
+      'https://www.example.co.uk/',
+    ]);
+  });
+
+  it('only varies the protocol for subdomains and IP addresses', () => {
+    expect(hosts('https://blog.example.com/')).toEqual(['http://blog.example.com/', 'https://blog.example.com/']);
+    expect(hosts('http://127.0.0.1:8080/')).toEqual(['http://127.0.0.1:8080/', 'https://127.0.0.1:8080/']);
+  });
+});
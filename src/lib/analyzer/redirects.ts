@@ -0,0 +1,125 @@
+import { RedirectTrace, AnalysisResult } from '@/types/analysis';
+import { fetchWithTimeout } from './fetch';
+
+const MAX_HOPS = 10;
+const PERMANENT_STATUSES = [301, 308];
+
+/**
+ * Follow redirects one hop at a time, recording each status code and Location,
+ * sending `headers` with every hop
+ */
+export async function traceRedirects(url: string, label = url, headers: Record<string, string> = {}): Promise<RedirectTrace> {
+  const trace: RedirectTrace = { label, startUrl: url, hops: [], loop: false };
+  const visited = new Set<string>();
+  let currentUrl = url;
+
+  while (trace.hops.length <= MAX_HOPS) {
+    if (visited.has(currentUrl)) {
+      trace.loop = true;
+      break;
+    }
+    visited.add(currentUrl);
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(currentUrl, 10000, { redirect: 'manual', headers });
+      // Only the status and headers are needed
+      await response.body?.cancel();
+    } catch (error) {
+      trace.error = error instanceof Error ? error.message : 'Request failed';
+      break;
+    }
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      trace.finalUrl = currentUrl;
+      trace.finalStatus = response.status;
+      break;
+    }
+
+    let nextUrl: string;
+    try {
+      nextUrl = new URL(location, currentUrl).href;
+    } catch {
+      trace.error = `${response.status} with an invalid Location header (${location})`;
+      break;
+    }
+    trace.hops.push({ url: currentUrl, statusCode: response.status, location: nextUrl });
+    currentUrl = nextUrl;
+  }
+
+  if (trace.hops.length > MAX_HOPS) {
+    trace.error = `More than ${MAX_HOPS} redirects`;
+  }
+  return trace;
+}
+
+// Registry second levels that names are sold under, e.g. example.co.uk
+const SECOND_LEVEL_DOMAINS = /^(co|com|net|org|gov|ac|edu|ltd|plc|me|sch|nom)\.[a-z]{2}$/;
+
+// example.com or example.co.uk, rather than a subdomain, an IP address or localhost
+function isApexDomain(hostname: string): boolean {
+  const labels = hostname.toLowerCase().split('.');
+  if (labels.length < 2 || /^[\d.]+$/.test(hostname) || hostname.startsWith('[')) return false;
+  return labels.length === 2 || (labels.length === 3 && SECOND_LEVEL_DOMAINS.test(labels.slice(1).join('.')));
+}
+
+/**
+ * The http/https x www/non-www versions of a URL, keeping its path and query
+ * Subdomains only get http/https, since www.blog.example.com rarely exists
+ */
+export function getHostVariants(url: string): { label: string; url: string }[] {
+  const parsed = new URL(url);
+  const bareHost = parsed.host.replace(/^www\./i, '');
+  const pathAndQuery = parsed.pathname + parsed.search;
+  const hosts = /^www\./i.test(parsed.hostname) || isApexDomain(parsed.hostname) ? [bareHost, `www.${bareHost}`] : [parsed.host];
+
+  return ['http', 'https'].flatMap(protocol =>
+    hosts.map(host => ({
+      label: `${protocol}://${host}`,
+      url: `${protocol}://${host}${pathAndQuery}`,
+    }))
+  );
+}
+
+function describeTrace(trace: RedirectTrace): string {
+  return [...trace.hops.map(hop => `${hop.url} (${hop.statusCode})`), trace.finalUrl || trace.error || (trace.loop ? 'loop' : '?')].join(' → ');
+}
+
+/**
+ * Trace the audited URL and its protocol/host variants, flagging chains, loops,
+ * temporary redirects and variants that don't settle on one canonical origin
+ */
+export async function analyzeRedirects(url: string): Promise<NonNullable<AnalysisResult['redirects']>> {
+  const [audited, ...variants] = await Promise.all([
+    traceRedirects(url, 'Audited URL'),
+    ...getHostVariants(url).map(variant => traceRedirects(variant.url, variant.label)),
+  ]);
+
+  const issues: string[] = [];
+  for (const trace of [audited, ...variants]) {
+    if (trace.loop) {
+      issues.push(`${trace.label}: redirect loop (${describeTrace(trace)})`);
+    } else if (trace.hops.length > 1) {
+      issues.push(`${trace.label}: ${trace.hops.length}-hop redirect chain (${describeTrace(trace)})`);
+    }
+    const temporary = trace.hops.filter(hop => !PERMANENT_STATUSES.includes(hop.statusCode));
+    if (temporary.length > 0) {
+      issues.push(`${trace.label}: temporary ${temporary.map(hop => hop.statusCode).join('/')} redirect where a 301 belongs`);
+    }
+  }
+
+  const canonicalOrigin = audited.finalUrl ? new URL(audited.finalUrl).origin : undefined;
+  const reachable = variants.filter(trace => trace.finalUrl && trace.finalStatus === 200);
+  const origins = [...new Set(reachable.map(trace => new URL(trace.finalUrl!).origin))];
+  const converges = origins.length <= 1 && (!canonicalOrigin || origins.every(origin => origin === canonicalOrigin));
+
+  if (!converges) {
+    issues.push(`Variants resolve to ${origins.length} different origins: ${origins.join(', ')}`);
+  }
+  for (const trace of variants.filter(trace => trace.error)) {
+    issues.push(`${trace.label}: no response (${trace.error})`);
+  }
+
+  return { audited, variants, canonicalOrigin, converges, issues };
+}
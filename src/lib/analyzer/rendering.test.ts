@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { analyzeRendering } from './rendering';
+
+const PAGE_URL = 'https://shop.example/trail-shoes/';
+
+const analyze = (html: string) => analyzeRendering(parseHtml(html), html, PAGE_URL);
+
+const COPY = 'Grippy, cushioned trail shoes built for mud, rock and long days out on the fells. ';
+
+describe('analyzeRendering', () => {
+  it('gives a server-rendered page full marks', () => {
+    const rendering = analyze(`<html><body>
+      <header><nav><a href="/">Home</a><a href="/road-shoes/">Road</a><a href="/trail-shoes/">Trail</a></nav></header>
+      <main><h1>Trail shoes</h1><p>${COPY.repeat(15)}</p>
+        <a href="/trail-shoes/speedgoat/">Speedgoat</a><a href="/trail-shoes/peregrine/">Peregrine</a></main>
+    </body></html>`);
+    expect(rendering).toMatchObject({ frameworks: [], emptyMounts: [], visibleLinks: 5, navigationLinks: 3, score: 100, issues: [] });
+    expect(rendering.visibleWords).toBeGreaterThan(200);
+  });
+
+  it('flags an empty single-page app shell', () => {
+    const rendering = analyze(`<html><body>
+      <noscript>You need to enable JavaScript to run this app.</noscript>
+      <div id="root"></div>
+      <script src="/static/js/react-dom.production.min.js"></script>
+    </body></html>`);
+    expect(rendering).toMatchObject({ frameworks: ['React'], emptyMounts: ['#root'], visibleWords: 0, score: 0 });
+    expect(rendering.noscript.requiresJs).toBe(true);
+    expect(rendering.issues).toEqual([
+      '#root is empty in the HTML, so its content is rendered by JavaScript',
+      'Only 0 words of text without JavaScript',
+      '0 navigation link(s) in the HTML',
+      '<noscript> tells visitors to enable JavaScript',
+    ]);
+  });
+
+  it('counts the copy held in Next.js hydration data', () => {
+    const data = JSON.stringify({ props: { pageProps: { title: 'Trail shoes', description: COPY.repeat(4) } }, page: '/[category]' });
+    const rendering = analyze(`<html><body>
+      <div id="__next"><h1>Trail shoes</h1><p>Loading products</p></div>
+      <script id="__NEXT_DATA__" type="application/json">${data}</script>
+    </body></html>`);
+    expect(rendering.frameworks).toEqual(['Next.js']);
+    expect(rendering.emptyMounts).toEqual([]);
+    expect(rendering.hydrationBytes).toBe(Buffer.byteLength(data));
+    expect(rendering.hydrationWords).toBe(60);
+    expect(rendering.issues).toContain('Inline state holds 60 words of copy against 4 in the HTML');
+  });
+});
@@ -0,0 +1,102 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult } from '@/types/analysis';
+import { parseHtml, normaliseText, extractInternalLinks } from './extract';
+import { extractBodyText } from './content';
+
+type RenderingAnalysis = NonNullable<AnalysisResult['rendering']>;
+
+// Enough server-rendered words for the page's main content to be there without JS
+const MIN_VISIBLE_WORDS = 200;
+const MIN_NAVIGATION_LINKS = 3;
+const MIN_INTERNAL_LINKS = 5;
+// Inline state this big usually means the page is rebuilt client-side from it
+const LARGE_HYDRATION_BYTES = 100 * 1024;
+
+const FRAMEWORKS: { name: string; detect: ($: CheerioAPI, html: string) => boolean }[] = [
+  { name: 'Next.js', detect: ($, html) => $('#__NEXT_DATA__, #__next').length > 0 || html.includes('/_next/static/') || html.includes('self.__next_f') },
+  { name: 'Nuxt', detect: ($, html) => $('#__nuxt, #__NUXT_DATA__').length > 0 || html.includes('window.__NUXT__') || html.includes('/_nuxt/') },
+  { name: 'Gatsby', detect: $ => $('#___gatsby').length > 0 },
+  { name: 'Remix', detect: (_, html) => html.includes('window.__remixContext') },
+  { name: 'SvelteKit', detect: (_, html) => html.includes('__sveltekit') },
+  { name: 'Angular', detect: $ => $('[ng-version], [ng-app], app-root').length > 0 },
+  { name: 'Vue', detect: ($, html) => $('[data-server-rendered], [data-v-app]').length > 0 || /\sdata-v-[0-9a-f]{8}/.test(html) || /\/vue(\.runtime)?(\.global)?(\.prod)?(\.min)?\.js/.test(html) },
+  { name: 'React', detect: ($, html) => $('[data-reactroot], [data-reactid]').length > 0 || /react-dom(\.production)?(\.min)?\.js/.test(html) },
+];
+
+// Elements single-page apps mount into, empty until the bundle runs
+const MOUNT_SELECTORS = ['#root', '#app', '#__next', '#___gatsby', '#__nuxt', '#svelte', 'app-root', '[ng-app]', '[data-reactroot]'];
+
+// Inline scripts carrying the state a client-side render starts from
+const HYDRATION_SCRIPT = /__NEXT_DATA__|self\.__next_f|__NUXT__|__INITIAL_STATE__|__PRELOADED_STATE__|__APOLLO_STATE__|__remixContext|__sveltekit/;
+
+const REQUIRES_JS_MESSAGE = /enable javascript|javascript (is )?(required|disabled)|need(s)? javascript|turn on javascript/i;
+
+function wordCount(text: string): number {
+  return text ? text.split(' ').length : 0;
+}
+
+// Words in the JSON strings of the hydration state, i.e. copy a client render would show
+function stateWords(script: string): number {
+  const strings = [...script.matchAll(/"((?:[^"\\]|\\.){20,})"/g)].map(match => match[1]);
+  return strings.filter(value => value.includes(' ') && !/^(https?:)?\//.test(value))
+    .reduce((sum, value) => sum + wordCount(normaliseText(value.replace(/\\[nrt]/g, ' ').replace(/<[^>]+>/g, ' '))), 0);
+}
+
+/**
+ * Heuristics for how much of the page works without JavaScript: SPA shells,
+ * hydration state, <noscript> fallbacks and server-rendered navigation
+ */
+export function analyzeRendering($: CheerioAPI, html: string, pageUrl: string): RenderingAnalysis {
+  const frameworks = FRAMEWORKS.filter(framework => framework.detect($, html)).map(framework => framework.name);
+
+  const emptyMounts = MOUNT_SELECTORS.filter(selector => {
+    const mount = $(selector).first();
+    return mount.length > 0 && normaliseText(mount.text()) === '' && mount.find('img, svg, video, picture').length === 0;
+  });
+
+  let hydrationBytes = 0;
+  let hydrationWords = 0;
+  $('script:not([src])').each((_, el) => {
+    const script = $(el).html() || '';
+    if (HYDRATION_SCRIPT.test(script) || HYDRATION_SCRIPT.test($(el).attr('id') || '')) {
+      hydrationBytes += Buffer.byteLength(script);
+      hydrationWords += stateWords(script);
+    }
+  });
+
+  // <noscript> is parsed as raw text with scripting on, so parse its markup separately
+  const noscriptHtml = $('body noscript').toArray().map(el => $(el).text()).join('\n');
+  const $noscript = parseHtml(`<body>${noscriptHtml}</body>`);
+  const noscriptText = normaliseText($noscript('body').text());
+  const noscript = {
+    words: wordCount(noscriptText),
+    links: extractInternalLinks($noscript, pageUrl).length,
+    requiresJs: REQUIRES_JS_MESSAGE.test(noscriptText),
+  };
+
+  const visibleWords = wordCount(extractBodyText($));
+  const visibleLinks = extractInternalLinks($, pageUrl).length;
+  const navigationLinks = new Set(
+    $('nav a[href], header a[href], [role="navigation"] a[href]').toArray().map(el => $(el).attr('href'))
+  ).size;
+
+  // Weighted: main text 40, navigation 25, internal links 15, no empty app shell 20
+  const textScore = Math.min(visibleWords / MIN_VISIBLE_WORDS, 1) * (hydrationWords > visibleWords * 2 ? 20 : 40);
+  const navigationScore = navigationLinks >= MIN_NAVIGATION_LINKS ? 25 : navigationLinks > 0 ? 10 : 0;
+  const linkScore = Math.min(visibleLinks / MIN_INTERNAL_LINKS, 1) * 15;
+  const shellScore = emptyMounts.length === 0 ? 20 : 0;
+  const score = Math.round(textScore + navigationScore + linkScore + shellScore);
+
+  const issues: string[] = [];
+  for (const selector of emptyMounts) issues.push(`${selector} is empty in the HTML, so its content is rendered by JavaScript`);
+  if (visibleWords < MIN_VISIBLE_WORDS) issues.push(`Only ${visibleWords} words of text without JavaScript`);
+  if (hydrationWords > visibleWords * 2) {
+    issues.push(`Inline state holds ${hydrationWords} words of copy against ${visibleWords} in the HTML`);
+  }
+  if (hydrationBytes > LARGE_HYDRATION_BYTES) issues.push(`${Math.round(hydrationBytes / 1024)}KB of inline hydration state`);
+  if (navigationLinks < MIN_NAVIGATION_LINKS) issues.push(`${navigationLinks} navigation link(s) in the HTML`);
+  if (noscript.requiresJs) issues.push('<noscript> tells visitors to enable JavaScript');
+  if (noscript.links > visibleLinks) issues.push(`<noscript> has more links (${noscript.links}) than the page (${visibleLinks})`);
+
+  return { frameworks, emptyMounts, hydrationBytes, hydrationWords, visibleWords, visibleLinks, navigationLinks, noscript, score, issues };
+}
@@ -0,0 +1,104 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { analyzeResources, estimateCo2, findResources } from './resources';
+
+// Sustainable Web Design v4: 0.3kWh/GB at 494g/kWh
+const GRAMS_PER_BYTE = (0.3 * 494) / 1e9;
+
+describe('estimateCo2', () => {
+  it('uses the v4 energy and grid intensity figures', () => {
+    expect(estimateCo2(1e9)).toEqual({ grams: 148.2, rating: 'F' });
+    expect(estimateCo2(0)).toEqual({ grams: 0, rating: 'A+' });
+  });
+
+  it('rates a page at the top of each band and the next one a byte over', () => {
+    const bands: [string, number, string][] = [
+      ['A+', 0.04, 'A'],
+      ['A', 0.079, 'B'],
+      ['B', 0.145, 'C'],
+      ['C', 0.209, 'D'],
+      ['D', 0.278, 'E'],
+      ['E', 0.359, 'F'],
+    ];
+    for (const [rating, max, next] of bands) {
+      const bytes = Math.floor(max / GRAMS_PER_BYTE);
+      expect(estimateCo2(bytes).rating, `${bytes} bytes`).toBe(rating);
+      expect(estimateCo2(bytes + 1).rating, `${bytes + 1} bytes`).toBe(next);
+    }
+  });
+});
+
+describe('findResources', () => {
+  it('labels how each script and stylesheet loads', () => {
+    const $ = parseHtml(`<head>
+      <script src="/app.js"></script>
+      <script src="https://cdn.other.example/lib.js" defer></script>
+      <script type="application/ld+json">{}</script>
+      <link rel="stylesheet" href="/print.css" media="print">
+      <link rel="stylesheet" href="/main.css">
+      <link rel="preload" as="font" href="/font.woff2" crossorigin>
+    </head><body><script type="module" src="/module.js"></script></body>`);
+    expect(findResources($, 'https://www.shop.example/').map(resource => [resource.url, resource.loading, resource.blocking, resource.thirdParty])).toEqual([
+      ['https://www.shop.example/app.js', 'sync', true, false],
+      ['https://cdn.other.example/lib.js', 'defer', false, true],
+      ['https://www.shop.example/print.css', 'sync', false, false],
+      ['https://www.shop.example/main.css', 'sync', true, false],
+      ['https://www.shop.example/font.woff2', 'preload', false, false],
+      ['https://www.shop.example/module.js', 'module', false, false],
+    ]);
+  });
+});
+
+describe('analyzeResources', () => {
+  let server: Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      const css: Record<string, string> = {
+        '/main.css': '@import url("/base.css"); body { color: #222 }',
+        '/base.css': '@font-face { font-family: Brand; src: url("/brand.woff2") format("woff2") }',
+      };
+      if (css[request.url!]) {
+        response.writeHead(200, { 'Content-Type': 'text/css' });
+        response.end(css[request.url!]);
+      } else if (request.url === '/brand.woff2') {
+        response.writeHead(200, { 'Content-Type': 'font/woff2', 'Content-Length': '20000' });
+        response.end(Buffer.alloc(20000));
+      } else {
+        // Streamed without a Content-Length and never ending on its own
+        response.writeHead(200, { 'Content-Type': 'text/javascript' });
+        const chunk = Buffer.alloc(1024 * 1024);
+        const timer = setInterval(() => response.write(chunk), 1);
+        response.on('close', () => clearInterval(timer));
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    return new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('follows @imports to fonts and stops reading an endless script at the cap', async () => {
+    const $ = parseHtml('<head><link rel="stylesheet" href="/main.css"><script src="/endless.js" async></script></head>');
+    const analysis = await analyzeResources($, `${origin}/`, 1000, []);
+
+    expect(analysis.items.map(item => [item.url?.replace(origin, ''), item.type, item.importedBy?.replace(origin, '')])).toEqual([
+      ['/main.css', 'css', undefined],
+      ['/base.css', 'css', '/main.css'],
+      ['/endless.js', 'js', undefined],
+      ['/brand.woff2', 'font', undefined],
+    ]);
+    expect(analysis.weight.js).toBe(10 * 1024 * 1024);
+    expect(analysis.weight.font).toBe(20000);
+    expect(analysis.issues).toEqual([
+      '2 render-blocking stylesheet(s) in the <head>',
+      `${origin}/main.css @imports ${origin}/base.css, adding a round trip before first paint`,
+    ]);
+  });
+});
@@ -0,0 +1,284 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult, ImageItem, PageResource, ResourceType } from '@/types/analysis';
+import { fetchWithTimeout, mapWithConcurrency, readCapped } from './fetch';
+import { resolveUrl, attrTokens, ElementNode } from './extract';
+
+type ResourceAnalysis = NonNullable<AnalysisResult['resources']>;
+const MAX_RESOURCES_FETCHED = 60;
+const MAX_FONTS_FETCHED = 10;
+const RESOURCE_CONCURRENCY = 6;
+const RESOURCE_TIMEOUT = 10000;
+// Stop reading after this much; anything bigger is already far over budget
+const MAX_RESOURCE_BYTES = 10 * 1024 * 1024;
+
+// Sustainable Web Design model v4: energy per GB transferred, operational plus
+// embodied, across data centres (0.055 + 0.012), networks (0.059 + 0.013) and
+// user devices (0.080 + 0.081), at the global average grid intensity
+const KWH_PER_GB = 0.3;
+const GRID_GRAMS_PER_KWH = 494;
+
+// Website Carbon's rating bands for the v4 model, upper bounds in grams per view
+const CO2_RATINGS: [string, number][] = [
+  ['A+', 0.04],
+  ['A', 0.079],
+  ['B', 0.145],
+  ['C', 0.209],
+  ['D', 0.278],
+  ['E', 0.359],
+];
+
+// The first url() in each @font-face src, which is the one a modern browser picks
+const FONT_FACE = /@font-face\s*{[^}]*?src\s*:[^;}]*?url\(\s*['"]?([^'")]+)['"]?\s*\)/gi;
+const CSS_IMPORT = /@import\s+(?:url\(\s*)?['"]?([^'")\s;]+)['"]?\s*\)?[^;]*;/gi;
+
+// Same site when the hosts match once www. is dropped, or one is a subdomain of the other
+function isThirdParty(url: string, pageUrl: string): boolean {
+  const host = (value: string) => new URL(value).hostname.toLowerCase().replace(/^www\./, '');
+  const resource = host(url);
+  const page = host(pageUrl);
+  return !(resource === page || resource.endsWith(`.${page}`) || page.endsWith(`.${resource}`));
+}
+
+// Print stylesheets, and the media="print" onload swap, don't hold up the first paint;
+// media queries are assumed to match, as there's no viewport to test them against
+function isBlockingMedia(media: string | undefined): boolean {
+  const value = (media || '').trim().toLowerCase();
+  return value === '' || value === 'all' || value.includes('screen') || value.startsWith('(');
+}
+
+function scriptLoading($: CheerioAPI, el: ElementNode): PageResource['loading'] {
+  const script = $(el);
+  if (script.attr('type')?.toLowerCase() === 'module') return script.attr('async') !== undefined ? 'async' : 'module';
+  if (script.attr('async') !== undefined) return 'async';
+  if (script.attr('defer') !== undefined) return 'defer';
+  return 'sync';
+}
+
+function preloadType(as: string | undefined): ResourceType {
+  switch ((as || '').toLowerCase()) {
+    case 'script':
+      return 'js';
+    case 'style':
+      return 'css';
+    case 'font':
+      return 'font';
+    case 'image':
+      return 'image';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Every script, stylesheet and preload on the page in document order, labelled
+ * with how it loads
+ */
+export function findResources($: CheerioAPI, pageUrl: string): PageResource[] {
+  const resources: PageResource[] = [];
+  const executable = (type: string | undefined) => !type || /^(module|(text|application)\/(javascript|ecmascript))$/i.test(type);
+
+  $('script, style, link[rel][href]').each((_, el) => {
+    const element = $(el);
+    const inHead = element.parents('head').length > 0;
+    const tag = String(element.prop('tagName')).toLowerCase();
+
+    if (tag === 'script') {
+      // JSON-LD, templates and the like never run
+      if (!executable(element.attr('type'))) return;
+      const src = element.attr('src');
+      const url = src ? resolveUrl(src, pageUrl) : undefined;
+      if (src && !url) return;
+      const loading = url ? scriptLoading($, el) : 'inline';
+      resources.push({
+        url,
+        type: 'js',
+        loading,
+        inHead,
+        // Inline scripts block too, but cost no request, so only external ones are flagged
+        blocking: inHead && loading === 'sync',
+        thirdParty: !!url && isThirdParty(url, pageUrl),
+        bytes: url ? undefined : Buffer.byteLength(element.html() || ''),
+      });
+      return;
+    }
+
+    if (tag === 'style') {
+      resources.push({ type: 'css', loading: 'inline', inHead, blocking: false, thirdParty: false, bytes: Buffer.byteLength(element.html() || '') });
+      return;
+    }
+
+    const rel = attrTokens(element.attr('rel'));
+    const url = resolveUrl(element.attr('href') || '', pageUrl);
+    if (!url || !url.startsWith('http')) return;
+
+    if (rel.includes('stylesheet') && !rel.includes('alternate')) {
+      resources.push({
+        url,
+        type: 'css',
+        loading: 'sync',
+        inHead,
+        blocking: inHead && isBlockingMedia(element.attr('media')),
+        thirdParty: isThirdParty(url, pageUrl),
+      });
+    } else if (rel.includes('preload') || rel.includes('modulepreload')) {
+      const type = rel.includes('modulepreload') ? 'js' : preloadType(element.attr('as'));
+      // Images are weighed with the rest of the page's images
+      if (type === 'image') return;
+      resources.push({ url, type, loading: 'preload', inHead, blocking: false, thirdParty: isThirdParty(url, pageUrl) });
+    }
+  });
+
+  return resources;
+}
+
+/**
+ * Estimate of the CO₂ emitted per page view using the Sustainable Web Design model
+ */
+export function estimateCo2(bytes: number): { grams: number; rating: string } {
+  const grams = (bytes / 1e9) * KWH_PER_GB * GRID_GRAMS_PER_KWH;
+  const rating = CO2_RATINGS.find(([, max]) => grams <= max)?.[0] || 'F';
+  return { grams: Math.round(grams * 1000) / 1000, rating };
+}
+
+interface FetchedResource {
+  statusCode?: number;
+  bytes?: number;
+  timeMs?: number;
+  text?: string;
+  error?: string;
+}
+
+// Transfer size: the compressed Content-Length when sent, else the decoded body
+// up to the cap. Only stylesheets are kept as text, for their @imports and fonts.
+async function fetchResource(url: string, keepText: boolean): Promise<FetchedResource> {
+  const start = performance.now();
+  try {
+    const response = await fetchWithTimeout(url, RESOURCE_TIMEOUT);
+    const body = await readCapped(response, MAX_RESOURCE_BYTES);
+    const declared = Number(response.headers.get('content-length'));
+    return {
+      statusCode: response.status,
+      bytes: declared > 0 ? declared : body.bytes.length,
+      timeMs: Math.round(performance.now() - start),
+      text: keepText && response.ok ? body.bytes.toString('utf8') : undefined,
+      error: response.ok ? undefined : `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Request failed' };
+  }
+}
+
+function cssUrls(css: string, pattern: RegExp, baseUrl: string): string[] {
+  return [...css.matchAll(pattern)]
+    .map(match => resolveUrl(match[1], baseUrl))
+    .filter((url): url is string => !!url && url.startsWith('http'));
+}
+
+/**
+ * Inventory the page's scripts, stylesheets and fonts, fetch each for its size,
+ * and total the page weight by type with a CO₂ estimate per view
+ */
+export async function analyzeResources(
+  $: CheerioAPI,
+  pageUrl: string,
+  htmlBytes: number,
+  images: ImageItem[]
+): Promise<ResourceAnalysis> {
+  const found = findResources($, pageUrl);
+  const fetches = new Map<string, Promise<FetchedResource>>();
+  const fetchOnce = (url: string, keepText: boolean) => {
+    if (!fetches.has(url)) fetches.set(url, fetchResource(url, keepText));
+    return fetches.get(url)!;
+  };
+
+  const external = found.filter(resource => resource.url);
+  await mapWithConcurrency(external.slice(0, MAX_RESOURCES_FETCHED), RESOURCE_CONCURRENCY, async resource => {
+    const fetched = await fetchOnce(resource.url!, resource.type === 'css');
+    Object.assign(resource, { statusCode: fetched.statusCode, bytes: fetched.bytes, timeMs: fetched.timeMs, error: fetched.error });
+  });
+
+  // @imports are fetched one after another once their parent arrives, lengthening the chain
+  const items: PageResource[] = [];
+  const fontUrls = new Set(found.filter(resource => resource.type === 'font').map(resource => resource.url!));
+  $('style').each((_, el) => cssUrls($(el).html() || '', FONT_FACE, pageUrl).forEach(url => fontUrls.add(url)));
+
+  for (const resource of found) {
+    items.push(resource);
+    if (resource.type !== 'css' || resource.loading === 'preload' || !resource.url || !fetches.has(resource.url)) continue;
+    const css = (await fetches.get(resource.url)!).text || '';
+    cssUrls(css, FONT_FACE, resource.url).forEach(url => fontUrls.add(url));
+
+    for (const url of cssUrls(css, CSS_IMPORT, resource.url)) {
+      const fetched = await fetchOnce(url, true);
+      items.push({
+        url,
+        type: 'css',
+        loading: 'sync',
+        inHead: resource.inHead,
+        blocking: resource.blocking,
+        thirdParty: isThirdParty(url, pageUrl),
+        importedBy: resource.url,
+        statusCode: fetched.statusCode,
+        bytes: fetched.bytes,
+        timeMs: fetched.timeMs,
+        error: fetched.error,
+      });
+      cssUrls(fetched.text || '', FONT_FACE, url).forEach(fontUrl => fontUrls.add(fontUrl));
+    }
+  }
+
+  // Fonts referenced from CSS rather than preloaded
+  const preloaded = new Set(items.filter(item => item.type === 'font').map(item => item.url));
+  const fonts = [...fontUrls].filter(url => !preloaded.has(url)).slice(0, MAX_FONTS_FETCHED);
+  const fetchedFonts = await mapWithConcurrency(fonts, RESOURCE_CONCURRENCY, url => fetchOnce(url, false));
+  fonts.forEach((url, i) => {
+    const fetched = fetchedFonts[i];
+    items.push({
+      url,
+      type: 'font',
+      loading: 'sync',
+      inHead: false,
+      blocking: false,
+      thirdParty: isThirdParty(url, pageUrl),
+      statusCode: fetched.statusCode,
+      bytes: fetched.bytes,
+      timeMs: fetched.timeMs,
+      error: fetched.error,
+    });
+  });
+
+  // Each URL counts once, however many elements reference it
+  const weight: Record<ResourceType, number> = { html: htmlBytes, css: 0, js: 0, image: 0, font: 0, other: 0 };
+  let thirdPartyBytes = 0;
+  const counted = new Set<string>();
+  const weighed: { url?: string; type: ResourceType; bytes?: number; thirdParty: boolean }[] = [
+    ...items,
+    ...images.map(image => ({ url: image.url, type: 'image' as const, bytes: image.bytes, thirdParty: isThirdParty(image.url, pageUrl) })),
+  ];
+  for (const item of weighed) {
+    if (!item.bytes || (item.url && counted.has(item.url))) continue;
+    if (item.url) counted.add(item.url);
+    weight[item.type] += item.bytes;
+    if (item.thirdParty) thirdPartyBytes += item.bytes;
+  }
+  const totalBytes = Object.values(weight).reduce((sum, bytes) => sum + bytes, 0);
+  const co2 = estimateCo2(totalBytes);
+
+  const issues: string[] = [];
+  const blocking = items.filter(item => item.blocking);
+  const blockingScripts = blocking.filter(item => item.type === 'js').length;
+  const blockingStyles = blocking.filter(item => item.type === 'css').length;
+  if (blockingScripts > 0) issues.push(`${blockingScripts} render-blocking script(s) in the <head> without async or defer`);
+  if (blockingStyles > 0) issues.push(`${blockingStyles} render-blocking stylesheet(s) in the <head>`);
+  for (const item of items.filter(item => item.importedBy && item.blocking)) {
+    issues.push(`${item.importedBy} @imports ${item.url}, adding a round trip before first paint`);
+  }
+  for (const item of items.filter(item => item.error)) {
+    issues.push(`${item.url}: ${item.error}`);
+  }
+  if (external.length > MAX_RESOURCES_FETCHED) {
+    issues.push(`Only the first ${MAX_RESOURCES_FETCHED} scripts and stylesheets were fetched`);
+  }
+
+  return { items, weight, totalBytes, thirdPartyBytes, co2Grams: co2.grams, co2Rating: co2.rating, issues };
+}
@@ -0,0 +1,142 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fetchRobotsTxt, getCrawlerAccess, isAllowed, parseRobotsTxt } from './robots';
+
+const ROBOTS = `﻿User-agent: *
+Disallow: /admin/
+Allow: /admin/public/
+Disallow: /*.pdf$
+Disallow: /search?
+
+# Googlebot gets its own group, so the * rules don't apply to it
+User-agent: Googlebot
+User-agent: Googlebot-Image
+Disallow: /private
+
+User-agent: GPTBot
+Disallow: /
+
+User-agent: googlebot
+Allow: /private/press
+Crawl-delay: 10
+
+Sitemap: https://example.com/sitemap.xml
+Sitemap: /relative-sitemap.xml
+Noindex: /old
+Disalow: /typo
+no separator here
+`;
+
+describe('parseRobotsTxt', () => {
+  const robots = parseRobotsTxt(ROBOTS);
+
+  it('groups consecutive user-agent lines', () => {
+    expect(robots.groups.map(group => group.userAgents)).toEqual([
+      ['*'],
+      ['Googlebot', 'Googlebot-Image'],
+      ['GPTBot'],
+      ['googlebot'],
+    ]);
+    expect(robots.groups[0].rules.map(rule => `${rule.type} ${rule.path}`)).toEqual([
+      'disallow /admin/',
+      'allow /admin/public/',
+      'disallow /*.pdf$',
+      'disallow /search?',
+    ]);
+  });
+
+  it('keeps absolute sitemaps and reports the rest', () => {
+    expect(robots.sitemaps).toEqual(['https://example.com/sitemap.xml']);
+    expect(robots.errors.map(error => [error.line, error.message])).toEqual([
+      [20, 'Sitemap must be an absolute URL'],
+      [22, 'Unknown directive "disalow"'],
+      [23, 'Missing ":" separator'],
+    ]);
+  });
+
+  it('reports rules before any user-agent', () => {
+    expect(parseRobotsTxt('Disallow: /').errors[0].message).toBe('disallow rule before any user-agent line');
+  });
+
+  it('treats an empty disallow as allowing everything', () => {
+    const robots = parseRobotsTxt('User-agent: *\nDisallow:');
+    expect(robots.groups[0].rules).toEqual([]);
+    expect(isAllowed(robots, 'https://example.com/anything', 'Bingbot').allowed).toBe(true);
+  });
+});
+
+describe('isAllowed', () => {
+  const robots = parseRobotsTxt(ROBOTS);
+
+  it('applies the longest matching rule, with Allow winning a tie', () => {
+    expect(isAllowed(robots, 'https://example.com/admin/users', 'Bingbot').allowed).toBe(false);
+    expect(isAllowed(robots, 'https://example.com/admin/public/logo.png', 'Bingbot').allowed).toBe(true);
+    const tie = parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page');
+    expect(isAllowed(tie, 'https://example.com/page', 'Bingbot').allowed).toBe(true);
+  });
+
+  it('supports * wildcards and $ anchors', () => {
+    expect(isAllowed(robots, 'https://example.com/files/guide.pdf', 'Bingbot').allowed).toBe(false);
+    expect(isAllowed(robots, 'https://example.com/files/guide.pdf?download=1', 'Bingbot').allowed).toBe(true);
+    expect(isAllowed(robots, 'https://example.com/search?q=shoes', 'Bingbot').allowed).toBe(false);
+  });
+
+  it('merges every group for a product token and ignores * once one matches', () => {
+    const verdict = isAllowed(robots, 'https://example.com/admin/users', 'Googlebot/2.1 (+http://www.google.com/bot.html)');
+    expect(verdict).toMatchObject({ allowed: true, matchedAgent: 'Googlebot' });
+    expect(isAllowed(robots, 'https://example.com/private/notes', 'Googlebot').allowed).toBe(false);
+    expect(isAllowed(robots, 'https://example.com/private/press/launch', 'Googlebot').allowed).toBe(true);
+  });
+
+  it('always allows robots.txt itself', () => {
+    expect(isAllowed(robots, 'https://example.com/robots.txt', 'GPTBot').allowed).toBe(true);
+  });
+
+  it('compares percent-encoded and literal paths as the same path', () => {
+    const encoded = parseRobotsTxt('User-agent: *\nDisallow: /caf%C3%A9');
+    expect(isAllowed(encoded, 'https://example.com/café/menu', 'Bingbot').allowed).toBe(false);
+  });
+
+  it('reports each AI and search crawler', () => {
+    const access = getCrawlerAccess(robots, 'https://example.com/blog/');
+    expect(access.find(crawler => crawler.agent === 'GPTBot')).toMatchObject({ type: 'ai', allowed: false, rule: 'Disallow: / (line 13)' });
+    expect(access.find(crawler => crawler.agent === 'CCBot')).toMatchObject({ allowed: true, matchedAgent: '*' });
+  });
+});
+
+describe('fetchRobotsTxt', () => {
+  let server: Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    // The first path segment is the status robots.txt answers with
+    server = createServer((request, response) => {
+      const status = Number(request.url?.split('/')[1]);
+      response.writeHead(status, { 'Content-Type': 'text/plain' });
+      response.end(status === 200 ? 'User-agent: *\nDisallow: /private/\n' : 'Error');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('parses a robots.txt that is served', async () => {
+    const { statusCode, robots } = await fetchRobotsTxt(`${origin}/200`);
+    expect(statusCode).toBe(200);
+    expect(isAllowed(robots!, `${origin}/private/page`, 'Googlebot').allowed).toBe(false);
+  });
+
+  it('treats a 4xx as no robots.txt, allowing everything', async () => {
+    expect(await fetchRobotsTxt(`${origin}/404`)).toEqual({ statusCode: 404, robots: null });
+  });
+
+  it('treats a 5xx as unreachable, disallowing everything', async () => {
+    const { statusCode, robots } = await fetchRobotsTxt(`${origin}/503`);
+    expect(statusCode).toBe(503);
+    expect(robots?.unreachable).toBe(true);
+    expect(isAllowed(robots!, `${origin}/`, 'Googlebot')).toEqual({ allowed: false });
+    expect(getCrawlerAccess(robots!, `${origin}/`).every(crawler => !crawler.allowed && crawler.rule === 'robots.txt unreachable')).toBe(true);
+  });
+});
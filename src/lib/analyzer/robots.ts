@@ -0,0 +1,219 @@
+import { RobotsCrawlerAccess, RobotsParseError } from '@/types/analysis';
+import { fetchWithTimeout } from './fetch';
+
+export const AI_CRAWLERS = [
+  'GPTBot',
+  'ChatGPT-User',
+  'CCBot',
+  'anthropic-ai',
+  'Claude-Web',
+  'Bytespider',
+  'Diffbot',
+  'PerplexityBot',
+];
+
+export const SEARCH_CRAWLERS = ['Googlebot', 'Bingbot'];
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow';
+  path: string;
+  line: number;
+}
+
+export interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+}
+
+export interface ParsedRobotsTxt {
+  groups: RobotsGroup[];
+  sitemaps: string[];
+  errors: RobotsParseError[];
+  // A 5xx or no response, which RFC 9309 §2.3.1.4 treats as disallowing everything
+  unreachable?: boolean;
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  // The user-agent line that applied, or undefined when no group matched
+  matchedAgent?: string;
+  rule?: RobotsRule;
+}
+
+// Non-standard directives that are common enough not to report as errors
+const KNOWN_EXTENSIONS = ['crawl-delay', 'host', 'clean-param', 'noindex', 'request-rate', 'visit-time'];
+
+/**
+ * Parse robots.txt following RFC 9309
+ * Lines that can't be understood are skipped and reported in `errors`
+ */
+export function parseRobotsTxt(content: string): ParsedRobotsTxt {
+  const parsed: ParsedRobotsTxt = { groups: [], sitemaps: [], errors: [] };
+  let currentGroup: RobotsGroup | null = null;
+  let groupHasRules = false;
+
+  content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.replace(/#.*$/, '').trim();
+    if (!line) return;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      parsed.errors.push({ line: lineNumber, content: rawLine, message: 'Missing ":" separator' });
+      return;
+    }
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'user-agent': {
+        if (!value) {
+          parsed.errors.push({ line: lineNumber, content: rawLine, message: 'Empty user-agent' });
+          return;
+        }
+        // Consecutive user-agent lines share one group
+        if (!currentGroup || groupHasRules) {
+          currentGroup = { userAgents: [], rules: [] };
+          parsed.groups.push(currentGroup);
+          groupHasRules = false;
+        }
+        currentGroup.userAgents.push(value);
+        return;
+      }
+      case 'allow':
+      case 'disallow': {
+        if (!currentGroup) {
+          parsed.errors.push({ line: lineNumber, content: rawLine, message: `${key} rule before any user-agent line` });
+          return;
+        }
+        groupHasRules = true;
+        // An empty disallow means "allow everything" and matches nothing
+        if (!value) return;
+        if (!value.startsWith('/') && !value.startsWith('*')) {
+          parsed.errors.push({ line: lineNumber, content: rawLine, message: 'Path should start with "/" or "*"' });
+        }
+        currentGroup.rules.push({ type: key, path: value, line: lineNumber });
+        return;
+      }
+      case 'sitemap': {
+        try {
+          parsed.sitemaps.push(new URL(value).href);
+        } catch {
+          parsed.errors.push({ line: lineNumber, content: rawLine, message: 'Sitemap must be an absolute URL' });
+        }
+        return;
+      }
+      default: {
+        if (KNOWN_EXTENSIONS.includes(key)) return;
+        parsed.errors.push({ line: lineNumber, content: rawLine, message: `Unknown directive "${key}"` });
+      }
+    }
+  });
+
+  return parsed;
+}
+
+// "Googlebot/2.1 (+http://...)" -> "googlebot"
+function productToken(userAgent: string): string {
+  return (userAgent.match(/^[a-zA-Z_*-]+/)?.[0] || '').toLowerCase();
+}
+
+function patternToRegExp(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Compare paths in one encoding so "/caf%C3%A9" and "/café" are the same path
+function normalisePath(path: string): string {
+  try {
+    return encodeURI(decodeURI(path));
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Decide whether `userAgent` may crawl `url`
+ * Groups for the agent's product token are merged; `*` groups apply only when none match.
+ * The longest matching rule wins and Allow wins a tie.
+ */
+export function isAllowed(robots: ParsedRobotsTxt, url: string, userAgent: string): RobotsVerdict {
+  const { pathname, search } = new URL(url, 'http://robots.invalid');
+  if (pathname === '/robots.txt') {
+    return { allowed: true };
+  }
+  if (robots.unreachable) {
+    return { allowed: false };
+  }
+  const target = normalisePath(pathname + search);
+
+  const token = productToken(userAgent);
+  let groups = robots.groups.filter(group => group.userAgents.some(agent => productToken(agent) === token));
+  let matchedAgent = groups.length > 0 ? groups[0].userAgents.find(agent => productToken(agent) === token) : undefined;
+  if (groups.length === 0) {
+    groups = robots.groups.filter(group => group.userAgents.some(agent => agent.trim() === '*'));
+    matchedAgent = groups.length > 0 ? '*' : undefined;
+  }
+
+  let bestRule: RobotsRule | undefined;
+  for (const rule of groups.flatMap(group => group.rules)) {
+    if (!patternToRegExp(normalisePath(rule.path)).test(target)) continue;
+    if (
+      !bestRule ||
+      rule.path.length > bestRule.path.length ||
+      (rule.path.length === bestRule.path.length && rule.type === 'allow')
+    ) {
+      bestRule = rule;
+    }
+  }
+
+  return {
+    allowed: !bestRule || bestRule.type === 'allow',
+    matchedAgent,
+    rule: bestRule,
+  };
+}
+
+/**
+ * Allow/deny verdict for every AI and search crawler we report on
+ */
+export function getCrawlerAccess(robots: ParsedRobotsTxt, url: string): RobotsCrawlerAccess[] {
+  return [...SEARCH_CRAWLERS, ...AI_CRAWLERS].map(agent => {
+    const verdict = isAllowed(robots, url, agent);
+    return {
+      agent,
+      type: SEARCH_CRAWLERS.includes(agent) ? 'search' : 'ai',
+      allowed: verdict.allowed,
+      matchedAgent: verdict.matchedAgent,
+      rule: verdict.rule
+        ? `${verdict.rule.type === 'allow' ? 'Allow' : 'Disallow'}: ${verdict.rule.path} (line ${verdict.rule.line})`
+        : robots.unreachable ? 'robots.txt unreachable' : undefined,
+    };
+  });
+}
+
+const UNREACHABLE: ParsedRobotsTxt = { groups: [], sitemaps: [], errors: [], unreachable: true };
+
+/**
+ * Fetch and parse the site's robots.txt
+ * `robots` is null when there isn't one (a 4xx), which allows everything, and
+ * `unreachable` when it answers 5xx or not at all, which disallows everything
+ */
+export async function fetchRobotsTxt(baseUrl: string): Promise<{ statusCode?: number; content?: string; robots: ParsedRobotsTxt | null }> {
+  try {
+    const response = await fetchWithTimeout(`${baseUrl}/robots.txt`, 5000);
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { statusCode: response.status, robots: response.status >= 500 ? UNREACHABLE : null };
+    }
+    const content = await response.text();
+    return { statusCode: response.status, content, robots: parseRobotsTxt(content) };
+  } catch {
+    return { robots: UNREACHABLE };
+  }
+}
@@ -0,0 +1,119 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { analyzeSitemaps, isValidLastmod, validateSitemapXml } from './sitemap';
+
+const SITEMAP_URL = 'https://example.com/sitemap.xml';
+
+describe('validateSitemapXml', () => {
+  it('lists locs and hreflang alternates from a valid urlset', () => {
+    const result = validateSitemapXml(`<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+        <url>
+          <loc> https://example.com/en/ </loc>
+          <lastmod>2024-03-01T10:00:00+00:00</lastmod>
+          <changefreq>weekly</changefreq>
+          <priority>0.8</priority>
+          <xhtml:link rel="alternate" hreflang="de" href="https://example.com/de/"/>
+        </url>
+        <url><loc>https://example.com/about?a=1&amp;b=2</loc></url>
+      </urlset>`, SITEMAP_URL);
+    expect(result.type).toBe('urlset');
+    expect(result.errors).toEqual([]);
+    expect(result.urlCount).toBe(2);
+    expect(result.locs).toEqual(['https://example.com/en/', 'https://example.com/about?a=1&b=2']);
+    expect(result.alternates).toEqual({
+      'https://example.com/en/': [{ hreflang: 'de', href: 'https://example.com/de/', source: 'sitemap' }],
+    });
+  });
+
+  it('reads a sitemap index without counting its URLs', () => {
+    const result = validateSitemapXml(`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+      <sitemap><loc>https://example.com/posts.xml</loc></sitemap>
+      <sitemap><loc>https://example.com/pages.xml.gz</loc></sitemap>
+    </sitemapindex>`, SITEMAP_URL);
+    expect(result).toMatchObject({ type: 'sitemapindex', urlCount: 0, errors: [] });
+    expect(result.locs).toEqual(['https://example.com/posts.xml', 'https://example.com/pages.xml.gz']);
+  });
+
+  it('reports protocol violations per entry', () => {
+    const result = validateSitemapXml(`<urlset>
+      <url><lastmod>2024-01-01</lastmod></url>
+      <url><loc>/relative</loc></url>
+      <url><loc>https://cdn.example.net/page</loc><lastmod>01/02/2024</lastmod></url>
+      <url><loc>https://example.com/a</loc><changefreq>sometimes</changefreq><priority>1.5</priority></url>
+    </urlset>`, SITEMAP_URL);
+    expect(result.errors).toEqual([
+      'Missing or incorrect namespace (expected xmlns="http://www.sitemaps.org/schemas/sitemap/0.9")',
+      '<url> #1 has no <loc>',
+      '<url> #2 <loc> "/relative" is not an absolute URL',
+      '<url> #3 <loc> https://cdn.example.net/page is on a different host to the sitemap',
+      '<url> #3 <lastmod> "01/02/2024" is not a valid W3C datetime (or is in the future)',
+      '<url> #4 <changefreq> "sometimes" is not a valid value',
+      '<url> #4 <priority> "1.5" must be between 0.0 and 1.0',
+    ]);
+  });
+
+  it('rejects HTML and other root elements', () => {
+    expect(validateSitemapXml('Not found', SITEMAP_URL).errors).toEqual(['Response is not XML']);
+    expect(validateSitemapXml('<!DOCTYPE html><html><body></body></html>', SITEMAP_URL)).toMatchObject({
+      type: 'unknown',
+      errors: ['Root element must be <urlset> or <sitemapindex>, found <html>'],
+    });
+  });
+});
+
+describe('isValidLastmod', () => {
+  it('accepts each W3C datetime precision', () => {
+    for (const value of ['2024', '2024-03', '2024-03-01', '2024-03-01T10:00Z', '2024-03-01T10:00:00.5+01:00']) {
+      expect(isValidLastmod(value), value).toBe(true);
+    }
+  });
+
+  it('rejects other formats, timestamps without a timezone and future dates', () => {
+    for (const value of ['2024-3-1', '2024-03-01 10:00', '2024-03-01T10:00:00', `${new Date().getFullYear() + 2}-01-01`]) {
+      expect(isValidLastmod(value), value).toBe(false);
+    }
+  });
+});
+
+describe('analyzeSitemaps', () => {
+  let server: Server;
+  let origin: string;
+  const requested: string[] = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      requested.push(request.url!);
+      if (request.url === '/sitemap.xml' || request.url === '/sitemap_index.xml') {
+        const loc = (path: string) => `<url><loc>${origin}${path}</loc></url>`;
+        response.writeHead(200, { 'Content-Type': 'application/xml' });
+        response.end(`<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${loc('/a')}${loc('/b')}${loc('/a')}</urlset>`);
+        return;
+      }
+      response.writeHead(404, { 'Content-Type': 'text/html' });
+      response.end('Not found');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('stops guessing locations once a default sitemap is found and counts each URL once', async () => {
+    requested.length = 0;
+    const { sitemap, pageUrls } = await analyzeSitemaps(origin, [], 0);
+    expect(requested).toEqual(['/sitemap.xml']);
+    expect(sitemap?.files?.map(file => file.url)).toEqual([`${origin}/sitemap.xml`]);
+    expect(sitemap?.totalUrls).toBe(2);
+    expect(pageUrls).toEqual([`${origin}/a`, `${origin}/b`]);
+  });
+
+  it('fetches only the sitemaps robots.txt declares', async () => {
+    requested.length = 0;
+    const { sitemap } = await analyzeSitemaps(origin, [`${origin}/sitemap_index.xml`, `${origin}/missing.xml`], 0);
+    expect(requested).toEqual(['/sitemap_index.xml', '/missing.xml']);
+    expect(sitemap?.exists).toBe(true);
+    expect(sitemap?.files?.find(file => file.url.endsWith('/missing.xml'))?.statusCode).toBe(404);
+  });
+});
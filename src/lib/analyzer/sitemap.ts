@@ -0,0 +1,318 @@
+import { gunzipSync } from 'zlib';
+import { load } from 'cheerio';
+import { SitemapFile, SitemapUrlCheck, AnalysisResult, HreflangLink } from '@/types/analysis';
+import { fetchWithTimeout, mapWithConcurrency, readCapped } from './fetch';
+import { parseHtml, extractTechnical } from './extract';
+import { isNoindexedByHeader } from './headers';
+
+// Limits from the sitemap protocol (sitemaps.org)
+const MAX_SITEMAP_URLS = 50000;
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+const MAX_LOC_LENGTH = 2048;
+
+const MAX_SITEMAPS_FETCHED = 25;
+const MAX_INDEX_DEPTH = 2;
+const MAX_ERRORS_PER_FILE = 20;
+const URL_SAMPLE_SIZE = 20;
+const SAMPLE_CONCURRENCY = 5;
+
+export const DEFAULT_SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/sitemap/sitemap.xml'];
+
+const SITEMAP_NAMESPACE = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+const CHANGEFREQ_VALUES = ['always', 'hourly', 'daily', 'weekly', 'monthly', 'yearly', 'never'];
+// W3C Datetime: YYYY, YYYY-MM, YYYY-MM-DD or a full timestamp with a timezone
+const W3C_DATETIME = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/;
+
+interface FetchedSitemap {
+  file: SitemapFile;
+  locs: string[];
+  alternates: Record<string, HreflangLink[]>;
+}
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length > 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+export function isValidLastmod(value: string): boolean {
+  if (!W3C_DATETIME.test(value)) return false;
+  const date = new Date(value.length === 7 ? `${value}-01` : value);
+  // Allow a day of clock skew before calling a date "in the future"
+  return !isNaN(date.getTime()) && date.getTime() <= Date.now() + 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Validate a sitemap or sitemap index document against the sitemap protocol
+ * Returns the <loc> values it lists, and any <xhtml:link> hreflang alternates per loc,
+ * alongside the validation errors
+ */
+export function validateSitemapXml(
+  xml: string,
+  sitemapUrl: string
+): Pick<SitemapFile, 'type' | 'urlCount' | 'errors'> & { locs: string[]; alternates: Record<string, HreflangLink[]> } {
+  const errors: string[] = [];
+  const addError = (message: string) => {
+    if (errors.length < MAX_ERRORS_PER_FILE) errors.push(message);
+  };
+
+  if (!xml.trimStart().startsWith('<')) {
+    return { type: 'unknown', urlCount: 0, errors: ['Response is not XML'], locs: [], alternates: {} };
+  }
+
+  const $ = load(xml, { xml: true });
+  const root = $.root().children().filter((_, el) => el.type === 'tag').first();
+  const rootName = root.length ? root.prop('tagName')?.toLowerCase() : undefined;
+  const type: SitemapFile['type'] = rootName === 'urlset' ? 'urlset' : rootName === 'sitemapindex' ? 'sitemapindex' : 'unknown';
+
+  if (type === 'unknown') {
+    return { type, urlCount: 0, errors: [`Root element must be <urlset> or <sitemapindex>, found <${rootName || 'none'}>`], locs: [], alternates: {} };
+  }
+  if (root.attr('xmlns') !== SITEMAP_NAMESPACE) {
+    addError(`Missing or incorrect namespace (expected xmlns="${SITEMAP_NAMESPACE}")`);
+  }
+
+  const entryName = type === 'urlset' ? 'url' : 'sitemap';
+  const entries = root.children(entryName);
+  const sitemapHost = new URL(sitemapUrl).host;
+  const locs: string[] = [];
+  const alternates: Record<string, HreflangLink[]> = {};
+
+  if (entries.length > MAX_SITEMAP_URLS) {
+    addError(`Lists ${entries.length} entries - the limit is ${MAX_SITEMAP_URLS}`);
+  }
+
+  entries.each((index, el) => {
+    const entry = $(el);
+    const position = `<${entryName}> #${index + 1}`;
+    const loc = entry.children('loc').first().text().trim();
+
+    if (!loc) {
+      addError(`${position} has no <loc>`);
+      return;
+    }
+    if (loc.length > MAX_LOC_LENGTH) {
+      addError(`${position} <loc> is longer than ${MAX_LOC_LENGTH} characters`);
+    }
+    try {
+      const locUrl = new URL(loc);
+      if (locUrl.host !== sitemapHost) {
+        addError(`${position} <loc> ${loc} is on a different host to the sitemap`);
+      }
+      locs.push(locUrl.href);
+
+      const links = entry.children().filter((_, child) => /^(xhtml:)?link$/i.test($(child).prop('tagName') || ''));
+      links.each((_, link) => {
+        const hreflang = $(link).attr('hreflang');
+        const href = $(link).attr('href');
+        if ($(link).attr('rel') === 'alternate' && hreflang && href) {
+          (alternates[locUrl.href] ||= []).push({ hreflang, href, source: 'sitemap' });
+        }
+      });
+    } catch {
+      addError(`${position} <loc> "${loc}" is not an absolute URL`);
+    }
+
+    const lastmod = entry.children('lastmod').first().text().trim();
+    if (lastmod && !isValidLastmod(lastmod)) {
+      addError(`${position} <lastmod> "${lastmod}" is not a valid W3C datetime (or is in the future)`);
+    }
+
+    if (type === 'urlset') {
+      const changefreq = entry.children('changefreq').first().text().trim();
+      if (changefreq && !CHANGEFREQ_VALUES.includes(changefreq.toLowerCase())) {
+        addError(`${position} <changefreq> "${changefreq}" is not a valid value`);
+      }
+      const priority = entry.children('priority').first().text().trim();
+      if (priority && !(Number(priority) >= 0 && Number(priority) <= 1)) {
+        addError(`${position} <priority> "${priority}" must be between 0.0 and 1.0`);
+      }
+    }
+  });
+
+  return { type, urlCount: type === 'urlset' ? locs.length : 0, errors, locs, alternates };
+}
+
+async function fetchSitemap(url: string, source: SitemapFile['source']): Promise<FetchedSitemap | null> {
+  const file: SitemapFile = { url, source, type: 'unknown', gzipped: false, urlCount: 0, errors: [] };
+
+  let response: Response;
+  try {
+    response = await fetchWithTimeout(url, 15000);
+  } catch (error) {
+    file.errors.push(error instanceof Error ? error.message : 'Failed to fetch sitemap');
+    return { file, locs: [], alternates: {} };
+  }
+
+  file.statusCode = response.status;
+  if (!response.ok) {
+    // Guessed locations that don't exist aren't worth reporting
+    if (source === 'default-location') return null;
+    file.errors.push(`Returned HTTP ${response.status}`);
+    return { file, locs: [], alternates: {} };
+  }
+
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > MAX_SITEMAP_BYTES) {
+    file.sizeBytes = declaredLength;
+    file.errors.push(`File is ${(declaredLength / 1024 / 1024).toFixed(1)}MB - the limit is 50MB uncompressed`);
+    return { file, locs: [], alternates: {} };
+  }
+
+  // A missing or wrong Content-Length can't make us buffer more than the limit
+  const body = await readCapped(response, MAX_SITEMAP_BYTES);
+  if (body.truncated) {
+    file.errors.push('File is larger than the 50MB limit');
+    return { file, locs: [], alternates: {} };
+  }
+  let bytes = new Uint8Array(body.bytes);
+  // fetch already decodes Content-Encoding; this catches .xml.gz files served as-is
+  if (isGzip(bytes)) {
+    file.gzipped = true;
+    try {
+      bytes = new Uint8Array(gunzipSync(bytes, { maxOutputLength: MAX_SITEMAP_BYTES + 1 }));
+    } catch {
+      file.errors.push('Could not decompress gzipped sitemap (corrupt or larger than 50MB)');
+      return { file, locs: [], alternates: {} };
+    }
+  }
+
+  file.sizeBytes = bytes.length;
+  if (bytes.length > MAX_SITEMAP_BYTES) {
+    file.errors.push('File is larger than the 50MB uncompressed limit');
+  }
+
+  const xml = new TextDecoder().decode(bytes);
+  const validation = validateSitemapXml(xml, url);
+  // A default location that serves an HTML page (e.g. a soft 404) isn't a sitemap
+  if (source === 'default-location' && validation.type === 'unknown') return null;
+
+  file.type = validation.type;
+  file.urlCount = validation.urlCount;
+  file.errors.push(...validation.errors);
+  if (validation.type === 'sitemapindex') {
+    file.children = validation.locs;
+  }
+
+  return { file, locs: validation.locs, alternates: validation.alternates };
+}
+
+// Pick evenly spaced URLs so the sample covers the whole sitemap, not just its head
+function sampleUrls(urls: string[], size: number): string[] {
+  if (urls.length <= size) return urls;
+  const step = urls.length / size;
+  return Array.from({ length: size }, (_, i) => urls[Math.floor(i * step)]);
+}
+
+async function checkSitemapUrl(url: string): Promise<SitemapUrlCheck> {
+  const check: SitemapUrlCheck = { url, noindex: false, issues: [] };
+
+  try {
+    const response = await fetchWithTimeout(url, 10000, { redirect: 'manual' });
+    check.statusCode = response.status;
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get('location');
+      check.redirectsTo = location ? new URL(location, url).href : undefined;
+      check.issues.push(`Redirects (${response.status})${check.redirectsTo ? ` to ${check.redirectsTo}` : ''}`);
+      return check;
+    }
+    if (response.status !== 200) {
+      check.issues.push(`Returns HTTP ${response.status}`);
+      return check;
+    }
+
+    const headerNoindex = isNoindexedByHeader(response.headers.get('x-robots-tag'));
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('html')) {
+      const technical = extractTechnical(parseHtml(await response.text()), url);
+      check.noindex = technical.hasNoindex || headerNoindex;
+      check.canonicalUrl = technical.canonicalUrl;
+    } else {
+      check.noindex = headerNoindex;
+    }
+
+    if (check.noindex) {
+      check.issues.push('Noindexed');
+    }
+    if (check.canonicalUrl && check.canonicalUrl !== url) {
+      check.issues.push(`Canonicalises to ${check.canonicalUrl}`);
+    }
+  } catch (error) {
+    check.issues.push(error instanceof Error ? error.message : 'Request failed');
+  }
+
+  return check;
+}
+
+/**
+ * Find, fetch and validate the site's sitemaps, following sitemap indexes,
+ * then sample `sampleSize` listed URLs for errors, redirects, noindex and
+ * non-canonical entries
+ * Also returns every page URL listed, for comparison against a crawl, and the
+ * hreflang alternates declared for them
+ */
+export async function analyzeSitemaps(
+  baseUrl: string,
+  robotsSitemaps: string[],
+  sampleSize = URL_SAMPLE_SIZE
+): Promise<{ sitemap: AnalysisResult['sitemap']; pageUrls: string[]; hreflang: Record<string, HreflangLink[]> }> {
+  const queue: { url: string; source: SitemapFile['source']; depth: number }[] = [
+    ...robotsSitemaps.map(url => ({ url, source: 'robots.txt' as const, depth: 0 })),
+  ];
+  // Only guess locations when robots.txt doesn't declare any
+  if (queue.length === 0) {
+    queue.push(...DEFAULT_SITEMAP_PATHS.map(path => ({ url: `${baseUrl}${path}`, source: 'default-location' as const, depth: 0 })));
+  }
+
+  const files: SitemapFile[] = [];
+  const pageUrls: string[] = [];
+  const hreflang: Record<string, HreflangLink[]> = {};
+  const seen = new Set<string>();
+
+  while (queue.length > 0 && files.length < MAX_SITEMAPS_FETCHED) {
+    const { url, source, depth } = queue.shift()!;
+    if (seen.has(url)) continue;
+    // The guessed locations are alternatives, so stop at the first real sitemap
+    if (source === 'default-location' && files.some(file => file.source === 'default-location')) continue;
+    seen.add(url);
+
+    const fetched = await fetchSitemap(url, source);
+    if (!fetched) continue;
+    files.push(fetched.file);
+
+    if (fetched.file.type === 'sitemapindex') {
+      if (depth >= MAX_INDEX_DEPTH) {
+        fetched.file.errors.push('Sitemap indexes nested too deeply - child sitemaps not followed');
+        continue;
+      }
+      if (depth > 0) {
+        fetched.file.errors.push('Sitemap index listed inside another sitemap index');
+      }
+      queue.push(...fetched.locs.map(loc => ({ url: loc, source: 'sitemap-index' as const, depth: depth + 1 })));
+    } else if (fetched.file.type === 'urlset') {
+      pageUrls.push(...fetched.locs);
+      Object.assign(hreflang, fetched.alternates);
+    }
+  }
+
+  const found = files.find(file => file.type !== 'unknown' && file.statusCode === 200);
+  const uniqueUrls = [...new Set(pageUrls)];
+  const sampledUrls = await mapWithConcurrency(
+    sampleUrls(uniqueUrls, sampleSize),
+    SAMPLE_CONCURRENCY,
+    checkSitemapUrl
+  );
+
+  return {
+    sitemap: {
+      exists: !!found,
+      url: found?.url,
+      inRobotsTxt: robotsSitemaps.length > 0,
+      files,
+      totalUrls: uniqueUrls.length,
+      hreflangUrls: Object.keys(hreflang).length,
+      sampledUrls,
+    },
+    pageUrls: uniqueUrls,
+    hreflang,
+  };
+}
@@ -0,0 +1,120 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { analyzeSocialPreview, extractSocialTags } from './socialPreview';
+
+const uint32 = (value: number) => [value >>> 24, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+const pngHeader = (width: number, height: number) =>
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...uint32(13), 0x49, 0x48, 0x44, 0x52, ...uint32(width), ...uint32(height), 8, 6, 0, 0, 0]);
+
+describe('extractSocialTags', () => {
+  it('groups og:, article: and twitter: tags whichever attribute or order they use', () => {
+    const $ = parseHtml(`<head>
+      <meta property="og:title" content="Trail Runner 2">
+      <meta content="Grippy, light and waterproof" property="og:description">
+      <meta name="og:image" content="https://shop.example/share.png">
+      <meta property="OG:Image:Alt" content="Trail Runner 2 in red">
+      <meta property="og:image" content="https://shop.example/second.png">
+      <meta content="2024-05-01" property="article:published_time">
+      <meta property="twitter:card" content="summary_large_image">
+      <meta content="@stride" name="twitter:site">
+      <meta name="description" content="Not a social tag">
+    </head>`);
+
+    expect(extractSocialTags($)).toEqual({
+      openGraph: {
+        title: 'Trail Runner 2',
+        description: 'Grippy, light and waterproof',
+        image: 'https://shop.example/share.png',
+        'image:alt': 'Trail Runner 2 in red',
+      },
+      article: { published_time: '2024-05-01' },
+      twitter: { card: 'summary_large_image', site: '@stride' },
+    });
+  });
+});
+
+describe('analyzeSocialPreview', () => {
+  let server: Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.url === '/share.png' || request.url === '/square.png') {
+        const header = request.url === '/share.png' ? pngHeader(1200, 630) : pngHeader(400, 400);
+        response.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': String(header.length + 1024) });
+        response.write(header);
+        response.end(Buffer.alloc(1024));
+        return;
+      }
+      if (request.url === '/huge.png') {
+        // Streamed without a Content-Length and never ending on its own
+        response.writeHead(200, { 'Content-Type': 'image/png' });
+        response.write(pngHeader(1200, 630));
+        const chunk = Buffer.alloc(1024 * 1024);
+        const timer = setInterval(() => response.write(chunk), 1);
+        response.on('close', () => clearInterval(timer));
+        return;
+      }
+      response.writeHead(404);
+      response.end();
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    return new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  const page = (image: string, extra = '') => parseHtml(`<head>
+    <title>Trail Runner 2 | Stride</title>
+    <meta property="og:title" content="Trail Runner 2">
+    <meta property="og:description" content="Grippy, light and waterproof">
+    <meta property="og:image" content="${image}">
+    <meta property="og:image:alt" content="Trail Runner 2 in red">
+    <meta property="og:url" content="${origin}/products/trail-runner-2">
+    <meta property="og:type" content="product">
+    <meta property="og:site_name" content="Stride">
+    ${extra}
+  </head>`);
+
+  it('builds the card and passes a full-size share image', async () => {
+    const analysis = await analyzeSocialPreview(page(`${origin}/share.png`, '<meta name="twitter:card" content="summary_large_image">'), `${origin}/products/trail-runner-2`);
+
+    expect(analysis.card).toEqual({
+      title: 'Trail Runner 2',
+      description: 'Grippy, light and waterproof',
+      image: `${origin}/share.png`,
+      siteName: 'Stride',
+      domain: '127.0.0.1',
+      twitterCard: 'summary_large_image',
+    });
+    expect(analysis.image).toMatchObject({ statusCode: 200, format: 'png', width: 1200, height: 630, aspectRatio: 1.9, usable: true, issues: [] });
+    expect(analysis.missing).toEqual([]);
+    expect(analysis.issues).toEqual([]);
+  });
+
+  it('reports missing tags and a relative, small, square image', async () => {
+    const analysis = await analyzeSocialPreview(page('/square.png'), `${origin}/products/trail-runner-2`);
+
+    expect(analysis.missing).toEqual(['twitter:card']);
+    expect(analysis.image).toMatchObject({ url: `${origin}/square.png`, relative: true, usable: false });
+    expect(analysis.issues).toEqual([
+      'Missing twitter:card',
+      'Share image: Declared as a relative URL (/square.png); crawlers expect an absolute one',
+      'Share image: 400×400 is shown as a small thumbnail; use 1200×630',
+      'Share image: Aspect ratio 1:1 will be cropped to 1.91:1',
+    ]);
+  });
+
+  it('stops reading an endless image at 8MB and reports it as oversized', async () => {
+    const { image } = await analyzeSocialPreview(page(`${origin}/huge.png`), `${origin}/products/trail-runner-2`);
+
+    expect(image).toMatchObject({ statusCode: 200, format: 'png', width: 1200, height: 630, usable: false });
+    expect(image?.bytes).toBeUndefined();
+    expect(image?.issues).toEqual(["Over Facebook's 8MB limit"]);
+  });
+});
@@ -0,0 +1,144 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult, SocialImage } from '@/types/analysis';
+import { fetchWithTimeout, readCapped } from './fetch';
+import { normaliseText, resolveUrl } from './extract';
+import { readImageInfo } from './images';
+
+type SocialPreviewAnalysis = NonNullable<AnalysisResult['socialPreview']>;
+
+const REQUIRED_OG_TAGS = ['title', 'description', 'image', 'url', 'type'];
+// Facebook refuses anything bigger, and X stops at 5MB
+const MAX_OG_IMAGE_BYTES = 8 * 1024 * 1024;
+const MAX_TWITTER_IMAGE_BYTES = 5 * 1024 * 1024;
+// Facebook and LinkedIn crop large previews to 1.91:1, X to 2:1
+const RECOMMENDED_WIDTH = 1200;
+const RECOMMENDED_HEIGHT = 630;
+const PREVIEW_RATIO = 1.91;
+const RATIO_TOLERANCE = 0.1;
+// Below this Facebook shows a small thumbnail instead of the large card
+const MIN_LARGE_WIDTH = 600;
+const UNSUPPORTED_FORMATS = ['svg', 'avif'];
+
+/**
+ * og:*, article:* and twitter:* tags keyed without their prefix, e.g. og:image
+ * as openGraph.image. Repeated properties keep their first value.
+ */
+export function extractSocialTags($: CheerioAPI): Pick<SocialPreviewAnalysis, 'openGraph' | 'article' | 'twitter'> {
+  const tags: Pick<SocialPreviewAnalysis, 'openGraph' | 'article' | 'twitter'> = { openGraph: {}, article: {}, twitter: {} };
+  // Open Graph is specified with `property` and Twitter with `name`, but both turn up either way
+  $('meta[content]').each((_, el) => {
+    const key = ($(el).attr('property') || $(el).attr('name') || '').trim().toLowerCase();
+    const content = ($(el).attr('content') || '').trim();
+    const [prefix, ...rest] = key.split(':');
+    const name = rest.join(':');
+    const group = prefix === 'og' ? tags.openGraph : prefix === 'article' ? tags.article : prefix === 'twitter' ? tags.twitter : undefined;
+    if (group && name && !(name in group)) group[name] = content;
+  });
+  return tags;
+}
+
+async function checkImage(declaredUrl: string, pageUrl: string, twitterCard: string | undefined): Promise<SocialImage> {
+  const url = resolveUrl(declaredUrl, pageUrl) || declaredUrl;
+  const image: SocialImage = { url, declaredUrl, relative: !/^https?:\/\//i.test(declaredUrl), usable: false, issues: [] };
+  if (image.relative) image.issues.push(`Declared as a relative URL (${declaredUrl}); crawlers expect an absolute one`);
+  // Set when the body ran past the cap without a Content-Length to say by how much
+  let oversized = false;
+
+  try {
+    const response = await fetchWithTimeout(url);
+    image.statusCode = response.status;
+    image.contentType = response.headers.get('content-type')?.split(';')[0];
+    if (!response.ok) {
+      await response.body?.cancel();
+      image.issues.push(`Returns HTTP ${response.status}`);
+      return image;
+    }
+    const declaredLength = Number(response.headers.get('content-length')) || undefined;
+    if (declaredLength && declaredLength > MAX_OG_IMAGE_BYTES) {
+      await response.body?.cancel();
+      image.bytes = declaredLength;
+    } else {
+      // Past Facebook's limit the exact size no longer matters, and the header is all that's needed
+      const { bytes, truncated } = await readCapped(response, MAX_OG_IMAGE_BYTES);
+      const info = readImageInfo(bytes);
+      if (truncated) oversized = true;
+      else image.bytes = bytes.length;
+      image.format = info.format || image.contentType?.split('/')[1];
+      if (info.width && info.height) {
+        image.width = info.width;
+        image.height = info.height;
+        image.aspectRatio = Math.round((info.width / info.height) * 100) / 100;
+      }
+    }
+  } catch (error) {
+    image.error = error instanceof Error ? error.message : 'Request failed';
+    image.issues.push(`Couldn't be fetched: ${image.error}`);
+    return image;
+  }
+
+  image.usable = !image.relative && !oversized &&
+    !(image.bytes && image.bytes > MAX_TWITTER_IMAGE_BYTES) &&
+    !(image.format && UNSUPPORTED_FORMATS.includes(image.format)) &&
+    !(image.width && image.width < MIN_LARGE_WIDTH);
+  if (oversized) image.issues.push("Over Facebook's 8MB limit");
+  else if (image.bytes && image.bytes > MAX_OG_IMAGE_BYTES) image.issues.push(`${Math.round(image.bytes / 1024 / 1024)}MB - over Facebook's 8MB limit`);
+  else if (image.bytes && image.bytes > MAX_TWITTER_IMAGE_BYTES) image.issues.push(`${Math.round(image.bytes / 1024 / 1024)}MB - over X's 5MB limit`);
+  if (image.format && UNSUPPORTED_FORMATS.includes(image.format)) image.issues.push(`${image.format.toUpperCase()} isn't supported by Facebook, LinkedIn or X`);
+  if (image.width && image.height && image.aspectRatio) {
+    if (image.width < MIN_LARGE_WIDTH) {
+      image.issues.push(`${image.width}×${image.height} is shown as a small thumbnail; use ${RECOMMENDED_WIDTH}×${RECOMMENDED_HEIGHT}`);
+    } else if (image.width < RECOMMENDED_WIDTH || image.height < RECOMMENDED_HEIGHT) {
+      image.issues.push(`${image.width}×${image.height} is below the recommended ${RECOMMENDED_WIDTH}×${RECOMMENDED_HEIGHT}`);
+    }
+    if (Math.abs(image.aspectRatio - PREVIEW_RATIO) / PREVIEW_RATIO > RATIO_TOLERANCE) {
+      image.issues.push(`Aspect ratio ${image.aspectRatio}:1 will be cropped to ${PREVIEW_RATIO}:1${twitterCard === 'summary_large_image' ? ' (2:1 on X)' : ''}`);
+    }
+  }
+  return image;
+}
+
+/**
+ * Open Graph and Twitter Card tags on the audited page, what Facebook, LinkedIn
+ * and X would show for a shared link, and the share image fetched for its size
+ */
+export async function analyzeSocialPreview($: CheerioAPI, pageUrl: string): Promise<SocialPreviewAnalysis> {
+  const { openGraph, article, twitter } = extractSocialTags($);
+  const missing = [
+    ...REQUIRED_OG_TAGS.filter(tag => !openGraph[tag]).map(tag => `og:${tag}`),
+    ...(twitter.card ? [] : ['twitter:card']),
+  ];
+  const issues = missing.map(tag => `Missing ${tag}`);
+
+  // X falls back to og:* for everything but the card type; everyone falls back to the page itself
+  const title = twitter.title || openGraph.title || normaliseText($('title').first().text()) || undefined;
+  const description = twitter.description || openGraph.description || $('meta[name="description"]').attr('content')?.trim() || undefined;
+  const declaredImage = openGraph.image || openGraph['image:secure_url'] || openGraph['image:url'] || twitter.image || twitter['image:src'];
+  const canonicalUrl = resolveUrl(openGraph.url || pageUrl, pageUrl) || pageUrl;
+
+  if (twitter.card && !['summary', 'summary_large_image', 'app', 'player'].includes(twitter.card)) {
+    issues.push(`twitter:card "${twitter.card}" isn't a card type X recognises`);
+  }
+  if (openGraph.image && !openGraph['image:alt']) issues.push('og:image has no og:image:alt');
+  if (openGraph.type === 'article' && !article.published_time) issues.push('og:type is article but article:published_time is missing');
+  if (openGraph.url && !/^https?:\/\//i.test(openGraph.url)) issues.push(`og:url is relative (${openGraph.url})`);
+
+  const image = declaredImage ? await checkImage(declaredImage, pageUrl, twitter.card) : undefined;
+  if (image) issues.push(...image.issues.map(issue => `Share image: ${issue}`));
+
+  return {
+    openGraph,
+    article,
+    twitter,
+    card: {
+      title,
+      description,
+      image: image?.url,
+      siteName: openGraph.site_name,
+      domain: new URL(canonicalUrl).hostname.replace(/^www\./, ''),
+      twitterCard: twitter.card,
+    },
+    missing,
+    image,
+    issues,
+  };
+}
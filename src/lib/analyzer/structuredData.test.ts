@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { parseHtml } from './extract';
+import { analyzeStructuredData, findEntities, findSameAs, summariseSchema } from './structuredData';
+
+const PAGE_URL = 'https://example.com/';
+
+function structuredDataFor(...nodes: object[]) {
+  const scripts = nodes.map(node => `<script type="application/ld+json">${JSON.stringify(node)}</script>`).join('');
+  return analyzeStructuredData(parseHtml(`<html><head>${scripts}</head><body></body></html>`), PAGE_URL);
+}
+
+describe('analyzeStructuredData', () => {
+  it('collects types from @graph, type arrays and microdata, skipping invalid JSON-LD', () => {
+    const structuredData = analyzeStructuredData(parseHtml(`
+      <script type="application/ld+json">{"@context":"https://schema.org","@graph":[{"@type":"Organization","name":"Example","url":"${PAGE_URL}"},{"@type":["Person","Author"],"name":"Sam"}]}</script>
+      <script type="Application/LD+JSON">[{"@type":"FAQPage"}]</script>
+      <script type="application/ld+json">{ not json</script>
+      <div itemscope itemtype="https://schema.org/BreadcrumbList"></div>`), PAGE_URL);
+
+    expect(structuredData.errors).toHaveLength(1);
+    expect(summariseSchema(structuredData)).toMatchObject({
+      hasOrganization: true,
+      hasPerson: true,
+      hasFAQ: true,
+      hasArticle: false,
+      hasBreadcrumb: true,
+    });
+  });
+
+  it('reports missing required properties by path', () => {
+    const structuredData = analyzeStructuredData(parseHtml(`<script type="application/ld+json">
+      {"@context":"https://schema.org","@type":"Product","name":"Shoe","offers":{"@type":"Offer","price":"80"}}
+    </script>`), PAGE_URL);
+
+    expect(structuredData.validations).toMatchObject([
+      { type: 'Product', missingRequired: ['offers.priceCurrency or priceSpecification'] },
+    ]);
+  });
+});
+
+describe('schema subtypes', () => {
+  it('counts a LocalBusiness subtype as a LocalBusiness and an Organization', () => {
+    const structuredData = structuredDataFor({
+      '@context': 'https://schema.org',
+      '@type': 'Restaurant',
+      name: 'Cafe Example',
+      address: { '@type': 'PostalAddress', streetAddress: '1 High Street' },
+      sameAs: ['https://www.facebook.com/cafeexample'],
+    });
+
+    expect(summariseSchema(structuredData)).toMatchObject({ hasOrganization: true, hasLocalBusiness: true, hasProduct: false });
+    expect(findEntities(structuredData.entities, 'Organization')).toHaveLength(1);
+    expect(findSameAs(structuredData.entities)).toEqual(['https://www.facebook.com/cafeexample']);
+    expect(structuredData.validations.map(validation => [validation.type, validation.missingRequired])).toEqual([
+      ['LocalBusiness', []],
+    ]);
+  });
+
+  it("doesn't count an Organization as a LocalBusiness", () => {
+    const structuredData = structuredDataFor({ '@context': 'https://schema.org', '@type': 'Corporation', name: 'Example', url: PAGE_URL });
+
+    expect(summariseSchema(structuredData)).toMatchObject({ hasOrganization: true, hasLocalBusiness: false });
+    expect(structuredData.validations.map(validation => validation.type)).toEqual(['Organization']);
+  });
+});
@@ -0,0 +1,324 @@
+import { CheerioAPI } from 'cheerio';
+import { AnalysisResult, StructuredDataEntity, StructuredDataValidation } from '@/types/analysis';
+import { resolveUrl, normaliseText, ElementNode } from './extract';
+
+type StructuredData = NonNullable<AnalysisResult['structuredData']>;
+// cheerio doesn't re-export domhandler's node type
+interface PropertyRules {
+  // Each entry is a property name, or alternatives separated by '|'
+  required: string[];
+  recommended: string[];
+  // Child entities to validate, with the type to assume when they don't declare one
+  nested?: Record<string, string>;
+}
+
+// Based on Google's rich result requirements, plus what we expect of a well-marked-up site
+const RULES: Record<string, PropertyRules> = {
+  Organization: { required: ['name', 'url'], recommended: ['logo', 'sameAs', 'contactPoint', 'address'] },
+  Person: { required: ['name'], recommended: ['url', 'image', 'jobTitle', 'sameAs', 'description'] },
+  Product: {
+    required: ['name', 'offers|review|aggregateRating'],
+    recommended: ['image', 'description', 'brand', 'sku', 'gtin|gtin8|gtin12|gtin13|gtin14|mpn', 'offers', 'aggregateRating'],
+    nested: { offers: 'Offer', aggregateRating: 'AggregateRating' },
+  },
+  Offer: {
+    required: ['price|priceSpecification', 'priceCurrency|priceSpecification'],
+    recommended: ['availability', 'url', 'priceValidUntil', 'itemCondition'],
+  },
+  AggregateOffer: { required: ['lowPrice', 'priceCurrency'], recommended: ['highPrice', 'offerCount'] },
+  AggregateRating: { required: ['ratingValue', 'ratingCount|reviewCount'], recommended: ['bestRating', 'worstRating'] },
+  LocalBusiness: {
+    required: ['name', 'address'],
+    recommended: ['telephone', 'url', 'geo', 'openingHoursSpecification|openingHours', 'image', 'priceRange'],
+    nested: { address: 'PostalAddress' },
+  },
+  PostalAddress: { required: [], recommended: ['streetAddress', 'addressLocality', 'postalCode', 'addressCountry'] },
+  FAQPage: { required: ['mainEntity'], recommended: [], nested: { mainEntity: 'Question' } },
+  Question: { required: ['name', 'acceptedAnswer'], recommended: [], nested: { acceptedAnswer: 'Answer' } },
+  Answer: { required: ['text'], recommended: [] },
+  BreadcrumbList: { required: ['itemListElement'], recommended: [], nested: { itemListElement: 'ListItem' } },
+  ListItem: { required: ['position', 'name|item'], recommended: ['item'] },
+  Article: { required: ['headline'], recommended: ['image', 'datePublished', 'dateModified', 'author', 'publisher'] },
+};
+
+// Types reported on their own; the rest are only validated inside their parent
+const TOP_LEVEL_TYPES = ['Organization', 'Person', 'Product', 'LocalBusiness', 'FAQPage', 'BreadcrumbList', 'Article'];
+
+// Common schema.org subtypes mapped to their parent; those without rules of their
+// own are validated against their nearest ancestor's
+const SUBTYPES: Record<string, string> = {
+  ...Object.fromEntries(
+    ['NewsArticle', 'BlogPosting', 'TechArticle', 'ScholarlyArticle', 'Report', 'SocialMediaPosting', 'LiveBlogPosting']
+      .map(type => [type, 'Article'])
+  ),
+  ...Object.fromEntries(
+    ['Corporation', 'NGO', 'OnlineStore', 'OnlineBusiness', 'EducationalOrganization', 'GovernmentOrganization',
+      'NewsMediaOrganization', 'MedicalOrganization', 'SportsOrganization'].map(type => [type, 'Organization'])
+  ),
+  ...Object.fromEntries(
+    ['Store', 'Restaurant', 'FoodEstablishment', 'CafeOrCoffeeShop', 'Bakery', 'BarOrPub', 'Dentist', 'Physician',
+      'MedicalBusiness', 'LegalService', 'Attorney', 'RealEstateAgent', 'AutomotiveBusiness', 'AutoRepair',
+      'HealthAndBeautyBusiness', 'HairSalon', 'BeautySalon', 'HomeAndConstructionBusiness', 'Plumber', 'Electrician',
+      'ProfessionalService', 'FinancialService', 'LodgingBusiness', 'Hotel', 'SportsActivityLocation',
+      'ClothingStore', 'ElectronicsStore', 'FurnitureStore', 'GroceryStore', 'HardwareStore'].map(type => [type, 'LocalBusiness'])
+  ),
+  LocalBusiness: 'Organization',
+  ProductGroup: 'Product',
+  IndividualProduct: 'Product',
+};
+
+// Whether `type` is `ancestor` or descends from it, e.g. Restaurant → LocalBusiness → Organization
+function isSubtype(type: string, ancestor: string): boolean {
+  for (let current: string | undefined = type; current; current = SUBTYPES[current]) {
+    if (current === ancestor) return true;
+  }
+  return false;
+}
+
+// Strip the vocabulary from a type or property, e.g. 'https://schema.org/Product' or 'schema:name'
+function localName(value: string): string {
+  return value.trim().split(/[/:#]/).pop() || value.trim();
+}
+
+function ruleType(types: string[]): string | undefined {
+  for (const type of types) {
+    for (let current: string | undefined = type; current; current = SUBTYPES[current]) {
+      if (RULES[current]) return current;
+    }
+  }
+  return undefined;
+}
+
+function fromJsonLd(node: Record<string, unknown>): StructuredDataEntity {
+  const rawTypes = node['@type'];
+  const entity: StructuredDataEntity = {
+    format: 'json-ld',
+    types: (Array.isArray(rawTypes) ? rawTypes : [rawTypes]).filter((type): type is string => typeof type === 'string').map(localName),
+    properties: {},
+  };
+  if (typeof node['@id'] === 'string') entity.id = node['@id'];
+
+  const toValues = (value: unknown): (string | StructuredDataEntity)[] => {
+    if (value === null || value === undefined) return [];
+    if (Array.isArray(value)) return value.flatMap(toValues);
+    if (typeof value !== 'object') return [String(value)];
+    const object = value as Record<string, unknown>;
+    if ('@value' in object) return toValues(object['@value']);
+    if ('@list' in object) return toValues(object['@list']);
+    return [fromJsonLd(object)];
+  };
+
+  for (const [key, value] of Object.entries(node)) {
+    if (key.startsWith('@')) continue;
+    const values = toValues(value);
+    if (values.length) (entity.properties[localName(key)] ||= []).push(...values);
+  }
+  return entity;
+}
+
+function parseJsonLd($: CheerioAPI, errors: string[]): StructuredDataEntity[] {
+  const entities: StructuredDataEntity[] = [];
+  const blocks = $('script[type]').filter((_, el) => ($(el).attr('type') || '').trim().toLowerCase() === 'application/ld+json');
+
+  blocks.each((index, el) => {
+    const text = $(el).text().trim();
+    if (!text) {
+      errors.push(`JSON-LD block ${index + 1} is empty`);
+      return;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      errors.push(`JSON-LD block ${index + 1} is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`);
+      return;
+    }
+
+    for (const node of Array.isArray(data) ? data : [data]) {
+      if (!node || typeof node !== 'object') continue;
+      const object = node as Record<string, unknown>;
+      if (Array.isArray(object['@graph'])) {
+        for (const member of object['@graph']) {
+          if (member && typeof member === 'object') entities.push(fromJsonLd(member as Record<string, unknown>));
+        }
+      }
+      if (object['@type']) entities.push(fromJsonLd(object));
+    }
+  });
+
+  return entities;
+}
+
+// The value of a microdata or RDFa property element, per the microdata spec's rules
+function propertyValue($: CheerioAPI, el: ElementNode, pageUrl: string): string {
+  const node = $(el);
+  const tag = String(node.prop('tagName') || '').toLowerCase();
+  const content = node.attr('content');
+  if (content !== undefined) return content.trim();
+
+  const urlAttr = ['a', 'area', 'link'].includes(tag) ? 'href'
+    : ['img', 'audio', 'video', 'source', 'iframe', 'embed', 'track'].includes(tag) ? 'src'
+    : tag === 'object' ? 'data'
+    : undefined;
+  if (urlAttr) {
+    const href = node.attr(urlAttr) || node.attr('resource') || '';
+    return resolveUrl(href, pageUrl) || href;
+  }
+  if (tag === 'time' && node.attr('datetime')) return node.attr('datetime')!.trim();
+  if (['data', 'meter'].includes(tag) && node.attr('value')) return node.attr('value')!.trim();
+  if (node.attr('resource')) return node.attr('resource')!.trim();
+  return normaliseText(node.text());
+}
+
+function fromMicrodata($: CheerioAPI, el: ElementNode, pageUrl: string): StructuredDataEntity {
+  const entity: StructuredDataEntity = {
+    format: 'microdata',
+    types: ($(el).attr('itemtype') || '').split(/\s+/).filter(Boolean).map(localName),
+    properties: {},
+  };
+  if ($(el).attr('itemid')) entity.id = $(el).attr('itemid');
+
+  // Properties belong to the nearest enclosing itemscope
+  $(el).find('[itemprop]').filter((_, prop) => $(prop).parent().closest('[itemscope]')[0] === el).each((_, prop) => {
+    const value = $(prop).is('[itemscope]') ? fromMicrodata($, prop, pageUrl) : propertyValue($, prop, pageUrl);
+    for (const name of ($(prop).attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+      (entity.properties[localName(name)] ||= []).push(value);
+    }
+  });
+  return entity;
+}
+
+function fromRdfa($: CheerioAPI, el: ElementNode, pageUrl: string): StructuredDataEntity {
+  const entity: StructuredDataEntity = {
+    format: 'rdfa',
+    types: ($(el).attr('typeof') || '').split(/\s+/).filter(Boolean).map(localName),
+    properties: {},
+  };
+  if ($(el).attr('resource')) entity.id = $(el).attr('resource');
+
+  $(el).find('[property]').filter((_, prop) => $(prop).parent().closest('[typeof]')[0] === el).each((_, prop) => {
+    const value = $(prop).is('[typeof]') ? fromRdfa($, prop, pageUrl) : propertyValue($, prop, pageUrl);
+    for (const name of ($(prop).attr('property') || '').split(/\s+/).filter(Boolean)) {
+      (entity.properties[localName(name)] ||= []).push(value);
+    }
+  });
+  return entity;
+}
+
+function hasProperty(entity: StructuredDataEntity, property: string): boolean {
+  return property.split('|').some(name => (entity.properties[name] || []).some(value => value !== ''));
+}
+
+function validateEntity(entity: StructuredDataEntity, type: string, path: string, validation: StructuredDataValidation): void {
+  const rules = RULES[type];
+  for (const property of rules.required) {
+    if (!hasProperty(entity, property)) validation.missingRequired.push(path + property.split('|').join(' or '));
+  }
+  for (const property of rules.recommended) {
+    if (!hasProperty(entity, property)) validation.missingRecommended.push(path + property.split('|').join(' or '));
+  }
+
+  for (const [property, defaultType] of Object.entries(rules.nested || {})) {
+    const children = (entity.properties[property] || []).filter((value): value is StructuredDataEntity => typeof value !== 'string');
+    children.forEach((child, index) => {
+      const childType = ruleType(child.types) || defaultType;
+      const childPath = `${path}${property}${children.length > 1 ? `[${index + 1}]` : ''}.`;
+      validateEntity(child, childType, childPath, validation);
+    });
+  }
+}
+
+function collectTypes(entity: StructuredDataEntity, types: Set<string>): void {
+  entity.types.forEach(type => types.add(type));
+  for (const values of Object.values(entity.properties)) {
+    for (const value of values) {
+      if (typeof value !== 'string') collectTypes(value, types);
+    }
+  }
+}
+
+/**
+ * Parse every JSON-LD block, microdata item and RDFa resource on the page, then
+ * check the key schema.org types for required and recommended properties
+ */
+export function analyzeStructuredData($: CheerioAPI, pageUrl: string): StructuredData {
+  const errors: string[] = [];
+  const entities = [
+    ...parseJsonLd($, errors),
+    ...$('[itemscope]:not([itemprop])').toArray().map(el => fromMicrodata($, el, pageUrl)),
+    ...$('[typeof]:not([property])').toArray().map(el => fromRdfa($, el, pageUrl)),
+  ];
+
+  // A WebPage wrapper often holds the real subject as its mainEntity
+  const candidates = entities.flatMap(entity =>
+    ruleType(entity.types)
+      ? [entity]
+      : (entity.properties.mainEntity || []).filter((value): value is StructuredDataEntity => typeof value !== 'string')
+  );
+
+  const validations: StructuredDataValidation[] = [];
+  for (const entity of candidates) {
+    const type = ruleType(entity.types);
+    if (!type || !TOP_LEVEL_TYPES.includes(type)) continue;
+    const name = [...(entity.properties.name || []), ...(entity.properties.headline || [])].find(
+      (value): value is string => typeof value === 'string'
+    );
+    const validation: StructuredDataValidation = {
+      type,
+      declaredTypes: entity.types,
+      format: entity.format,
+      name,
+      missingRequired: [],
+      missingRecommended: [],
+    };
+    validateEntity(entity, type, '', validation);
+    validations.push(validation);
+  }
+
+  return { entities, errors, validations };
+}
+
+/**
+ * Entities of a type or one of its subtypes, at any nesting level
+ */
+export function findEntities(entities: StructuredDataEntity[], type: string): StructuredDataEntity[] {
+  const found: StructuredDataEntity[] = [];
+  const visit = (entity: StructuredDataEntity) => {
+    if (entity.types.some(declared => isSubtype(declared, type))) found.push(entity);
+    Object.values(entity.properties).flat().forEach(value => typeof value !== 'string' && visit(value));
+  };
+  entities.forEach(visit);
+  return found;
+}
+
+/**
+ * Profile URLs the site's Organization or LocalBusiness lists in `sameAs`
+ */
+export function findSameAs(entities: StructuredDataEntity[]): string[] {
+  const organizations = findEntities(entities, 'Organization');
+  return [...new Set(organizations.flatMap(organization =>
+    (organization.properties.sameAs || []).filter((value): value is string => typeof value === 'string')
+  ))];
+}
+
+/**
+ * Which schema types the page has, across all formats and nesting levels
+ */
+export function summariseSchema(structuredData: StructuredData): AnalysisResult['schema'] {
+  const typeSet = new Set<string>();
+  structuredData.entities.forEach(entity => collectTypes(entity, typeSet));
+  const types = [...typeSet];
+  const has = (type: string) => types.some(found => isSubtype(found, type));
+
+  return {
+    hasOrganization: has('Organization'),
+    hasPerson: has('Person'),
+    hasFAQ: has('FAQPage'),
+    hasArticle: has('Article'),
+    hasBreadcrumb: has('BreadcrumbList'),
+    hasProduct: has('Product'),
+    hasLocalBusiness: has('LocalBusiness'),
+    types,
+  };
+}
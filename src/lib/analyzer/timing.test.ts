@@ -0,0 +1,78 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { gzipSync } from 'zlib';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { analyzeTiming, summariseTimings } from './timing';
+
+const BODY = '<html><body>' + 'Hello world. '.repeat(500) + '</body></html>';
+
+describe('summariseTimings', () => {
+  it('takes the median of an even count as the mean of the middle two', () => {
+    expect(summariseTimings([40, 10, 30, 20])).toEqual({ min: 10, median: 25, p75: 30, p95: 40, max: 40 });
+  });
+
+  it('returns zeros when nothing was measured', () => {
+    expect(summariseTimings([])).toEqual({ min: 0, median: 0, p75: 0, p95: 0, max: 0 });
+  });
+});
+
+describe('analyzeTiming', () => {
+  let server: Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      // Never answers, so only the request timeout ends it
+      if (request.url === '/stall') return;
+      // A few KB that decode to more than the 10MB cap
+      if (request.url === '/bomb') {
+        response.writeHead(200, { 'Content-Encoding': 'gzip' });
+        response.end(gzipSync(Buffer.alloc(11 * 1024 * 1024)));
+        return;
+      }
+      if (String(request.headers['accept-encoding']).includes('gzip')) {
+        response.writeHead(200, { 'Content-Encoding': 'gzip' });
+        response.end(gzipSync(BODY));
+      } else {
+        response.writeHead(200);
+        response.end(BODY);
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => {
+    server.closeAllConnections();
+    server.close(() => resolve());
+  }));
+
+  it('samples the page and checks each encoding', async () => {
+    const timing = await analyzeTiming(`${origin}/`);
+    expect(timing.samples).toHaveLength(3);
+    expect(timing.contentEncoding).toBe('gzip');
+    expect(timing.decodedBytes).toBe(BODY.length);
+    expect(timing.encodings.map(encoding => [encoding.requested, encoding.supported])).toEqual([
+      ['identity', true],
+      ['gzip', true],
+      ['br', false],
+      ['zstd', false],
+    ]);
+  });
+
+  it("doesn't decode past the body cap", async () => {
+    const timing = await analyzeTiming(`${origin}/bomb`);
+    expect(timing.contentEncoding).toBe('gzip');
+    expect(timing.transferredBytes).toBeLessThan(100 * 1024);
+    expect(timing.decodedBytes).toBeUndefined();
+  });
+
+  it('stops sampling when the time budget runs out', async () => {
+    const started = Date.now();
+    const timing = await analyzeTiming(`${origin}/stall`, 500, 200);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(timing.samples.length).toBeLessThan(3);
+    expect(timing.samples.every(sample => sample.error?.startsWith('Timed out'))).toBe(true);
+    expect(timing.encodings.every(encoding => encoding.error)).toBe(true);
+  });
+});
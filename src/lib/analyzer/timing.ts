@@ -0,0 +1,200 @@
+import http from 'http';
+import https from 'https';
+import { gunzipSync, brotliDecompressSync, inflateSync } from 'zlib';
+import { AnalysisResult, EncodingCheck, TimingPhase, TimingSample, TimingStats } from '@/types/analysis';
+import { USER_AGENT } from './fetch';
+
+type TimingAnalysis = NonNullable<AnalysisResult['timing']>;
+
+const SAMPLE_COUNT = 3;
+const REQUEST_TIMEOUT = 4000;
+// Cap on the whole measurement; sampling stops early to leave the encoding
+// probes, which run side by side, one REQUEST_TIMEOUT
+const TIME_BUDGET_MS = 10000;
+// Stop reading after this much; the checks only care whether HTML is over 2MB
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// What Chrome sends, so the transfer size matches what visitors get
+const BROWSER_ACCEPT_ENCODING = 'gzip, deflate, br, zstd';
+const ENCODINGS: EncodingCheck['requested'][] = ['identity', 'gzip', 'br', 'zstd'];
+
+const PHASES: TimingPhase[] = ['dns', 'connect', 'tls', 'wait', 'download', 'ttfb', 'total'];
+
+interface RawResponse {
+  phases: Record<TimingPhase, number>;
+  statusCode: number;
+  contentEncoding?: string;
+  // Bytes on the wire, even past MAX_BODY_BYTES
+  transferredBytes: number;
+  body: Buffer;
+}
+
+/**
+ * One GET over a new connection, timing each phase from socket events
+ */
+function timedRequest(url: string, acceptEncoding: string, timeout = REQUEST_TIMEOUT): Promise<RawResponse> {
+  const parsed = new URL(url);
+  const client = parsed.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const start = performance.now();
+    const marks: Partial<Record<'lookup' | 'connect' | 'secureConnect' | 'response', number>> = {};
+
+    // agent: false skips connection reuse, so every sample pays for DNS, TCP and TLS
+    const request = client.request(url, {
+      agent: false,
+      headers: { 'User-Agent': USER_AGENT, Accept: 'text/html', 'Accept-Encoding': acceptEncoding },
+    });
+    // Covers the whole exchange, where the socket timeout only covers idle time
+    const timeoutId = setTimeout(() => request.destroy(new Error(`Timed out after ${timeout}ms`)), timeout);
+    request.on('close', () => clearTimeout(timeoutId));
+
+    request.on('socket', socket => {
+      socket.once('lookup', () => (marks.lookup = performance.now()));
+      socket.once('connect', () => (marks.connect = performance.now()));
+      socket.once('secureConnect', () => (marks.secureConnect = performance.now()));
+    });
+    request.on('error', reject);
+
+    request.on('response', response => {
+      marks.response = performance.now();
+      const chunks: Buffer[] = [];
+      let received = 0;
+
+      response.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received <= MAX_BODY_BYTES) chunks.push(chunk);
+      });
+      response.on('error', reject);
+      response.on('end', () => {
+        const end = performance.now();
+        // IP literals skip the lookup, plain HTTP skips TLS
+        const lookup = marks.lookup ?? start;
+        const connect = marks.connect ?? lookup;
+        const secureConnect = marks.secureConnect ?? connect;
+        const responseStart = marks.response ?? end;
+        const round = (ms: number) => Math.round(ms * 10) / 10;
+
+        resolve({
+          phases: {
+            dns: round(lookup - start),
+            connect: round(connect - lookup),
+            tls: round(secureConnect - connect),
+            wait: round(responseStart - secureConnect),
+            download: round(end - responseStart),
+            ttfb: round(responseStart - start),
+            total: round(end - start),
+          },
+          statusCode: response.statusCode || 0,
+          contentEncoding: response.headers['content-encoding']?.toLowerCase(),
+          transferredBytes: received,
+          body: Buffer.concat(chunks),
+        });
+      });
+    });
+
+    request.end();
+  });
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+export function summariseTimings(values: number[]): TimingStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length === 0) return { min: 0, median: 0, p75: 0, p95: 0, max: 0 };
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    min: sorted[0],
+    median: sorted.length % 2 ? sorted[middle] : Math.round(((sorted[middle - 1] + sorted[middle]) / 2) * 10) / 10,
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+// Node 20's zlib has no zstd decoder, so zstd bodies can't be measured decoded
+// Output is capped like the download, so a small compressed bomb can't fill memory
+function decodeBody(body: Buffer, contentEncoding: string | undefined): Buffer | null {
+  const options = { maxOutputLength: MAX_BODY_BYTES };
+  try {
+    switch (contentEncoding) {
+      case undefined:
+      case 'identity':
+        return body;
+      case 'gzip':
+      case 'x-gzip':
+        return gunzipSync(body, options);
+      case 'br':
+        return brotliDecompressSync(body, options);
+      case 'deflate':
+        return inflateSync(body, options);
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Time a few fresh-connection requests for the page phase by phase, and check
+ * which of gzip, brotli and zstd the server will negotiate
+ */
+export async function analyzeTiming(
+  url: string,
+  timeBudgetMs = TIME_BUDGET_MS,
+  requestTimeout = REQUEST_TIMEOUT
+): Promise<TimingAnalysis> {
+  const samplingDeadline = Date.now() + timeBudgetMs - requestTimeout;
+
+  // Sequential, so samples don't compete with each other for bandwidth
+  const samples: TimingSample[] = [];
+  let browserResponse: RawResponse | undefined;
+  for (let i = 0; i < SAMPLE_COUNT && Date.now() < samplingDeadline; i++) {
+    try {
+      const response = await timedRequest(url, BROWSER_ACCEPT_ENCODING, Math.min(requestTimeout, samplingDeadline - Date.now()));
+      browserResponse ||= response;
+      samples.push({ phases: response.phases, statusCode: response.statusCode });
+    } catch (error) {
+      samples.push({ error: error instanceof Error ? error.message : 'Request failed' });
+    }
+  }
+
+  const measured = samples.filter((sample): sample is TimingSample & { phases: Record<TimingPhase, number> } => !!sample.phases);
+  const stats = Object.fromEntries(
+    PHASES.map(phase => [phase, summariseTimings(measured.map(sample => sample.phases[phase]))])
+  ) as Record<TimingPhase, TimingStats>;
+
+  // Only the negotiated encoding and size matter here, so these can run side by side
+  let decodedBytes = browserResponse ? decodeBody(browserResponse.body, browserResponse.contentEncoding)?.length : undefined;
+  const probes = await Promise.all(ENCODINGS.map(async (requested): Promise<{ check: EncodingCheck; decodedBytes?: number }> => {
+    try {
+      const response = await timedRequest(url, requested, requestTimeout);
+      return {
+        check: {
+          requested,
+          contentEncoding: response.contentEncoding,
+          supported: requested === 'identity' ? !response.contentEncoding || response.contentEncoding === 'identity' : response.contentEncoding === requested,
+          transferredBytes: response.transferredBytes,
+        },
+        decodedBytes: decodeBody(response.body, response.contentEncoding)?.length,
+      };
+    } catch (error) {
+      return { check: { requested, supported: false, error: error instanceof Error ? error.message : 'Request failed' } };
+    }
+  }));
+  decodedBytes ??= probes.find(probe => probe.decodedBytes !== undefined)?.decodedBytes;
+
+  return {
+    url,
+    samples,
+    stats,
+    encodings: probes.map(probe => probe.check),
+    decodedBytes,
+    transferredBytes: browserResponse?.transferredBytes,
+    contentEncoding: browserResponse?.contentEncoding,
+  };
+}
@@ -0,0 +1,401 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, CollectionPageCheck, CrawledPage, FaqItem, ProductPageCheck } from '@/types/analysis';
+import { resolveCrawlOptions } from '@/lib/analyzer/crawler';
+import { DetectionContext, getAutoDetectedChecks } from './autoDetect';
+
+const HOME = 'https://stride.example/';
+
+// A homepage that passes the checks it can decide on its own
+const BASE: AnalysisResult = {
+  url: HOME,
+  fetchedAt: '2026-01-05T09:00:00.000Z',
+  robotsTxt: { exists: true, sitemaps: [`${HOME}sitemap.xml`] },
+  sitemap: { exists: true, url: `${HOME}sitemap.xml`, inRobotsTxt: true, totalUrls: 3 },
+  meta: { title: 'Running shoes | Stride', titleLength: 22, favicon: `${HOME}favicon.ico` },
+  headings: { h1Count: 1, h1Tags: ['Running shoes and race-day kit'] },
+  schema: {
+    hasOrganization: true,
+    hasPerson: false,
+    hasFAQ: false,
+    hasArticle: false,
+    hasBreadcrumb: false,
+    hasProduct: false,
+    hasLocalBusiness: false,
+    types: ['Organization'],
+  },
+  pages: { hasAbout: true, hasPrivacy: true, hasTerms: true, hasContact: true },
+  social: {
+    links: [],
+    shareLinks: [],
+    sameAs: [],
+    hasTwitter: false,
+    hasFacebook: false,
+    hasLinkedIn: false,
+    hasInstagram: false,
+    hasYouTube: false,
+    hasTikTok: false,
+    hasPinterest: false,
+    hasThreads: false,
+    hasBluesky: false,
+    hasSnapchat: false,
+  },
+  technical: { hasCanonical: true, canonicalUrl: HOME, hasNoindex: false },
+};
+
+const page = (path: string, overrides: Partial<CrawledPage> = {}): CrawledPage => ({
+  url: `${HOME}${path}`,
+  statusCode: 200,
+  contentType: 'text/html',
+  title: `${path} | Stride`,
+  description: `All about ${path}`,
+  h1s: [path],
+  noindex: false,
+  depth: 1,
+  inlinks: 1,
+  linkedFrom: [HOME],
+  ...overrides,
+});
+
+const crawl = (pages: CrawledPage[], overrides: Partial<NonNullable<AnalysisResult['crawl']>> = {}): AnalysisResult['crawl'] => ({
+  startUrl: HOME,
+  options: resolveCrawlOptions(),
+  pages,
+  truncated: false,
+  blockedByRobots: [],
+  orphanCandidates: [],
+  durationMs: 1200,
+  ...overrides,
+});
+
+const product = (overrides: Partial<ProductPageCheck> = {}): ProductPageCheck => ({
+  url: `${HOME}products/trail-runner`,
+  price: '89.00',
+  currency: 'GBP',
+  addToCart: true,
+  links: { returns: `${HOME}pages/returns` },
+  hasSpecs: true,
+  breadcrumbs: { found: true, source: 'schema', items: ['Home', 'Trail Runner'], issues: [] },
+  ...overrides,
+});
+
+const collection = (overrides: Partial<CollectionPageCheck> = {}): CollectionPageCheck => ({
+  url: `${HOME}collections/shoes`,
+  productLinks: 12,
+  productCards: 12,
+  cardsWithCta: 12,
+  carousel: false,
+  filterParams: [],
+  pagination: { found: false },
+  breadcrumbs: { found: true, source: 'schema', items: ['Home', 'Shoes'], issues: [] },
+  hasFaqs: false,
+  faqSchema: false,
+  ...overrides,
+});
+
+const aiReadiness = (faqs: FaqItem[], llmsTxt = true): AnalysisResult['aiReadiness'] => ({
+  llmsTxt: { url: `${HOME}llms.txt`, exists: llmsTxt, statusCode: llmsTxt ? 200 : 404, title: 'Stride', sections: [{ title: 'Shop', links: 2 }], linkCount: 2, issues: [] },
+  llmsFullTxt: { url: `${HOME}llms-full.txt`, exists: false, sections: [], linkCount: 0, issues: [] },
+  crawlers: [],
+  faqs,
+  answers: [],
+  facts: { statistics: [], definitions: [] },
+});
+
+interface Case {
+  check: string;
+  name: string;
+  analysis: Partial<AnalysisResult>;
+  context?: DetectionContext;
+  // Undefined when the check is left for the auditor
+  status?: 'pass' | 'fail';
+  evidence?: string;
+}
+
+const CASES: Case[] = [
+  {
+    check: 'robots-txt',
+    name: 'unreachable robots.txt',
+    analysis: { robotsTxt: { exists: false, unreachable: true, statusCode: 503 } },
+    status: 'fail',
+    evidence: 'robots.txt returns HTTP 503, so crawlers treat the whole site as disallowed',
+  },
+  {
+    check: 'robots-txt',
+    name: 'parse errors',
+    analysis: { robotsTxt: { exists: true, errors: [{ line: 4, content: 'Disalow: /cart', message: 'Unknown directive "Disalow"' }] } },
+    status: 'fail',
+    evidence: 'robots.txt has 1 error(s): line 4: Unknown directive "Disalow"',
+  },
+  {
+    check: 'sitemap-exists',
+    name: 'no sitemap',
+    analysis: { sitemap: { exists: false } },
+    status: 'fail',
+    evidence: 'No sitemap declared in robots.txt or found at /sitemap.xml, /sitemap_index.xml or /sitemap/sitemap.xml',
+  },
+  {
+    check: 'sitemap-in-robots',
+    name: 'no Sitemap: directive',
+    analysis: { sitemap: { exists: true, url: `${HOME}sitemap.xml`, inRobotsTxt: false } },
+    status: 'fail',
+    evidence: 'robots.txt has no Sitemap: directive',
+  },
+  {
+    check: 'missing-meta-titles',
+    name: 'untitled homepage',
+    analysis: { meta: {} },
+    status: 'fail',
+    evidence: 'Homepage has no <title> tag',
+  },
+  {
+    check: 'missing-meta-titles',
+    name: 'untitled crawled page',
+    analysis: { crawl: crawl([page('shoes'), page('socks', { title: undefined })]) },
+    status: 'fail',
+    evidence: '1 page(s) have no <title>',
+  },
+  {
+    check: 'duplicate-meta-titles',
+    name: 'shared title',
+    analysis: { crawl: crawl([page('shoes', { title: 'Stride' }), page('socks', { title: 'Stride ' }), page('about')]) },
+    status: 'fail',
+    evidence: '1 title(s) shared by more than one page across 3 crawled pages',
+  },
+  {
+    check: 'internal-404s',
+    name: 'broken internal link',
+    analysis: { crawl: crawl([page('shoes'), page('old-shoes', { statusCode: 404 })]) },
+    status: 'fail',
+    evidence: '1 internal URL(s) return 404/410',
+  },
+  {
+    check: 'crawl-depth',
+    name: 'deep page',
+    analysis: { crawl: crawl([page('shoes'), page('shoes/trail/waterproof/wide', { depth: 4 })]) },
+    status: 'fail',
+    evidence: '1 page(s) more than 3 clicks from the homepage',
+  },
+  {
+    check: 'orphan-pages',
+    name: 'unlinked sitemap URL',
+    analysis: { crawl: crawl([page('shoes')], { orphanCandidates: [`${HOME}old-sale`] }) },
+    status: 'fail',
+    evidence: "1 sitemap URL(s) aren't linked from any crawled page",
+  },
+  {
+    check: 'orphan-pages',
+    name: 'partial crawl',
+    analysis: { crawl: crawl([page('shoes')], { truncated: true, orphanCandidates: [`${HOME}old-sale`] }) },
+  },
+  {
+    check: 'noindex-key-pages',
+    name: 'noindex meta tag',
+    analysis: { technical: { hasCanonical: true, hasNoindex: true } },
+    status: 'fail',
+    evidence: 'Homepage has a noindex robots meta tag',
+  },
+  {
+    check: 'h1-tags',
+    name: 'two H1s',
+    analysis: { headings: { h1Count: 2, h1Tags: ['Stride', 'Running shoes'] } },
+    status: 'fail',
+    evidence: 'Found 2 H1 tags on homepage: "Stride", "Running shoes"',
+  },
+  {
+    check: 'missing-h1-tag',
+    name: 'no H1',
+    analysis: { headings: { h1Count: 0, h1Tags: [] } },
+    status: 'fail',
+    evidence: 'Homepage is missing an H1 tag',
+  },
+  {
+    check: 'copyright-date',
+    name: 'stale year',
+    analysis: { hygiene: { placeholders: [], currentYear: 2026, copyright: { text: '© 2023 Stride', year: 2023, location: 'footer > p', inFooter: true, dynamic: false } } },
+    status: 'fail',
+    evidence: 'Footer copyright year is 2023, not 2026: "© 2023 Stride" (footer > p)',
+  },
+  {
+    check: 'placeholder-text',
+    name: 'lorem ipsum',
+    analysis: { hygiene: { placeholders: [{ kind: 'lorem-ipsum', match: 'Lorem ipsum', snippet: 'Lorem ipsum dolor sit amet', location: 'main > p' }], currentYear: 2026 } },
+    status: 'fail',
+    evidence: '1 placeholder(s) found on 1 page(s), checking the audited page',
+  },
+  {
+    check: 'product-pricing',
+    name: 'price without a currency',
+    analysis: { ecommerce: { products: [product(), product({ url: `${HOME}products/road-racer`, currency: undefined })], collections: [] } },
+    status: 'fail',
+    evidence: "1 of 2 sampled product pages don't show a price with its currency",
+  },
+  {
+    check: 'product-pricing',
+    name: 'only pages that failed to load',
+    analysis: { ecommerce: { products: [product({ error: 'HTTP 500' })], collections: [] } },
+  },
+  {
+    check: 'collection-product-ctas',
+    name: 'cards without a CTA',
+    analysis: { ecommerce: { products: [], collections: [collection({ cardsWithCta: 4 })] } },
+    status: 'fail',
+    evidence: "1 of 1 sampled collection pages don't have a CTA on every product card",
+  },
+  {
+    check: 'collection-filter-canonicals',
+    name: 'filter page canonicalising to itself',
+    analysis: {
+      ecommerce: {
+        products: [],
+        collections: [collection({ filterCanonical: { url: `${HOME}collections/shoes?color=red`, statusCode: 200, canonicalUrl: `${HOME}collections/shoes?color=red`, toCollection: false } })],
+      },
+    },
+    status: 'fail',
+    evidence: "1 of 1 filtered/parameterised URLs don't canonicalise to a clean URL",
+  },
+  {
+    check: 'collection-filter-canonicals',
+    name: 'filter link that errored',
+    analysis: {
+      ecommerce: {
+        products: [],
+        collections: [collection({ filterCanonical: { url: `${HOME}collections/shoes?color=red`, statusCode: 404, toCollection: false, error: 'HTTP 404' } })],
+      },
+    },
+  },
+  {
+    check: 'faq-sections',
+    name: 'FAQPage questions missing from the page',
+    analysis: {
+      schema: { ...BASE.schema, hasFAQ: true },
+      aiReadiness: aiReadiness([
+        { question: 'Do you ship abroad?', answer: 'Yes, to 30 countries.', source: 'schema' },
+        { question: 'Can I return worn shoes?', answer: 'Within 30 days.', source: 'schema' },
+        { question: 'Do you ship abroad?', answer: 'Yes, to 30 countries.', source: 'details' },
+      ]),
+    },
+    status: 'fail',
+    evidence: "1 FAQPage question(s) aren't shown on the page",
+  },
+  {
+    check: 'faq-sections',
+    name: 'FAQPage question without an answer',
+    analysis: {
+      schema: { ...BASE.schema, hasFAQ: true },
+      aiReadiness: aiReadiness([
+        { question: 'Do you ship abroad?', answer: '', source: 'schema' },
+        { question: 'Do you ship abroad', answer: 'Yes, to 30 countries.', source: 'heading' },
+      ]),
+    },
+    status: 'fail',
+    evidence: '1 question(s) have no answer',
+  },
+  {
+    check: 'faq-sections',
+    name: 'visible Q&A without FAQPage schema',
+    analysis: { aiReadiness: aiReadiness([{ question: 'Do you ship abroad?', answer: 'Yes, to 30 countries.', source: 'details' }]) },
+    status: 'pass',
+    evidence: '1 Q&A pair(s) on the homepage from details; no FAQPage schema marks them up',
+  },
+  {
+    check: 'faq-sections',
+    name: 'no Q&A on the homepage',
+    analysis: { aiReadiness: aiReadiness([]) },
+  },
+  {
+    check: 'llms-txt',
+    name: 'no llms.txt',
+    analysis: { aiReadiness: aiReadiness([], false) },
+    status: 'fail',
+    evidence: 'No /llms.txt',
+  },
+  {
+    check: 'carbon-footprint',
+    name: 'heavy page',
+    analysis: {
+      resources: {
+        items: [],
+        weight: { html: 1e5, css: 0, js: 9e6, image: 1e7, font: 9e5, other: 0 },
+        totalBytes: 2e7,
+        thirdPartyBytes: 3e6,
+        co2Grams: 2.964,
+        co2Rating: 'F',
+        issues: [],
+      },
+    },
+    status: 'fail',
+    evidence: '2.964g CO₂ per view (rating F) for 19.1MB of page weight, 2.9MB third-party',
+  },
+  {
+    check: 'favicon',
+    name: 'no favicon',
+    analysis: { meta: { title: 'Stride' } },
+    status: 'fail',
+    evidence: 'No <link rel="icon"> found on homepage',
+  },
+  {
+    check: 'privacy-policy',
+    name: 'no privacy link',
+    analysis: { pages: { ...BASE.pages, hasPrivacy: false } },
+    status: 'fail',
+    evidence: 'No privacy policy link found on homepage',
+  },
+  {
+    check: 'contact-us-page',
+    name: 'no contact link, which may be worded differently',
+    analysis: { pages: { ...BASE.pages, hasContact: false } },
+  },
+  {
+    check: 'social-media-links',
+    name: 'only share buttons',
+    analysis: { social: { ...BASE.social, shareLinks: [{ platform: 'Facebook', url: 'https://www.facebook.com/sharer/sharer.php?u=https://stride.example/' }] } },
+    status: 'fail',
+    evidence: 'No social profile links found on homepage, only 1 share button link(s)',
+  },
+  {
+    check: 'consistent-handles',
+    name: 'different handles',
+    analysis: {
+      social: {
+        ...BASE.social,
+        links: [
+          { platform: 'Instagram', url: 'https://www.instagram.com/striderunning', handle: 'striderunning', inFooter: true },
+          { platform: 'X', url: 'https://x.com/stride_uk', handle: 'stride_uk', inFooter: true },
+        ],
+      },
+    },
+    status: 'fail',
+    evidence: 'Handles differ across platforms: @striderunning (Instagram), @strideuk (X)',
+  },
+  {
+    check: 'gbp-phone',
+    name: 'no reference NAP',
+    analysis: {},
+  },
+  {
+    check: 'gbp-phone',
+    name: 'no phone on the page',
+    analysis: { nap: { names: [], addresses: [], phones: [], openingHours: [] } },
+    context: { referenceNap: { phone: '+441632960001' } },
+    status: 'fail',
+    evidence: 'No phone number found to compare with +441632960001',
+  },
+];
+
+describe('getAutoDetectedChecks', () => {
+  it.each(CASES)('$check: $name', ({ check, analysis, context, status, evidence }) => {
+    const detected = getAutoDetectedChecks({ ...BASE, ...analysis }, [check], context)[check];
+    expect(detected?.status).toBe(status);
+    if (evidence) expect(detected?.evidence).toBe(evidence);
+  });
+
+  it('passes the baseline homepage and returns only the checks asked for', () => {
+    const detected = getAutoDetectedChecks(BASE, ['robots-txt', 'sitemap-exists', 'h1-tags', 'favicon', 'not-a-check']);
+    expect(Object.keys(detected)).toEqual(['robots-txt', 'sitemap-exists', 'h1-tags', 'favicon']);
+    expect(Object.values(detected).every(check => check.status === 'pass')).toBe(true);
+  });
+
+  it('detects nothing from a failed analysis', () => {
+    expect(getAutoDetectedChecks({ ...BASE, error: 'Failed to fetch URL' }, ['robots-txt', 'favicon'])).toEqual({});
+  });
+});
@@ -0,0 +1,1293 @@
+import { AnalysisResult, CollectionPageCheck, CrawledPage, HeadingItem, ImageItem, NapDetails, ProductPageCheck, RedirectTrace, ResourceType, SocialPreviewCard, StructuredDataValidation } from '@/types/analysis';
+import { ReferenceNap, addressMismatches, normaliseBusinessName, normalisePhone, parseAddress } from '@/lib/analyzer/nap';
+
+export interface EvidenceTable {
+  columns: string[];
+  rows: string[][];
+}
+
+// Horizontal bars, e.g. page weight by resource type
+export interface EvidenceChart {
+  bars: { label: string; value: number; display: string }[];
+}
+
+export interface AutoDetectedCheck {
+  status: 'pass' | 'fail';
+  evidence: string;
+  table?: EvidenceTable;
+  chart?: EvidenceChart;
+  // How a shared link would look on Facebook, LinkedIn and X
+  preview?: SocialPreviewCard;
+}
+
+// Input from the auditor that some checks compare the analysis against
+export interface DetectionContext {
+  referenceNap?: ReferenceNap;
+}
+
+// Checks that compare the site against the auditor's reference NAP
+export const REFERENCE_NAP_CHECKS = ['gbp-business-name', 'gbp-address', 'gbp-phone'];
+
+type Detector = (analysis: AnalysisResult, context: DetectionContext) => AutoDetectedCheck | null;
+
+const pass = (evidence: string, table?: EvidenceTable, chart?: EvidenceChart): AutoDetectedCheck => ({ status: 'pass', evidence, table, chart });
+const fail = (evidence: string, table?: EvidenceTable, chart?: EvidenceChart): AutoDetectedCheck => ({ status: 'fail', evidence, table, chart });
+
+const MAX_CRAWL_DEPTH = 3;
+
+// Crawled pages that returned HTML, i.e. the ones with titles and descriptions to compare
+function htmlPages(crawl: AnalysisResult['crawl']): CrawledPage[] {
+  return (crawl?.pages || []).filter(page => page.statusCode === 200 && page.contentType?.includes('html'));
+}
+
+function crawlScope(crawl: NonNullable<AnalysisResult['crawl']>): string {
+  return `${crawl.pages.length} crawled pages${crawl.truncated ? ' (crawl limit reached)' : ''}`;
+}
+
+// Group pages sharing the same non-empty value, keeping only groups of two or more
+function findDuplicates(pages: CrawledPage[], value: (page: CrawledPage) => string | undefined): Map<string, CrawledPage[]> {
+  const groups = new Map<string, CrawledPage[]>();
+  for (const page of pages) {
+    const key = value(page)?.trim().toLowerCase();
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) || []), page]);
+  }
+  return new Map([...groups].filter(([, group]) => group.length > 1));
+}
+
+function duplicateDetector(label: string, value: (page: CrawledPage) => string | undefined): Detector {
+  return ({ crawl }) => {
+    if (!crawl) return null;
+    const duplicates = findDuplicates(htmlPages(crawl), value);
+    if (duplicates.size === 0) return pass(`No duplicate ${label}s across ${crawlScope(crawl)}`);
+    const table = {
+      columns: [label.charAt(0).toUpperCase() + label.slice(1), 'URL'],
+      rows: [...duplicates.values()].flatMap(group => group.map(page => [value(page) || '', page.url])),
+    };
+    return fail(`${duplicates.size} ${label}(s) shared by more than one page across ${crawlScope(crawl)}`, table);
+  };
+}
+
+function hasTemporaryHop(trace: RedirectTrace): boolean {
+  return trace.hops.some(hop => hop.statusCode !== 301 && hop.statusCode !== 308);
+}
+
+function variantTable(redirects: NonNullable<AnalysisResult['redirects']>): EvidenceTable {
+  return {
+    columns: ['Variant', 'Hops', 'Final URL', 'Status'],
+    rows: redirects.variants.map(trace => [
+      trace.label,
+      trace.hops.map(hop => `${hop.statusCode} → ${hop.location}`).join(', ') || 'none',
+      trace.finalUrl || trace.error || '',
+      trace.finalStatus ? String(trace.finalStatus) : '',
+    ]),
+  };
+}
+
+function statusDetector(label: string, matches: (statusCode: number) => boolean): Detector {
+  return ({ crawl }) => {
+    if (!crawl) return null;
+    const broken = crawl.pages.filter(page => page.statusCode !== undefined && matches(page.statusCode));
+    if (broken.length === 0) return pass(`No ${label} responses across ${crawlScope(crawl)}`);
+    return fail(`${broken.length} internal URL(s) return ${label}`, {
+      columns: ['URL', 'Status', 'Linked from'],
+      rows: broken.map(page => [page.url, String(page.statusCode), page.linkedFrom.join(', ')]),
+    });
+  };
+}
+
+function validationTable(validations: StructuredDataValidation[]): EvidenceTable {
+  return {
+    columns: ['Type', 'Format', 'Name', 'Missing required', 'Missing recommended'],
+    rows: validations.map(validation => [
+      validation.declaredTypes.join(', ') || validation.type,
+      validation.format,
+      validation.name || '',
+      validation.missingRequired.join(', ') || 'none',
+      validation.missingRecommended.join(', ') || 'none',
+    ]),
+  };
+}
+
+// Validates every entity of the given schema types; `required` decides whether their absence is a failure
+function schemaDetector(types: string[], label: string, required: boolean): Detector {
+  return ({ structuredData }) => {
+    const validations = structuredData?.validations.filter(validation => types.includes(validation.type)) || [];
+    if (validations.length === 0) return required ? fail(`No ${label} schema found on homepage`) : null;
+    const invalid = validations.filter(validation => validation.missingRequired.length > 0);
+    const table = validationTable(validations);
+    if (invalid.length > 0) {
+      return fail(`${label} schema is missing required properties: ${invalid.flatMap(validation => validation.missingRequired).join(', ')}`, table);
+    }
+    const recommended = [...new Set(validations.flatMap(validation => validation.missingRecommended))];
+    return pass(`${label} schema found with all required properties${recommended.length ? ` (missing recommended: ${recommended.join(', ')})` : ''}`, table);
+  };
+}
+
+// Indent each heading by its level so the table reads as an outline
+function outlineTable(outline: HeadingItem[]): EvidenceTable {
+  return {
+    columns: ['Level', 'Heading', 'Flags'],
+    rows: outline.map(heading => [
+      `H${heading.level}`,
+      `${'\u00a0\u00a0'.repeat(heading.level - 1)}${heading.text || '(empty)'}`,
+      [heading.hidden && 'hidden', heading.skipsLevel && 'skips a level'].filter(Boolean).join(', '),
+    ]),
+  };
+}
+
+// Google's guidance for a good server response time
+const MAX_TTFB_MS = 800;
+// Googlebot stops reading HTML after 2MB
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.round(bytes / 1024)}KB`;
+}
+
+// One stylesheet for the whole site is normal; each extra one is another round trip
+const MAX_BLOCKING_STYLESHEETS = 2;
+
+const RESOURCE_LABELS: Record<ResourceType, string> = {
+  html: 'HTML',
+  css: 'CSS',
+  js: 'JavaScript',
+  image: 'Images',
+  font: 'Fonts',
+  other: 'Other',
+};
+
+// Share of the page's content and navigation that must work without JavaScript
+const MIN_NO_JS_SCORE = 70;
+
+// Enough H2-H6s for a page to be navigable by section
+const MIN_SUBHEADINGS = 3;
+
+const COLLECTION_PATH = /\/(collections?|categor(y|ies)|product-category|shop|c)\/[^/]+/i;
+
+const MAX_IMAGE_ROWS = 20;
+
+function imageIssues(items: ImageItem[], kind: ImageItem['issues'][number]['kind']): ImageItem[] {
+  return items.filter(item => item.issues.some(issue => issue.kind === kind));
+}
+
+// Worst offenders first: most issues of the kind, then heaviest
+function imageTable(items: ImageItem[], kind: ImageItem['issues'][number]['kind'], columns: string[], row: (item: ImageItem) => string[]): EvidenceTable {
+  const count = (item: ImageItem) => item.issues.filter(issue => issue.kind === kind).length;
+  const sorted = [...items].sort((a, b) => count(b) - count(a) || (b.bytes || 0) - (a.bytes || 0));
+  return {
+    columns: [...columns, 'Issues'],
+    rows: sorted.slice(0, MAX_IMAGE_ROWS).map(item => [
+      ...row(item),
+      item.issues.filter(issue => issue.kind === kind).map(issue => issue.message).join('; '),
+    ]),
+  };
+}
+
+// Alt text for images in a part of the page, e.g. product images or carousels
+function contextAltDetector(context: NonNullable<ImageItem['context']>, label: string): Detector {
+  return ({ images }) => {
+    const inContext = (images?.items || []).filter(item => item.source === 'img' && item.context === context);
+    if (inContext.length === 0) return null;
+    const flagged = imageIssues(inContext, 'alt');
+    return flagged.length === 0
+      ? pass(`All ${inContext.length} ${label} images on the homepage have descriptive alt text`)
+      : fail(`${flagged.length} of ${inContext.length} ${label} images have missing or weak alt text`,
+          imageTable(flagged, 'alt', ['Image', 'Alt'], item => [item.url, item.alt ?? '(missing)']));
+  };
+}
+
+const REQUIRED_OG_TAGS = ['title', 'description', 'image'];
+
+// The audited page's NAP followed by every other crawled page's
+function napPages({ url, nap, crawl }: AnalysisResult): { url: string; nap: NapDetails }[] {
+  return [
+    ...(nap ? [{ url, nap }] : []),
+    ...htmlPages(crawl).filter(page => page.url !== url && page.nap).map(page => ({ url: page.url, nap: page.nap! })),
+  ];
+}
+
+function samePhone(found: { raw: string; e164?: string }, reference: string | undefined): boolean {
+  if (found.e164 && reference) return found.e164 === reference;
+  // Without a country either side, compare the subscriber digits
+  return found.raw.replace(/\D/g, '').slice(-9) === (reference || '').replace(/\D/g, '').slice(-9);
+}
+
+function napMatchTable(rows: string[][]): EvidenceTable {
+  return { columns: ['URL', 'Source', 'Found', 'Normalised', 'Matches GBP'], rows };
+}
+
+// Sampled product and collection pages that loaded
+function sampledProducts({ ecommerce }: AnalysisResult): ProductPageCheck[] {
+  return (ecommerce?.products || []).filter(page => !page.error);
+}
+
+function sampledCollections({ ecommerce }: AnalysisResult): CollectionPageCheck[] {
+  return (ecommerce?.collections || []).filter(page => !page.error);
+}
+
+// One row per sampled page, e.g. "All 5 sampled product pages show a price"
+function sampledPagesCheck<T extends { url: string }>(
+  pages: T[],
+  kind: 'product' | 'collection',
+  what: string,
+  columns: string[],
+  ok: (page: T) => boolean,
+  row: (page: T) => string[]
+): AutoDetectedCheck | null {
+  if (pages.length === 0) return null;
+  const failing = pages.filter(page => !ok(page));
+  const table = {
+    columns: ['URL', ...columns, 'OK'],
+    rows: pages.map(page => [page.url, ...row(page), ok(page) ? '✓' : '✗']),
+  };
+  return failing.length === 0
+    ? pass(`All ${pages.length} sampled ${kind} pages ${what}`, table)
+    : fail(`${failing.length} of ${pages.length} sampled ${kind} pages don't ${what}`, table);
+}
+
+// Lowercase letters and digits only, so @Acme_Co, acme.co and acmeco compare equal;
+// Bluesky handles are domains, so drop the domain suffix
+function normaliseHandle(handle: string, platform?: string): string {
+  const bare = platform === 'Bluesky' ? handle.replace(/\.bsky\.social$/i, '').replace(/\.[a-z]{2,}$/i, '') : handle;
+  return bare.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Handles from profile links and sameAs, one row per platform/handle/source
+function socialHandles({ links, sameAs }: AnalysisResult['social']): { platform: string; handle: string; source: string }[] {
+  const rows = [
+    ...links.map(link => ({ platform: link.platform, handle: link.handle, source: 'link' })),
+    ...sameAs.map(profile => ({ platform: profile.platform, handle: profile.handle, source: 'sameAs' })),
+  ].filter((row): row is { platform: string; handle: string; source: string } => !!row.platform && !!row.handle);
+  return rows.filter((row, i) => rows.findIndex(other =>
+    other.platform === row.platform && other.source === row.source && normaliseHandle(other.handle, other.platform) === normaliseHandle(row.handle, row.platform)
+  ) === i);
+}
+
+// The brand as the site names itself: schema/footer business name, og:site_name, then the title
+function brandName({ nap, socialPreview, meta }: AnalysisResult): string | undefined {
+  const name = nap?.names[0]?.value || socialPreview?.openGraph.site_name || meta.title?.split(/\s[|–—-]\s/).pop();
+  return name ? normaliseBusinessName(name).replace(/\s/g, '') || undefined : undefined;
+}
+
+// Checks the analyzer can decide on its own. A detector returns null when the
+// homepage alone isn't enough evidence, leaving the check for the auditor.
+const detectors: Record<string, Detector> = {
+  'robots-txt': ({ robotsTxt }) => {
+    if (robotsTxt.unreachable) {
+      return fail(`robots.txt ${robotsTxt.statusCode ? `returns HTTP ${robotsTxt.statusCode}` : "couldn't be fetched"}, so crawlers treat the whole site as disallowed`);
+    }
+    if (!robotsTxt.exists) return fail('No robots.txt found at /robots.txt');
+    const errors = robotsTxt.errors || [];
+    return errors.length === 0
+      ? pass('robots.txt found and parsed without errors')
+      : fail(`robots.txt has ${errors.length} error(s): ${errors.slice(0, 3).map(e => `line ${e.line}: ${e.message}`).join('; ')}`);
+  },
+
+  'robots-txt-blocking': ({ robotsTxt }) => {
+    if (!robotsTxt.blockedUrls) return null;
+    const blocked = robotsTxt.blockedUrls;
+    return blocked.length === 0
+      ? pass('Googlebot can crawl the audited URL and the internal pages it links to')
+      : fail(`Googlebot is blocked from ${blocked.length} URL(s): ${blocked.slice(0, 5).map(b => `${b.url} (${b.rule})`).join(', ')}`);
+  },
+
+  'ai-crawlers-blocked': ({ robotsTxt, aiReadiness }) => {
+    if (!robotsTxt.crawlers) return null;
+    const blocked = robotsTxt.crawlers.filter(crawler => crawler.type === 'ai' && !crawler.allowed);
+    // Per bot, whether it may fetch the page and /llms.txt
+    const table = aiReadiness ? {
+      columns: ['Crawler', 'Audited page', '/llms.txt'],
+      rows: aiReadiness.crawlers.map(crawler => [crawler.agent, crawler.page ? '✓' : '✗', aiReadiness.llmsTxt.exists ? (crawler.llmsTxt ? '✓' : '✗') : 'no file']),
+    } : undefined;
+    if (robotsTxt.unreachable) return fail('robots.txt is unreachable, so every AI crawler treats the site as blocked', table);
+    return blocked.length === 0
+      ? pass('robots.txt allows every AI crawler checked', table)
+      : fail(`Blocked: ${blocked.map(crawler => `${crawler.agent} (${crawler.rule})`).join(', ')}`, table);
+  },
+
+  'sitemap-exists': ({ sitemap }) =>
+    sitemap.exists
+      ? pass(`Sitemap found at ${sitemap.url} listing ${sitemap.totalUrls ?? 0} URLs`)
+      : fail('No sitemap declared in robots.txt or found at /sitemap.xml, /sitemap_index.xml or /sitemap/sitemap.xml'),
+
+  'sitemap-errors': ({ sitemap }) => {
+    if (!sitemap.sampledUrls || sitemap.sampledUrls.length === 0) return null;
+    const broken = sitemap.sampledUrls.filter(url => url.issues.length > 0);
+    return broken.length === 0
+      ? pass(`All ${sitemap.sampledUrls.length} sampled sitemap URLs return 200, indexable and self-canonical`)
+      : fail(`${broken.length} of ${sitemap.sampledUrls.length} sampled URLs have issues: ${broken.slice(0, 5).map(url => `${url.url} (${url.issues.join(', ')})`).join('; ')}`);
+  },
+
+  'sitemap-structure': ({ sitemap }) => {
+    if (!sitemap.exists || !sitemap.files) return null;
+    const invalid = sitemap.files.filter(file => file.errors.length > 0);
+    const indexes = sitemap.files.filter(file => file.type === 'sitemapindex');
+    const structure = indexes.length > 0
+      ? `Sitemap index with ${sitemap.files.length - indexes.length} child sitemaps`
+      : `${sitemap.files.length} sitemap file(s)`;
+    return invalid.length === 0
+      ? pass(`${structure}, all valid against the sitemap protocol`)
+      : fail(`${structure}; ${invalid.length} with errors: ${invalid.slice(0, 3).map(file => `${file.url} (${file.errors.slice(0, 2).join('; ')})`).join(', ')}`);
+  },
+
+  'sitemap-in-robots': ({ robotsTxt, sitemap }) => {
+    if (!robotsTxt.exists) return fail('No robots.txt, so no Sitemap: directive');
+    return sitemap.inRobotsTxt
+      ? pass(`robots.txt declares ${robotsTxt.sitemaps?.join(', ')}`)
+      : fail('robots.txt has no Sitemap: directive');
+  },
+
+  'missing-meta-titles': ({ meta, crawl }) => {
+    if (crawl) {
+      const missing = htmlPages(crawl).filter(page => !page.title);
+      return missing.length === 0
+        ? pass(`Every page has a title across ${crawlScope(crawl)}`)
+        : fail(`${missing.length} page(s) have no <title>`, { columns: ['URL'], rows: missing.map(page => [page.url]) });
+    }
+    return meta.title
+      ? pass(`Homepage title: "${meta.title}" (${meta.titleLength} characters)`)
+      : fail('Homepage has no <title> tag');
+  },
+
+  'redirect-chains': ({ redirects, crawl }) => {
+    if (!redirects) return null;
+    const traceIssues = redirects.issues.filter(issue => /chain|loop/.test(issue));
+    // Internal links that redirect to a URL that redirects again
+    const crawled = new Map((crawl?.pages || []).map(page => [page.url, page]));
+    const chainedLinks = (crawl?.pages || []).filter(page => page.redirectsTo && crawled.get(page.redirectsTo)?.redirectsTo);
+    if (traceIssues.length === 0 && chainedLinks.length === 0) {
+      return pass('The audited URL and its http/https and www variants redirect in at most one hop');
+    }
+    return fail(`${traceIssues.length + chainedLinks.length} redirect chain(s) or loop(s)`, {
+      columns: ['Start', 'Chain'],
+      rows: [
+        ...[redirects.audited, ...redirects.variants]
+          .filter(trace => trace.loop || trace.hops.length > 1)
+          .map(trace => [trace.startUrl, trace.hops.map(hop => `${hop.statusCode} → ${hop.location}`).join(', ')]),
+        ...chainedLinks.map(page => [page.url, `${page.statusCode} → ${page.redirectsTo}, ${crawled.get(page.redirectsTo!)?.statusCode} → ${crawled.get(page.redirectsTo!)?.redirectsTo}`]),
+      ],
+    });
+  },
+
+  'internal-redirects': ({ crawl }) => {
+    if (!crawl) return null;
+    const redirected = crawl.pages.filter(page => page.redirectsTo && page.inlinks > 0);
+    return redirected.length === 0
+      ? pass(`No internal links point at redirecting URLs across ${crawlScope(crawl)}`)
+      : fail(`${redirected.length} internally linked URL(s) redirect`, {
+          columns: ['URL', 'Status', 'Redirects to', 'Linked from'],
+          rows: redirected.map(page => [page.url, String(page.statusCode), page.redirectsTo!, page.linkedFrom.join(', ')]),
+        });
+  },
+
+  'https-consistency': ({ redirects }) => {
+    if (!redirects?.audited.finalUrl) return null;
+    const httpTraces = redirects.variants.filter(trace => trace.startUrl.startsWith('http://'));
+    const insecure = [redirects.audited, ...httpTraces].filter(
+      trace => trace.finalUrl && trace.finalStatus === 200 && trace.finalUrl.startsWith('http://')
+    );
+    if (insecure.length > 0) {
+      return fail(`Served over plain HTTP without redirecting: ${insecure.map(trace => trace.startUrl).join(', ')}`, variantTable(redirects));
+    }
+    const temporary = httpTraces.filter(hasTemporaryHop);
+    return temporary.length === 0
+      ? pass(`HTTP requests permanently redirect to HTTPS (${redirects.canonicalOrigin})`)
+      : fail(`HTTP → HTTPS uses a temporary redirect for ${temporary.map(trace => trace.label).join(', ')}`, variantTable(redirects));
+  },
+
+  'www-consistency': ({ redirects }) => {
+    if (!redirects?.audited.finalUrl) return null;
+    if (!redirects.variants.some(trace => /^https?:\/\/www\./i.test(trace.startUrl))) {
+      return redirects.converges
+        ? pass(`${new URL(redirects.audited.startUrl).hostname} is a subdomain, so has no www variant; http and https resolve to ${redirects.canonicalOrigin}`)
+        : fail('http and https variants resolve to different origins', variantTable(redirects));
+    }
+    if (!redirects.converges) {
+      return fail('www and non-www variants resolve to different origins', variantTable(redirects));
+    }
+    const temporary = redirects.variants.filter(hasTemporaryHop);
+    return temporary.length === 0
+      ? pass(`www and non-www variants all resolve to ${redirects.canonicalOrigin}`)
+      : fail(`Variants converge on ${redirects.canonicalOrigin} but ${temporary.map(trace => trace.label).join(', ')} use a temporary (302/307) redirect`, variantTable(redirects));
+  },
+
+  'mixed-content': ({ mixedContent, headers }) => {
+    if (!mixedContent || mixedContent.pagesScanned === 0) return null;
+    const scope = `${mixedContent.pagesScanned} HTTPS page(s)`;
+    if (mixedContent.resources.length === 0) return pass(`No http:// subresources across ${scope}`);
+
+    const csp = headers?.contentSecurityPolicy;
+    const upgrading = !!csp && !csp.reportOnly && /upgrade-insecure-requests/i.test(csp.value || '');
+    return fail(
+      `${mixedContent.activeCount} active and ${mixedContent.passiveCount} passive http:// resource(s) on ${mixedContent.pagesAffected} of ${scope}${upgrading ? ' (mitigated by CSP upgrade-insecure-requests)' : ''}`,
+      {
+        columns: ['Page', 'Resource', 'Element', 'Type'],
+        rows: mixedContent.resources.map(item => [item.pageUrl, item.url, item.element, item.category]),
+      }
+    );
+  },
+
+  'missing-hsts-header': ({ headers }) => {
+    if (!headers) return null;
+    const { hsts } = headers;
+    const table: EvidenceTable = {
+      columns: ['Header', 'Value'],
+      rows: [
+        ['Strict-Transport-Security', hsts.value || '(missing)'],
+        ['Content-Security-Policy', headers.contentSecurityPolicy.value ? `${headers.contentSecurityPolicy.reportOnly ? '(report-only) ' : ''}${headers.contentSecurityPolicy.value}` : '(missing)'],
+        ['X-Content-Type-Options', headers.xContentTypeOptions || '(missing)'],
+      ],
+    };
+    if (!headers.secure || !hsts.present || !hsts.maxAge) {
+      return fail(hsts.issues.join('; '), table);
+    }
+    return pass(
+      `HSTS max-age=${hsts.maxAge}${hsts.includeSubDomains ? ', includeSubDomains' : ''}${hsts.preload ? ', preload' : ''} - ${hsts.preloadEligible ? 'eligible for the preload list' : `not preload-eligible (${hsts.issues.join('; ') || 'missing preload directive'})`}`,
+      table
+    );
+  },
+
+  'self-referencing-canonicals': ({ canonical }) => {
+    if (!canonical) return null;
+    if (!canonical.selfReferencing) {
+      return fail(canonical.canonicalUrl
+        ? `Homepage canonicalises to ${canonical.canonicalUrl}`
+        : 'Homepage has no canonical tag or Link header');
+    }
+    const missing = canonical.sitewide?.notSelfReferencing || [];
+    if (missing.length > 0) {
+      return fail(`Homepage is self-canonical, but ${missing.length} of ${canonical.sitewide!.pagesChecked} crawled pages aren't`, {
+        columns: ['URL', 'Canonical'],
+        rows: missing.map(page => [page.url, page.canonicalUrl || '(none)']),
+      });
+    }
+    return pass(canonical.sitewide
+      ? `Homepage and ${canonical.sitewide.pagesChecked} crawled pages have self-referencing canonicals`
+      : `Homepage canonical is self-referencing: ${canonical.canonicalUrl}`);
+  },
+
+  'canonical-conflicts': ({ canonical, url }) => {
+    if (!canonical || canonical.declarations.length === 0) return null;
+    const rows: string[][] = [];
+    const target = canonical.target;
+    if (canonical.conflicting) {
+      rows.push([url, canonical.declarations.map(declaration => declaration.url).join(', '), 'Conflicting canonical declarations']);
+    }
+    if (target && (target.redirectsTo || target.statusCode !== 200 || target.noindex || target.error)) {
+      const problem = target.error || (target.redirectsTo ? `Target redirects to ${target.redirectsTo}` : target.noindex ? 'Target is noindexed' : `Target returns ${target.statusCode}`);
+      rows.push([url, target.url, problem]);
+    }
+    for (const conflict of canonical.sitewide?.conflicts || []) {
+      rows.push([conflict.url, conflict.canonicalUrl, conflict.problem]);
+    }
+    return rows.length === 0
+      ? pass(`Canonical targets return 200 and are indexable${canonical.sitewide ? ` across ${canonical.sitewide.pagesChecked} crawled pages` : ''}`)
+      : fail(`${rows.length} canonical(s) conflict or point at non-indexable URLs`, { columns: ['URL', 'Canonical', 'Problem'], rows });
+  },
+
+  'collection-filter-canonicals': (analysis) => {
+    // Crawled filtered URLs, plus the first filter link on each sampled collection
+    const parameterised = [
+      ...(analysis.canonical?.sitewide?.parameterised || []).map(page => ({ ...page, source: 'crawl' })),
+      // A filter link that errored or isn't HTML has no canonical to judge
+      ...sampledCollections(analysis).flatMap(collection => collection.filterCanonical && !collection.filterCanonical.error
+        ? [{ url: collection.filterCanonical.url, canonicalUrl: collection.filterCanonical.canonicalUrl, ok: collection.filterCanonical.toCollection, source: 'collection filter' }]
+        : []),
+    ];
+    if (parameterised.length === 0) return null;
+    const wrong = parameterised.filter(page => !page.ok);
+    const table = {
+      columns: ['Filtered URL', 'Canonical', 'Source', 'OK'],
+      rows: parameterised.map(page => [page.url, page.canonicalUrl || '(none)', page.source, page.ok ? 'yes' : 'no']),
+    };
+    return wrong.length === 0
+      ? pass(`All ${parameterised.length} filtered/parameterised URLs canonicalise to a parameter-free URL`, table)
+      : fail(`${wrong.length} of ${parameterised.length} filtered/parameterised URLs don't canonicalise to a clean URL`, table);
+  },
+
+  'intl-no-geo-redirects': ({ geoRedirects }) => {
+    if (!geoRedirects) return null;
+    const { baseline, repeat, variants, stableContent, redirects, contentVaries, issues } = geoRedirects;
+    if (!baseline.finalUrl) return null;
+    const table = {
+      columns: ['Locale', 'Country', 'Final URL', 'Status', 'Content hash', 'lang'],
+      rows: [baseline, repeat, ...variants].map(variant => [
+        variant.label,
+        variant.country || '-',
+        variant.finalUrl || variant.error || '-',
+        [...variant.redirects.map(hop => hop.split(' ')[0]), variant.finalStatus].filter(Boolean).join(' → '),
+        variant.contentHash || '-',
+        variant.lang || '-',
+      ]),
+    };
+    const checked = `${variants.length} locales checked by Accept-Language, CDN country headers and X-Forwarded-For`;
+    if (redirects || contentVaries) return fail(issues.filter(issue => !issue.startsWith('The page changes')).join('; '), table);
+    return pass(stableContent
+      ? `Every locale gets the same URL and content as a plain request (${checked})`
+      : `No locale is redirected, though the page changes between requests so only URL and lang were compared (${checked})`, table);
+  },
+
+  'intl-hreflang-implementation': ({ hreflang }) => {
+    if (!hreflang) return null;
+    const { locales, links } = hreflang.matrix;
+    // Rows annotate columns; a missing link between two locales is a broken pair
+    const table = {
+      columns: ['', ...locales],
+      rows: locales.map((locale, i) => [locale, ...links[i].map(linked => (linked ? '✓' : '✗'))]),
+    };
+    return hreflang.issues.length === 0
+      ? pass(`${locales.length} hreflang alternates with valid codes, x-default and reciprocal return tags`, table)
+      : fail(`${hreflang.issues.length} hreflang issue(s): ${hreflang.issues.slice(0, 3).join('; ')}`, table);
+  },
+
+  'intl-hreflang-sitemap': ({ sitemap, hreflang }) => {
+    const urls = sitemap.hreflangUrls || 0;
+    if (urls === 0 && !hreflang) return null;
+    return urls > 0
+      ? pass(`${urls} sitemap URL(s) declare <xhtml:link> hreflang alternates`)
+      : fail('The page uses hreflang but no sitemap entries declare <xhtml:link> alternates');
+  },
+
+  'ttfb': ({ timing }) => {
+    const measured = timing?.samples.filter(sample => sample.phases) || [];
+    if (!timing || measured.length === 0) return null;
+    const { ttfb } = timing.stats;
+    const table = {
+      columns: ['Phase', 'Median', 'p75', 'p95', 'Min', 'Max'],
+      rows: (['dns', 'connect', 'tls', 'wait', 'download', 'ttfb', 'total'] as const).map(phase => [
+        phase.toUpperCase(),
+        ...[timing.stats[phase].median, timing.stats[phase].p75, timing.stats[phase].p95, timing.stats[phase].min, timing.stats[phase].max].map(ms => `${ms}ms`),
+      ]),
+    };
+    const summary = `median TTFB ${ttfb.median}ms (p75 ${ttfb.p75}ms) over ${measured.length} fresh-connection requests`;
+    return ttfb.median <= MAX_TTFB_MS
+      ? pass(`Server responds quickly: ${summary}`, table)
+      : fail(`Server is slow to respond: ${summary}, over ${MAX_TTFB_MS}ms`, table);
+  },
+
+  'gzip-compression': ({ timing }) => {
+    if (!timing || timing.encodings.every(encoding => encoding.error)) return null;
+    const compressed = timing.encodings.filter(encoding => encoding.requested !== 'identity' && encoding.supported);
+    const table = {
+      columns: ['Accept-Encoding', 'Content-Encoding', 'Transferred'],
+      rows: timing.encodings.map(encoding => [
+        encoding.requested,
+        encoding.error || encoding.contentEncoding || '(none)',
+        encoding.transferredBytes !== undefined ? formatBytes(encoding.transferredBytes) : '',
+      ]),
+    };
+    return compressed.length > 0
+      ? pass(`HTML is served compressed with ${compressed.map(encoding => encoding.requested).join(', ')}`, table)
+      : fail('Server ignores gzip, brotli and zstd and sends HTML uncompressed', table);
+  },
+
+  'uncompressed-html': ({ timing }) => {
+    if (timing?.decodedBytes === undefined) return null;
+    const transferred = timing.transferredBytes !== undefined
+      ? ` (${formatBytes(timing.transferredBytes)} transferred${timing.contentEncoding ? ` with ${timing.contentEncoding}` : ''})`
+      : '';
+    return timing.decodedBytes <= MAX_HTML_BYTES
+      ? pass(`HTML is ${formatBytes(timing.decodedBytes)} uncompressed${transferred}`)
+      : fail(`HTML is ${formatBytes(timing.decodedBytes)} uncompressed, over the 2MB limit${transferred}`);
+  },
+
+  'js-dependency': ({ rendering }) => {
+    if (!rendering) return null;
+    const table = {
+      columns: ['Signal', 'Found'],
+      rows: [
+        ['Frameworks', rendering.frameworks.join(', ') || 'none detected'],
+        ['Empty app mounts', rendering.emptyMounts.join(', ') || 'none'],
+        ['Words in HTML', String(rendering.visibleWords)],
+        ['Words in hydration state', `${rendering.hydrationWords} (${formatBytes(rendering.hydrationBytes)})`],
+        ['Internal links in HTML', String(rendering.visibleLinks)],
+        ['Navigation links in HTML', String(rendering.navigationLinks)],
+        ['<noscript> content', `${rendering.noscript.words} words, ${rendering.noscript.links} links${rendering.noscript.requiresJs ? ', asks to enable JavaScript' : ''}`],
+      ],
+    };
+    const summary = `Content visible without JavaScript scores ${rendering.score}/100${rendering.frameworks.length ? ` (${rendering.frameworks.join(', ')})` : ''}`;
+    return rendering.score >= MIN_NO_JS_SCORE
+      ? pass(summary, table)
+      : fail(`${summary}: ${rendering.issues.join('; ')}`, table);
+  },
+
+  'render-blocking-resources': ({ resources }) => {
+    const head = resources?.items.filter(item => item.inHead) || [];
+    if (!resources || head.length === 0) return null;
+    const blocking = head.filter(item => item.blocking);
+    const scripts = blocking.filter(item => item.type === 'js' && item.url);
+    const stylesheets = blocking.filter(item => item.type === 'css');
+    const imports = stylesheets.filter(item => item.importedBy);
+    const table = {
+      columns: ['#', 'Resource', 'Type', 'Loading', 'Blocks render', 'Size', 'Time'],
+      rows: head.map((item, i) => [
+        String(i + 1),
+        item.url ? `${item.importedBy ? '\u00a0\u00a0@import ' : ''}${item.url}` : `(inline ${item.type === 'js' ? '<script>' : '<style>'})`,
+        RESOURCE_LABELS[item.type],
+        item.loading,
+        item.blocking ? 'yes' : '',
+        item.error || (item.bytes !== undefined ? formatBytes(item.bytes) : ''),
+        item.timeMs !== undefined ? `${item.timeMs}ms` : '',
+      ]),
+    };
+    const blockingBytes = blocking.filter(item => item.url).reduce((sum, item) => sum + (item.bytes || 0), 0);
+    const summary = `${scripts.length} sync script(s) and ${stylesheets.length} stylesheet(s) block rendering (${formatBytes(blockingBytes)})`;
+    if (scripts.length > 0 || imports.length > 0 || stylesheets.length > MAX_BLOCKING_STYLESHEETS) {
+      const extras = [
+        scripts.length > 0 && 'add async or defer to head scripts',
+        imports.length > 0 && `${imports.length} stylesheet(s) are chained through @import`,
+        stylesheets.length > MAX_BLOCKING_STYLESHEETS && `more than ${MAX_BLOCKING_STYLESHEETS} blocking stylesheets`,
+      ].filter(Boolean);
+      return fail(`${summary}: ${extras.join('; ')}`, table);
+    }
+    return pass(summary, table);
+  },
+
+  'carbon-footprint': ({ resources }) => {
+    if (!resources) return null;
+    const chart = {
+      bars: [
+        ...(Object.keys(RESOURCE_LABELS) as ResourceType[])
+          .filter(type => resources.weight[type] > 0)
+          .map(type => ({ label: RESOURCE_LABELS[type], value: resources.weight[type], display: formatBytes(resources.weight[type]) })),
+        { label: 'Third-party (all types)', value: resources.thirdPartyBytes, display: formatBytes(resources.thirdPartyBytes) },
+      ],
+    };
+    const summary = `${resources.co2Grams}g CO₂ per view (rating ${resources.co2Rating}) for ${formatBytes(resources.totalBytes)} of page weight, ${formatBytes(resources.thirdPartyBytes)} third-party`;
+    return resources.co2Rating !== 'F'
+      ? pass(summary, undefined, chart)
+      : fail(summary, undefined, chart);
+  },
+
+  'soft-404s': ({ notFound }) => {
+    if (!notFound) return null;
+    const table = {
+      columns: ['Made-up URL', 'Redirects', 'Final status', 'Similarity to home', 'Verdict'],
+      rows: notFound.probes.map(probe => [
+        probe.url,
+        probe.redirect.hops.map(hop => `${hop.statusCode} → ${hop.location}`).join(', ') || 'none',
+        probe.redirect.finalStatus ? String(probe.redirect.finalStatus) : probe.redirect.error || '',
+        probe.similarityToHome !== undefined ? `${Math.round(probe.similarityToHome * 100)}%` : '',
+        probe.soft ? `Soft 404: ${probe.reason}` : 'ok',
+      ]),
+    };
+    const wrongStatus = notFound.probes.filter(probe => !probe.soft && probe.redirect.finalStatus !== 404 && probe.redirect.finalStatus !== 410);
+    if (notFound.softNotFound) {
+      return fail(`Missing pages are soft 404s: ${notFound.probes.filter(probe => probe.soft).map(probe => probe.reason).join('; ')}`, table);
+    }
+    return wrongStatus.length === 0
+      ? pass(`Made-up URLs return ${[...new Set(notFound.probes.map(probe => probe.redirect.finalStatus))].join('/')}`, table)
+      : fail(`Made-up URLs return ${wrongStatus.map(probe => probe.redirect.finalStatus ?? probe.redirect.error).join(', ')} instead of 404`, table);
+  },
+
+  'optimised-404-page': ({ notFound }) => {
+    const page = notFound?.page;
+    if (!page) return null;
+    const table = {
+      columns: ['Title', 'Says not found', 'Navigation links', 'Search box', 'Home link'],
+      rows: [[page.title || '(none)', page.mentionsNotFound ? 'yes' : 'no', String(page.navigationLinks), page.hasSearch ? 'yes' : 'no', page.hasHomeLink ? 'yes' : 'no']],
+    };
+    const problems = notFound.issues.filter(issue => issue.startsWith('Error page'));
+    return problems.length === 0
+      ? pass('404 page explains the error and offers navigation, search and a link home', table)
+      : fail(problems.join('; '), table);
+  },
+
+  'missing-meta-descriptions': ({ crawl }) => {
+    if (!crawl) return null;
+    const missing = htmlPages(crawl).filter(page => !page.description);
+    return missing.length === 0
+      ? pass(`Every page has a meta description across ${crawlScope(crawl)}`)
+      : fail(`${missing.length} page(s) have no meta description`, { columns: ['URL'], rows: missing.map(page => [page.url]) });
+  },
+
+  'duplicate-meta-titles': duplicateDetector('title', page => page.title),
+
+  'duplicate-meta-descriptions': duplicateDetector('description', page => page.description),
+
+  'internal-404s': statusDetector('404/410', statusCode => statusCode === 404 || statusCode === 410),
+
+  '5xx-errors': statusDetector('5xx', statusCode => statusCode >= 500),
+
+  'crawl-depth': ({ crawl }) => {
+    if (!crawl) return null;
+    const deep = htmlPages(crawl).filter(page => page.depth > MAX_CRAWL_DEPTH);
+    return deep.length === 0
+      ? pass(`All pages within ${MAX_CRAWL_DEPTH} clicks of the homepage across ${crawlScope(crawl)}`)
+      : fail(`${deep.length} page(s) more than ${MAX_CRAWL_DEPTH} clicks from the homepage`, {
+          columns: ['URL', 'Depth', 'Linked from'],
+          rows: deep.map(page => [page.url, String(page.depth), page.linkedFrom.join(', ')]),
+        });
+  },
+
+  'orphan-pages': ({ crawl, sitemap }) => {
+    // A partial crawl can't prove a page has no internal links
+    if (!crawl || crawl.truncated || !sitemap.exists) return null;
+    return crawl.orphanCandidates.length === 0
+      ? pass(`Every sitemap URL is linked from the ${crawl.pages.length} crawled pages`)
+      : fail(`${crawl.orphanCandidates.length} sitemap URL(s) aren't linked from any crawled page`, {
+          columns: ['URL'],
+          rows: crawl.orphanCandidates.map(url => [url]),
+        });
+  },
+
+  'noindex-key-pages': ({ technical, headers }) => {
+    if (!technical.hasNoindex) return null;
+    return headers?.noindex
+      ? fail(`Homepage is noindexed by the X-Robots-Tag header (${headers.raw['x-robots-tag']})`)
+      : fail('Homepage has a noindex robots meta tag');
+  },
+
+  'h1-tags': ({ headings }) => {
+    const h1s = (headings.outline || []).filter(heading => heading.level === 1);
+    const h1Issues = (headings.issues || []).filter(issue => issue.startsWith('H1') || issue === 'Empty H1');
+    const table = headings.outline?.length ? outlineTable(headings.outline) : undefined;
+    if (headings.h1Count !== 1) {
+      return fail(`Found ${headings.h1Count} H1 tags on homepage${headings.h1Count > 0 ? `: ${headings.h1Tags.map(h => `"${h}"`).join(', ')}` : ''}`, table);
+    }
+    if (h1Issues.length > 0) return fail(h1Issues.join('; '), table);
+    const otherIssues = (headings.issues || []).length;
+    return pass(`One H1 on homepage: "${h1s[0]?.text ?? headings.h1Tags[0]}"${otherIssues ? ` (${otherIssues} outline issue(s) below it)` : ''}`, table);
+  },
+
+  'missing-h1-tag': ({ headings }) => {
+    if (headings.h1Count === 0) return fail('Homepage is missing an H1 tag');
+    const visible = (headings.outline || []).filter(heading => heading.level === 1 && !heading.empty && !heading.hidden);
+    return visible.length > 0 || !headings.outline
+      ? pass('Homepage has an H1 tag')
+      : fail('Homepage has an H1 tag, but it is empty or hidden', outlineTable(headings.outline));
+  },
+
+  'citation-ready-formatting': ({ headings, content, aiReadiness }) => {
+    if (!content || !headings.outline) return null;
+    const subheadings = headings.outline.filter(heading => heading.level > 1 && !heading.empty).length;
+    const skipped = headings.outline.filter(heading => heading.skipsLevel).length;
+    const summary = `${content.wordCount} words, ${content.paragraphCount} paragraphs, ${subheadings} subheadings, ${content.listCount} lists, ${content.tableCount} tables (text/HTML ${content.textHtmlRatio}%)`;
+    const facts = aiReadiness?.facts;
+    const factSummary = facts ? `, ${facts.statistics.length} statistic(s), ${facts.definitions.length} defined term(s)` : '';
+    // Quotable facts when they were collected, otherwise the outline
+    const table = facts && facts.statistics.length + facts.definitions.length > 0
+      ? {
+          columns: ['Kind', 'Snippet'],
+          rows: [...facts.statistics.map(text => ['Statistic', text]), ...facts.definitions.map(text => ['Definition', text])],
+        }
+      : outlineTable(headings.outline);
+    return subheadings >= MIN_SUBHEADINGS && content.listCount + content.tableCount > 0 && skipped === 0
+      ? pass(`${summary}${factSummary}`, table)
+      : fail(`Content isn't broken into extractable sections: ${summary}${factSummary}${skipped ? `, ${skipped} skipped heading level(s)` : ''}`, table);
+  },
+
+  'collection-h1-description': ({ crawl }) => {
+    const collections = htmlPages(crawl).filter(page => COLLECTION_PATH.test(new URL(page.url).pathname) && page.h1s.length > 0);
+    if (collections.length === 0) return null;
+    const missing = collections.filter(page => !page.h1Description);
+    const table = {
+      columns: ['URL', 'H1', 'Description'],
+      rows: collections.map(page => [page.url, page.h1s[0], page.h1Description || '(none)']),
+    };
+    return missing.length === 0
+      ? pass(`All ${collections.length} crawled collection pages have a description under the H1`, table)
+      : fail(`${missing.length} of ${collections.length} crawled collection pages have no description under the H1`, table);
+  },
+
+  'collection-breadcrumbs': (analysis) => sampledPagesCheck(
+    sampledCollections(analysis), 'collection', 'have structurally correct breadcrumbs', ['Trail', 'Source', 'Issues'],
+    page => page.breadcrumbs.found && page.breadcrumbs.issues.length === 0,
+    page => [page.breadcrumbs.items.join(' > ') || '(none)', page.breadcrumbs.source || '-', page.breadcrumbs.issues.join('; ')]
+  ),
+
+  'collection-product-ctas': (analysis) => sampledPagesCheck(
+    sampledCollections(analysis), 'collection', 'have a CTA on every product card', ['Product cards', 'With CTA'],
+    page => page.productCards > 0 && page.cardsWithCta === page.productCards,
+    page => [String(page.productCards), String(page.cardsWithCta)]
+  ),
+
+  'collection-product-carousels': (analysis) => sampledPagesCheck(
+    sampledCollections(analysis), 'collection', 'link to individual product pages', ['Product links', 'Carousel', 'Pagination'],
+    page => page.productLinks > 0,
+    page => [String(page.productLinks), page.carousel ? 'yes' : 'no', page.pagination.relNext ? 'rel=next' : page.pagination.found ? 'yes' : 'no']
+  ),
+
+  'collection-reviews-banner': (analysis) => sampledPagesCheck(
+    sampledCollections(analysis), 'collection', 'show a reviews widget', ['Widget'],
+    page => !!page.reviewsWidget,
+    page => [page.reviewsWidget || '(none)']
+  ),
+
+  'collection-faqs': (analysis) => sampledPagesCheck(
+    sampledCollections(analysis), 'collection', 'have FAQs with FAQPage schema', ['FAQs', 'FAQ schema'],
+    page => page.hasFaqs && page.faqSchema,
+    page => [page.hasFaqs ? 'yes' : 'no', page.faqSchema ? 'yes' : 'no']
+  ),
+
+  'product-pricing': (analysis) => sampledPagesCheck(
+    sampledProducts(analysis), 'product', 'show a price with its currency', ['Price', 'Currency', 'Source', 'Shown as'],
+    page => !!page.price && !!page.currency,
+    page => [page.price || '(none)', page.currency || '(none)', page.priceSource || '-', page.visiblePrice || '-']
+  ),
+
+  'product-stock-availability': (analysis) => sampledPagesCheck(
+    sampledProducts(analysis), 'product', 'show stock availability', ['Availability', 'Source', 'Shown as'],
+    page => !!page.availability,
+    page => [page.availability || '(none)', page.availabilitySource || '-', page.visibleAvailability || '-']
+  ),
+
+  'product-review-rating': (analysis) => sampledPagesCheck(
+    sampledProducts(analysis), 'product', 'show a review rating', ['Rating', 'Reviews', 'Widget'],
+    page => !!page.reviews,
+    page => [page.reviews?.rating ? String(page.reviews.rating) : '-', page.reviews?.count ? String(page.reviews.count) : '-', page.reviews?.widget || '-']
+  ),
+
+  'product-specs-features': (analysis) => sampledPagesCheck(
+    sampledProducts(analysis), 'product', 'have a specs or features section', [],
+    page => page.hasSpecs,
+    () => []
+  ),
+
+  'product-return-policy': (analysis) => sampledPagesCheck(
+    sampledProducts(analysis), 'product', 'link to a returns policy', ['Returns link'],
+    page => !!page.links.returns,
+    page => [page.links.returns || '(none)']
+  ),
+
+  'product-shipping': (analysis) => sampledPagesCheck(
+    sampledProducts(analysis), 'product', 'link to shipping information', ['Shipping link'],
+    page => !!page.links.shipping,
+    page => [page.links.shipping || '(none)']
+  ),
+
+  'product-warranty': (analysis) => sampledPagesCheck(
+    sampledProducts(analysis), 'product', 'link to warranty information', ['Warranty link'],
+    page => !!page.links.warranty,
+    page => [page.links.warranty || '(none)']
+  ),
+
+  'product-contact-info': (analysis) => sampledPagesCheck(
+    sampledProducts(analysis), 'product', 'link to customer support or contact details', ['Contact'],
+    page => !!page.links.contact,
+    page => [page.links.contact || '(none)']
+  ),
+
+  'placeholder-text': ({ url, hygiene, crawl }) => {
+    if (!hygiene) return null;
+    // The audited page plus every other crawled page
+    const pages = [
+      { url, placeholders: hygiene.placeholders },
+      ...htmlPages(crawl).filter(page => page.url !== url && page.placeholders),
+    ];
+    const found = pages.flatMap(page => (page.placeholders || []).map(match => ({ url: page.url, match })));
+    const scope = crawl ? `the audited page and ${crawlScope(crawl)}` : 'the audited page';
+    if (found.length === 0) return pass(`No placeholder text found on ${scope}`);
+    const table = {
+      columns: ['URL', 'Kind', 'Match', 'Location', 'Snippet'],
+      rows: found.map(({ url: pageUrl, match }) => [pageUrl, match.kind, match.match, match.location, match.snippet]),
+    };
+    const affected = new Set(found.map(item => item.url)).size;
+    return fail(`${found.length} placeholder(s) found on ${affected} page(s), checking ${scope}`, table);
+  },
+
+  'copyright-date': ({ hygiene }) => {
+    if (!hygiene) return null;
+    const { copyright, currentYear } = hygiene;
+    if (!copyright) return fail('No copyright notice found on the page');
+    const where = `"${copyright.text}" (${copyright.location})`;
+    if (!copyright.inFooter) return fail(`Copyright notice isn't in the footer: ${where}`);
+    if (copyright.year === currentYear) return pass(`Footer copyright is up to date: ${where}`);
+    if (copyright.dynamic) return pass(`Footer copyright year is written by a script, so it shows ${currentYear}: ${where}`);
+    return copyright.year
+      ? fail(`Footer copyright year is ${copyright.year}, not ${currentYear}: ${where}`)
+      : fail(`Footer copyright has no year: ${where}`);
+  },
+
+  'author-bios': ({ authorship }) => {
+    if (!authorship || authorship.pages.length === 0) return null;
+    const table = {
+      columns: ['Article', 'Author', 'Profile link', 'Sources', 'Bio on page'],
+      rows: authorship.pages.map(page => [
+        page.url,
+        [...new Set(page.authors.map(author => author.name).filter(Boolean))].join(', ') || '(none)',
+        page.authors.find(author => author.url)?.url || '(none)',
+        [...new Set(page.authors.map(author => author.source))].join(', '),
+        page.hasBio ? 'yes' : 'no',
+      ]),
+    };
+    const missing = authorship.pages.filter(page => !page.hasBio || !page.authors.some(author => author.url));
+    return missing.length === 0
+      ? pass(`All ${authorship.pages.length} article(s) checked have an author bio and a link to the author's page`, table)
+      : fail(`${missing.length} of ${authorship.pages.length} article(s) checked lack an author bio or a link to the author's page`, table);
+  },
+
+  'author-profile-pages': ({ authorship }) => {
+    if (!authorship || authorship.pages.length === 0) return null;
+    const { profiles } = authorship;
+    if (profiles.length === 0) return fail("Articles checked don't link to an author page on the site");
+    const table = {
+      columns: ['Author page', 'Status', 'Bio', 'Social links', 'Article links'],
+      rows: profiles.map(profile => [
+        profile.url,
+        profile.error || String(profile.statusCode ?? ''),
+        profile.bioExcerpt || '(none)',
+        String(profile.socialLinks),
+        String(profile.articleLinks),
+      ]),
+    };
+    const complete = profiles.filter(profile => profile.hasBio && profile.articleLinks > 0 && !profile.error && profile.statusCode === 200);
+    return complete.length === profiles.length
+      ? pass(`${profiles.length} author page(s) have a bio and link to the author's articles`, table)
+      : fail(`${profiles.length - complete.length} of ${profiles.length} author page(s) are missing, have no bio or don't list the author's articles`, table);
+  },
+
+  'date-published-updated': ({ authorship }) => {
+    if (!authorship || authorship.pages.length === 0) return null;
+    const table = {
+      columns: ['Article', 'Kind', 'Date', 'As written', 'Source'],
+      rows: authorship.pages.flatMap(page => page.dates.map(date => [page.url, date.kind, date.iso || '?', date.value, date.source])),
+    };
+    const undated = authorship.pages.filter(page => !page.published && !page.modified);
+    const inconsistent = authorship.pages.filter(page => !page.datesConsistent);
+    if (undated.length > 0) return fail(`${undated.length} of ${authorship.pages.length} article(s) checked show no published or updated date`, table);
+    if (inconsistent.length > 0) return fail(`Sources disagree on the dates of ${inconsistent.length} article(s): ${inconsistent.map(page => page.url).join(', ')}`, table);
+    return pass(`All ${authorship.pages.length} article(s) checked have consistent published/updated dates`, table);
+  },
+
+  // LocalBusiness is an Organization, validated against its own rules
+  'organisation-schema': schemaDetector(['Organization', 'LocalBusiness'], 'Organization', true),
+
+  'person-schema': schemaDetector(['Person'], 'Person', false),
+
+  // Product pages are sampled separately; the homepage rarely is one
+  'product-schema': schemaDetector(['Product'], 'Product', false),
+
+  'local-nap-details': ({ nap }) => {
+    if (!nap) return null;
+    const table = {
+      columns: ['Detail', 'Value', 'Source'],
+      rows: [
+        ...nap.names.map(name => ['Name', name.value, name.source]),
+        ...nap.addresses.map(address => ['Address', address.raw, address.source]),
+        ...nap.phones.map(phone => ['Phone', phone.e164 ? `${phone.raw} (${phone.e164})` : phone.raw, phone.source]),
+        ...nap.openingHours.map(hours => ['Opening hours', hours, '']),
+      ],
+    };
+    const missing = [
+      nap.addresses.length === 0 && 'address',
+      nap.phones.length === 0 && 'phone number',
+      nap.openingHours.length === 0 && 'opening hours',
+    ].filter(Boolean);
+    return missing.length === 0
+      ? pass('Page shows the address, phone number and opening hours', table)
+      : fail(`Page is missing its ${missing.join(', ')}`, table);
+  },
+
+  'gbp-business-name': (analysis, { referenceNap }) => {
+    if (!referenceNap?.name) return null;
+    const reference = normaliseBusinessName(referenceNap.name);
+    const rows = napPages(analysis).flatMap(({ url, nap }) => nap.names.map(name => {
+      const normalised = normaliseBusinessName(name.value);
+      return [url, name.source, name.value, normalised, normalised === reference ? '✓' : '✗'];
+    }));
+    if (rows.length === 0) return fail(`No business name found to compare with "${referenceNap.name}"`);
+    const mismatches = rows.filter(row => row[4] !== '✓');
+    return mismatches.length === 0
+      ? pass(`All ${rows.length} business name(s) found match "${referenceNap.name}"`, napMatchTable(rows))
+      : fail(`${mismatches.length} of ${rows.length} business name(s) found differ from "${referenceNap.name}"`, napMatchTable(rows));
+  },
+
+  'gbp-address': (analysis, { referenceNap }) => {
+    if (!referenceNap?.address) return null;
+    const reference = parseAddress(referenceNap.address);
+    const rows = napPages(analysis).flatMap(({ url, nap }) => nap.addresses.map(address => {
+      const mismatched = addressMismatches(address.parts, reference);
+      const parts = Object.entries(address.parts).filter(([, value]) => value).map(([key, value]) => `${key}: ${value}`).join('; ');
+      return [url, address.source, address.raw, parts, mismatched.length ? `✗ ${mismatched.join(', ')}` : '✓'];
+    }));
+    if (rows.length === 0) return fail(`No address found to compare with "${referenceNap.address}"`);
+    const mismatches = rows.filter(row => row[4] !== '✓');
+    return mismatches.length === 0
+      ? pass(`All ${rows.length} address(es) found match the Google Business Profile`, napMatchTable(rows))
+      : fail(`${mismatches.length} of ${rows.length} address(es) found differ from "${referenceNap.address}"`, napMatchTable(rows));
+  },
+
+  'gbp-phone': (analysis, { referenceNap }) => {
+    if (!referenceNap?.phone) return null;
+    const pages = napPages(analysis);
+    const reference = normalisePhone(referenceNap.phone, referenceNap.country || pages[0]?.nap.country);
+    const rows = pages.flatMap(({ url, nap }) => nap.phones.map(phone => [
+      url,
+      phone.source,
+      phone.raw,
+      phone.e164 || '(unknown country)',
+      samePhone(phone, reference || referenceNap.phone) ? '✓' : '✗',
+    ]));
+    if (rows.length === 0) return fail(`No phone number found to compare with ${referenceNap.phone}`);
+    const mismatches = rows.filter(row => row[4] !== '✓');
+    return mismatches.length === 0
+      ? pass(`All ${rows.length} phone number(s) found match ${reference || referenceNap.phone}`, napMatchTable(rows))
+      : fail(`${mismatches.length} of ${rows.length} phone number(s) found differ from ${reference || referenceNap.phone}`, napMatchTable(rows));
+  },
+
+  'local-business-schema': schemaDetector(['LocalBusiness'], 'LocalBusiness', true),
+
+  'structured-data-coverage': ({ structuredData }) => {
+    if (!structuredData) return null;
+    const { validations, errors } = structuredData;
+    if (structuredData.entities.length === 0 && errors.length === 0) {
+      return fail('No JSON-LD, microdata or RDFa structured data found on homepage');
+    }
+    const invalid = validations.filter(validation => validation.missingRequired.length > 0);
+    const table = validationTable(validations);
+    if (errors.length > 0 || invalid.length > 0) {
+      return fail([...errors, ...invalid.map(validation => `${validation.type} is missing ${validation.missingRequired.join(', ')}`)].join('; '), table);
+    }
+    const types = [...new Set(validations.map(validation => validation.type))];
+    return pass(`Structured data parses cleanly${types.length ? ` with valid ${types.join(', ')}` : ''} (${structuredData.entities.length} top-level entities)`, table);
+  },
+
+  'faq-sections': ({ schema, aiReadiness }) => {
+    if (!aiReadiness) return schema.hasFAQ ? pass('FAQPage schema found on homepage') : null;
+    const { faqs } = aiReadiness;
+    // No FAQ on the homepage isn't a failure; key pages may still have one
+    if (faqs.length === 0) return null;
+    const sources = [...new Set(faqs.map(faq => faq.source))];
+    const table = {
+      columns: ['Source', 'Question', 'Answer'],
+      rows: faqs.map(faq => [faq.source, faq.question, faq.answer || '(none)']),
+    };
+    // Marked-up Q&A has to be on the page too, with an answer, or search engines ignore it
+    const questionKey = (question: string) => question.toLowerCase().replace(/\?$/, '');
+    const visible = new Set(faqs.filter(faq => faq.source !== 'schema').map(faq => questionKey(faq.question)));
+    const hidden = faqs.filter(faq => faq.source === 'schema' && !visible.has(questionKey(faq.question)));
+    const unanswered = faqs.filter(faq => !faq.answer);
+    if (hidden.length > 0 || unanswered.length > 0) {
+      return fail([
+        ...(hidden.length ? [`${hidden.length} FAQPage question(s) aren't shown on the page`] : []),
+        ...(unanswered.length ? [`${unanswered.length} question(s) have no answer`] : []),
+      ].join('; '), table);
+    }
+    return pass(`${faqs.length} Q&A pair(s) on the homepage from ${sources.join(', ')}${schema.hasFAQ ? '' : '; no FAQPage schema marks them up'}`, table);
+  },
+
+  'clear-direct-answers': ({ aiReadiness, rendering }) => {
+    if (!aiReadiness || aiReadiness.answers.length === 0) return null;
+    const { answers } = aiReadiness;
+    const indirect = answers.filter(answer => !answer.direct);
+    const table = {
+      columns: ['Question', 'First sentence', 'Words', 'Answers first'],
+      rows: answers.map(answer => [answer.question, answer.answer || '(none)', String(answer.words), answer.direct ? '✓' : `✗ ${answer.reason}`]),
+    };
+    // Answers that only appear after JavaScript runs are invisible to most AI crawlers
+    const jsNote = rendering && rendering.score < MIN_NO_JS_SCORE ? `; only ${rendering.score}/100 of the page renders without JavaScript` : '';
+    return indirect.length === 0 && !jsNote
+      ? pass(`All ${answers.length} question headings open with a direct answer`, table)
+      : fail(`${indirect.length} of ${answers.length} question headings don't open with a direct answer${jsNote}`, table);
+  },
+
+  'llms-txt': ({ aiReadiness }) => {
+    if (!aiReadiness) return null;
+    const { llmsTxt, llmsFullTxt } = aiReadiness;
+    const status = (file: typeof llmsTxt) => file.error || (file.statusCode ? String(file.statusCode) : '-');
+    // One row per file, then llms.txt's sections under it
+    const table = {
+      columns: ['File', 'Status', 'Size', 'Contents'],
+      rows: [
+        [llmsTxt.url, status(llmsTxt), llmsTxt.bytes !== undefined ? formatBytes(llmsTxt.bytes) : '-',
+          llmsTxt.exists ? [llmsTxt.title && `# ${llmsTxt.title}`, llmsTxt.summary && `> ${llmsTxt.summary}`].filter(Boolean).join(' ') || '-' : 'not found'],
+        ...llmsTxt.sections.map(section => [`\u00a0\u00a0## ${section.title}`, '', '', `${section.links} link(s)`]),
+        [llmsFullTxt.url, status(llmsFullTxt), llmsFullTxt.bytes !== undefined ? formatBytes(llmsFullTxt.bytes) : '-', llmsFullTxt.exists ? 'served as text' : 'not found'],
+      ],
+    };
+    if (!llmsTxt.exists) {
+      return fail(`No /llms.txt${llmsTxt.issues.length ? `: ${llmsTxt.issues.join('; ')}` : ''}`, table);
+    }
+    const issues = [
+      ...llmsTxt.issues.map(issue => `llms.txt: ${issue}`),
+      ...(llmsFullTxt.exists ? llmsFullTxt.issues.map(issue => `llms-full.txt: ${issue}`) : []),
+    ];
+    const summary = `/llms.txt lists ${llmsTxt.linkCount} link(s) in ${llmsTxt.sections.length} section(s)${llmsFullTxt.exists ? ', with /llms-full.txt alongside' : ''}`;
+    return issues.length === 0
+      ? pass(summary, table)
+      : fail(`${summary}, but has ${issues.length} format issue(s): ${issues.slice(0, 3).join('; ')}`, table);
+  },
+
+  'image-alt-text': ({ images }) => {
+    if (!images || images.imgCount === 0) return null;
+    const flagged = imageIssues(images.items.filter(item => item.source === 'img'), 'alt');
+    const sitewide = images.sitewide?.pagesChecked
+      ? `; ${images.sitewide.altCoverage}% across ${images.sitewide.imgCount} images on ${images.sitewide.pagesChecked} crawled pages`
+      : '';
+    const summary = `${images.altCoverage}% of ${images.imgCount} homepage images have alt text (${images.altEmpty} empty, ${images.altMissing} missing)${sitewide}`;
+    return flagged.length === 0 && (images.sitewide?.altCoverage ?? 100) === 100
+      ? pass(summary)
+      : fail(summary, imageTable(flagged, 'alt', ['Image', 'Alt'], item => [item.url, item.alt ?? '(missing)']));
+  },
+
+  'image-file-names': ({ images }) => {
+    if (!images || images.items.length === 0) return null;
+    const flagged = imageIssues(images.items, 'file-name');
+    const summary = `${images.fileNameCoverage}% of ${images.items.length} images have descriptive file names`;
+    return flagged.length === 0
+      ? pass(summary)
+      : fail(summary, imageTable(flagged, 'file-name', ['Image', 'Source'], item => [item.url, item.source]));
+  },
+
+  'image-optimisation': ({ images }) => {
+    if (!images || images.fetched === 0) return null;
+    const flagged = imageIssues(images.items, 'optimisation');
+    const lazy = images.imgCount > 0 ? `, ${images.lazyLoaded} of ${images.imgCount} lazy-loaded` : '';
+    const summary = `${images.fetched} images fetched, ${Math.round(images.totalBytes / 1024)}KB in total${lazy}`;
+    return flagged.length === 0
+      ? pass(`${summary}; all modern formats, under the size limit and not oversized`)
+      : fail(`${flagged.length} image(s) are heavy, legacy-format or oversized (${summary})`,
+          imageTable(flagged, 'optimisation', ['Image', 'Format', 'Size', 'Intrinsic', 'Declared'], item => [
+            item.url,
+            item.format || '',
+            item.bytes !== undefined ? `${Math.round(item.bytes / 1024)}KB` : '',
+            item.intrinsic ? `${item.intrinsic.width}×${item.intrinsic.height}` : '',
+            item.declared ? `${item.declared.width ?? '?'}×${item.declared.height ?? '?'}` : '',
+          ]));
+  },
+
+  'product-image-alt-text': contextAltDetector('product', 'product'),
+
+  'collection-carousel-alt-text': contextAltDetector('carousel', 'carousel'),
+
+  'favicon': ({ meta }) =>
+    meta.favicon
+      ? pass(`Favicon declared: ${meta.favicon}`)
+      : fail('No <link rel="icon"> found on homepage'),
+
+  'about-page-exists': ({ pages }) =>
+    pages.hasAbout ? pass('About page linked from homepage') : fail('No about page link found on homepage'),
+
+  'privacy-policy': ({ pages }) =>
+    pages.hasPrivacy ? pass('Privacy policy linked from homepage') : fail('No privacy policy link found on homepage'),
+
+  'terms-conditions': ({ pages }) =>
+    pages.hasTerms ? pass('Terms page linked from homepage') : fail('No terms & conditions link found on homepage'),
+
+  'contact-us-page': ({ pages }) =>
+    pages.hasContact ? pass('Contact page linked from homepage') : null,
+
+  'social-media-links': ({ social }) => {
+    const { links, shareLinks, sameAs } = social;
+    const linkedPlatforms = new Set(links.map(link => link.platform));
+    const unlinked = sameAs.filter(profile => profile.platform && !linkedPlatforms.has(profile.platform));
+    const sameAsPlatforms = new Set(sameAs.map(profile => profile.platform));
+    const table = {
+      columns: ['Platform', 'Profile', 'Handle', 'In footer', 'In sameAs'],
+      rows: [
+        ...links.map(link => [link.platform, link.url, link.handle || '-', link.inFooter ? '✓' : '✗', sameAsPlatforms.has(link.platform) ? '✓' : '✗']),
+        ...unlinked.map(profile => [profile.platform!, profile.url, profile.handle || '-', 'not linked', '✓']),
+      ],
+    };
+    if (links.length === 0) {
+      return fail(shareLinks.length > 0
+        ? `No social profile links found on homepage, only ${shareLinks.length} share button link(s)`
+        : 'No social profile links found on homepage', table);
+    }
+    const platforms = [...linkedPlatforms];
+    const footerPlatforms = [...new Set(links.filter(link => link.inFooter).map(link => link.platform))];
+    const gaps = unlinked.length > 0 ? `; sameAs lists ${unlinked.map(profile => profile.platform).join(', ')} but the page doesn't link to ${unlinked.length === 1 ? 'it' : 'them'}` : '';
+    return footerPlatforms.length > 0
+      ? pass(`Footer links to ${footerPlatforms.join(', ')}${platforms.length > footerPlatforms.length ? `, and the page to ${platforms.filter(platform => !footerPlatforms.includes(platform)).join(', ')}` : ''}${gaps}`, table)
+      : fail(`Links to ${platforms.join(', ')}, but none are in the footer${gaps}`, table);
+  },
+
+  'consistent-handles': (analysis) => {
+    const handles = socialHandles(analysis.social);
+    if (handles.length === 0) return null;
+    const brand = brandName(analysis);
+    const matchesBrand = (handle: string, platform: string) => {
+      const normalised = normaliseHandle(handle, platform);
+      return !!brand && (normalised.includes(brand) || brand.includes(normalised));
+    };
+    const table = {
+      columns: ['Platform', 'Handle', 'Source', 'Matches brand'],
+      rows: handles.map(row => [row.platform, `@${row.handle.replace(/^@/, '')}`, row.source, brand ? (matchesBrand(row.handle, row.platform) ? '✓' : '✗') : '-']),
+    };
+    const groups = new Map<string, string[]>();
+    for (const row of handles) {
+      const key = normaliseHandle(row.handle, row.platform);
+      groups.set(key, [...new Set([...(groups.get(key) || []), row.platform])]);
+    }
+    const platformCount = new Set(handles.map(row => row.platform)).size;
+    if (groups.size > 1) {
+      const summary = [...groups].map(([handle, platforms]) => `@${handle} (${platforms.join(', ')})`).join(', ');
+      return fail(`Handles differ across platforms: ${summary}`, table);
+    }
+    const [handle] = [...groups.keys()];
+    if (brand && !matchesBrand(handle, handles[0].platform)) {
+      return fail(`@${handle} is used on ${platformCount} platform(s) but doesn't match the brand name`, table);
+    }
+    // A single platform's handle has nothing to be consistent with
+    if (platformCount < 2) return null;
+    return pass(`@${handle} is used consistently across ${platformCount} platforms`, table);
+  },
+
+  'open-graph-tags': ({ meta, socialPreview }) => {
+    if (!socialPreview) {
+      const ogTags = meta.ogTags || {};
+      const missing = REQUIRED_OG_TAGS.filter(tag => !ogTags[tag]);
+      return missing.length === 0
+        ? pass(`og:${REQUIRED_OG_TAGS.join(', og:')} present`)
+        : fail(`Missing ${missing.map(tag => `og:${tag}`).join(', ')}`);
+    }
+    const { openGraph, article, twitter, image, missing, issues, card } = socialPreview;
+    const table = {
+      columns: ['Tag', 'Value'],
+      rows: [
+        ...Object.entries(openGraph).map(([key, value]) => [`og:${key}`, value]),
+        ...Object.entries(article).map(([key, value]) => [`article:${key}`, value]),
+        ...Object.entries(twitter).map(([key, value]) => [`twitter:${key}`, value]),
+        ...missing.map(tag => [tag, '(missing)']),
+        ...(image ? [['Share image', [
+          image.statusCode ? `HTTP ${image.statusCode}` : image.error || '',
+          image.width && image.height ? `${image.width}×${image.height} (${image.aspectRatio}:1)` : '',
+          image.bytes !== undefined ? formatBytes(image.bytes) : '',
+          image.format?.toUpperCase() || '',
+        ].filter(Boolean).join(', ')]] : []),
+      ],
+    };
+    const result = missing.length > 0
+      ? fail(`Missing ${missing.join(', ')}${issues.length > missing.length ? `; ${issues.length - missing.length} other issue(s)` : ''}`, table)
+      : image && !image.usable
+      ? fail(`Share image won't show as a large preview: ${image.issues.join('; ')}`, table)
+      : pass(`Open Graph and Twitter Card tags complete${issues.length ? `; ${issues.join('; ')}` : ''}`, table);
+    return { ...result, preview: card };
+  },
+
+};
+
+/**
+ * Derive pre-set answers from an automated analysis
+ * Only checks in `checkIds` are returned, so results match the active categories
+ */
+export function getAutoDetectedChecks(
+  analysis: AnalysisResult,
+  checkIds: string[],
+  context: DetectionContext = {}
+): Record<string, AutoDetectedCheck> {
+  const detected: Record<string, AutoDetectedCheck> = {};
+  if (analysis.error) {
+    return detected;
+  }
+
+  for (const checkId of checkIds) {
+    const detector = detectors[checkId];
+    const result = detector ? detector(analysis, context) : null;
+    if (result) {
+      detected[checkId] = result;
+    }
+  }
+
+  return detected;
+}
+
+/**
+ * Format evidence for the check's note field
+ */
+export function formatAutoDetectedNote(check: AutoDetectedCheck): string {
+  return `Auto-detected: ${check.evidence}`;
+}
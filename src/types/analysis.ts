@@ -0,0 +1,814 @@
+// Automated site analysis types, returned by POST /api/analyze
+
+export interface AnalysisResult {
+  url: string;
+  fetchedAt: string;
+  robotsTxt: {
+    exists: boolean;
+    statusCode?: number;
+    // Answered 5xx or not at all, so crawlers treat the whole site as disallowed
+    unreachable?: boolean;
+    content?: string;
+    blocksAICrawlers?: boolean;
+    errors?: RobotsParseError[];
+    sitemaps?: string[];
+    crawlers?: RobotsCrawlerAccess[];
+    // Audited URL and homepage links that Googlebot may not crawl
+    blockedUrls?: { url: string; rule: string }[];
+  };
+  sitemap: {
+    exists: boolean;
+    url?: string;
+    inRobotsTxt?: boolean;
+    files?: SitemapFile[];
+    totalUrls?: number;
+    // <url> entries carrying <xhtml:link> hreflang alternates
+    hreflangUrls?: number;
+    sampledUrls?: SitemapUrlCheck[];
+  };
+  meta: {
+    title?: string;
+    titleLength?: number;
+    description?: string;
+    descriptionLength?: number;
+    favicon?: string;
+    ogTags?: Record<string, string>;
+  };
+  headings: {
+    h1Count: number;
+    h1Tags: string[];
+    // Every H1-H6 in document order; nesting follows from the levels
+    outline?: HeadingItem[];
+    issues?: string[];
+  };
+  // Text content of the audited page
+  content?: {
+    wordCount: number;
+    paragraphCount: number;
+    // Visible text as a percentage of the HTML size
+    textHtmlRatio: number;
+    listCount: number;
+    tableCount: number;
+    // The paragraph directly under the first H1, if there is one
+    h1Description?: string;
+  };
+  schema: {
+    hasOrganization: boolean;
+    hasPerson: boolean;
+    hasFAQ: boolean;
+    hasArticle: boolean;
+    hasBreadcrumb: boolean;
+    hasProduct: boolean;
+    hasLocalBusiness: boolean;
+    // Every schema.org type found, including nested entities
+    types: string[];
+  };
+  // JSON-LD, microdata and RDFa parsed into entities and validated
+  structuredData?: {
+    // Top-level entities; @graph members count as top-level
+    entities: StructuredDataEntity[];
+    // JSON-LD blocks that failed to parse
+    errors: string[];
+    validations: StructuredDataValidation[];
+  };
+  pages: {
+    hasAbout: boolean;
+    hasPrivacy: boolean;
+    hasTerms: boolean;
+    hasContact: boolean;
+  };
+  social: {
+    // Profile links; share/intent links are kept apart as they don't point at the brand
+    links: { platform: string; url: string; handle?: string; inFooter: boolean }[];
+    shareLinks: { platform: string; url: string }[];
+    // Organization/LocalBusiness sameAs URLs, with the platform when it's a social one
+    sameAs: { platform?: string; url: string; handle?: string }[];
+    hasTwitter: boolean;
+    hasFacebook: boolean;
+    hasLinkedIn: boolean;
+    hasInstagram: boolean;
+    hasYouTube: boolean;
+    hasTikTok: boolean;
+    hasPinterest: boolean;
+    hasThreads: boolean;
+    hasBluesky: boolean;
+    hasSnapchat: boolean;
+  };
+  technical: {
+    hasCanonical: boolean;
+    canonicalUrl?: string;
+    // From meta robots or the X-Robots-Tag header
+    hasNoindex: boolean;
+    loadTimeMs?: number;
+  };
+  // Response headers of the main document
+  headers?: {
+    statusCode: number;
+    // Served over HTTPS, the only case where browsers honour HSTS
+    secure: boolean;
+    raw: Record<string, string>;
+    hsts: {
+      present: boolean;
+      value?: string;
+      maxAge?: number;
+      includeSubDomains: boolean;
+      preload: boolean;
+      // Meets the hstspreload.org requirements
+      preloadEligible: boolean;
+      issues: string[];
+    };
+    xRobotsTag: XRobotsTagRule[];
+    // X-Robots-Tag blocks indexing for all crawlers or Googlebot
+    noindex: boolean;
+    contentEncoding?: string;
+    cacheControl?: { value: string; directives: Record<string, string | true> };
+    vary?: string[];
+    // Absolute URL from a `Link: <...>; rel="canonical"` header
+    linkCanonical?: string;
+    contentSecurityPolicy: { present: boolean; reportOnly: boolean; value?: string };
+    xContentTypeOptions?: string;
+    nosniff: boolean;
+  };
+  canonical?: {
+    declarations: CanonicalDeclaration[];
+    // The canonical search engines would use: the first one outside the body
+    canonicalUrl?: string;
+    selfReferencing: boolean;
+    // More than one distinct canonical URL declared
+    conflicting: boolean;
+    target?: {
+      url: string;
+      statusCode?: number;
+      redirectsTo?: string;
+      noindex: boolean;
+      error?: string;
+    };
+    crossDomain: boolean;
+    paginated: boolean;
+    // Target carries filter, sort or tracking parameters
+    parameterised: boolean;
+    issues: string[];
+    // Across crawled pages, present when the site was crawled
+    sitewide?: {
+      pagesChecked: number;
+      // Indexable, parameter-free pages without a self-referencing canonical
+      notSelfReferencing: { url: string; canonicalUrl?: string }[];
+      // Canonicals pointing at crawled URLs that redirect, error or are noindexed
+      conflicts: { url: string; canonicalUrl: string; problem: string }[];
+      // Filtered/sorted URLs, ok when they canonicalise to a parameter-free URL
+      parameterised: { url: string; canonicalUrl?: string; ok: boolean }[];
+    };
+  };
+  hreflang?: {
+    // The audited page's annotations from its HTML, Link header and sitemap entry
+    annotations: HreflangLink[];
+    invalidCodes: { hreflang: string; reason: string }[];
+    hasXDefault: boolean;
+    selfReferencing: boolean;
+    alternates: HreflangAlternate[];
+    // Square matrix over `locales`: links[i][j] is true when the page for locale i
+    // annotates the URL for locale j
+    matrix: { locales: string[]; links: boolean[][] };
+    issues: string[];
+  };
+  // Repeated fresh-connection requests for the audited page
+  timing?: {
+    url: string;
+    samples: TimingSample[];
+    // Per phase across successful samples, in ms
+    stats: Record<TimingPhase, TimingStats>;
+    // One request per Accept-Encoding value
+    encodings: EncodingCheck[];
+    // HTML size once decompressed
+    decodedBytes?: number;
+    // Bytes on the wire for a browser-like Accept-Encoding
+    transferredBytes?: number;
+    contentEncoding?: string;
+  };
+  // The audited URL requested as visitors from several locales, against a plain
+  // request; from the follow-up site request
+  geoRedirects?: {
+    baseline: GeoVariant;
+    // A second plain request, to tell per-request changes from per-locale ones
+    repeat: GeoVariant;
+    variants: GeoVariant[];
+    // Two plain requests served the same text, so content hashes are comparable
+    stableContent: boolean;
+    // Some locale ended on a different URL from the plain request
+    redirects: boolean;
+    // Some locale got different text or lang at the same URL
+    contentVaries: boolean;
+    issues: string[];
+  };
+  // Requests for made-up URLs on the audited host
+  notFound?: {
+    probes: NotFoundProbe[];
+    // Any probe answered with a 200 or a redirect to the homepage
+    softNotFound: boolean;
+    // The error page served for the first probe, when it was HTML
+    page?: {
+      title?: string;
+      mentionsNotFound: boolean;
+      navigationLinks: number;
+      hasSearch: boolean;
+      hasHomeLink: boolean;
+    };
+    issues: string[];
+  };
+  // Images on the audited page, with a sample fetched for weight and dimensions
+  images?: {
+    // <img> elements, the ones alt text applies to
+    imgCount: number;
+    altPresent: number;
+    altEmpty: number;
+    altMissing: number;
+    // Percentages of <img> elements, 0-100
+    altCoverage: number;
+    descriptiveFileNames: number;
+    fileNameCoverage: number;
+    lazyLoaded: number;
+    fetched: number;
+    totalBytes: number;
+    items: ImageItem[];
+    // Alt coverage across crawled pages, present when the site was crawled
+    sitewide?: { pagesChecked: number; imgCount: number; altPresent: number; altCoverage: number };
+  };
+  // llms.txt, AI crawler access and the Q&A content AI answers quote from
+  aiReadiness?: {
+    llmsTxt: LlmsTxtCheck;
+    // Only checked for existence; the format leaves its content open
+    llmsFullTxt: LlmsTxtCheck;
+    // Whether each AI crawler may fetch the audited page and /llms.txt
+    crawlers: { agent: string; page: boolean; llmsTxt: boolean }[];
+    faqs: FaqItem[];
+    answers: AnswerCheck[];
+    // Sentences with figures, and defined terms, on the audited page
+    facts: { statistics: string[]; definitions: string[] };
+  };
+  // Open Graph and Twitter Card tags on the audited page, keyed without their prefix
+  socialPreview?: {
+    openGraph: Record<string, string>;
+    article: Record<string, string>;
+    twitter: Record<string, string>;
+    card: SocialPreviewCard;
+    // Required tags that are absent, e.g. 'og:image', 'twitter:card'
+    missing: string[];
+    image?: SocialImage;
+    issues: string[];
+  };
+  // Sampled product and collection pages, present when the audit is in ecommerce mode
+  ecommerce?: {
+    products: ProductPageCheck[];
+    collections: CollectionPageCheck[];
+  };
+  // Business name, address and phone found on the audited page
+  nap?: NapDetails;
+  // Authors and dates on the audited page, or on sampled articles when it isn't one
+  authorship?: {
+    pages: AuthorshipPage[];
+    // Same-site author URLs from those pages, fetched
+    profiles: AuthorProfile[];
+    issues: string[];
+  };
+  // Leftover placeholder copy and the footer copyright on the audited page
+  hygiene?: {
+    placeholders: PlaceholderMatch[];
+    copyright?: {
+      text: string;
+      // Latest year in the notice, e.g. 2024 for "© 2019-2024"
+      year?: number;
+      location: string;
+      inFooter: boolean;
+      // Year written by a script, so it's missing from the HTML but current in the browser
+      dynamic: boolean;
+    };
+    // At analysis time, to compare the copyright year against
+    currentYear: number;
+  };
+  // How much of the audited page is in the HTML before any JavaScript runs
+  rendering?: {
+    frameworks: string[];
+    // SPA mount points (e.g. '#root') with nothing server-rendered inside
+    emptyMounts: string[];
+    // Inline scripts holding framework state, e.g. __NEXT_DATA__
+    hydrationBytes: number;
+    hydrationWords: number;
+    visibleWords: number;
+    visibleLinks: number;
+    navigationLinks: number;
+    noscript: { words: number; links: number; requiresJs: boolean };
+    // Content visible without JS, 0-100
+    score: number;
+    issues: string[];
+  };
+  // Scripts, stylesheets and fonts on the audited page, fetched for their size
+  resources?: {
+    // In document order; stylesheets pulled in by @import follow the file importing them
+    items: PageResource[];
+    // Bytes by resource type, images and HTML included
+    weight: Record<ResourceType, number>;
+    totalBytes: number;
+    // Part of totalBytes served from other hosts
+    thirdPartyBytes: number;
+    // Sustainable Web Design model estimate, in grams per page view
+    co2Grams: number;
+    // Website Carbon rating band, A+ to F
+    co2Rating: string;
+    issues: string[];
+  };
+  // http:// subresources on HTTPS pages, across the crawl when there is one
+  mixedContent?: {
+    pagesScanned: number;
+    pagesAffected: number;
+    activeCount: number;
+    passiveCount: number;
+    resources: (MixedContentItem & { pageUrl: string })[];
+  };
+  redirects?: {
+    audited: RedirectTrace;
+    // http/https x www/non-www versions of the audited URL
+    variants: RedirectTrace[];
+    // Origin the audited URL finally resolves to
+    canonicalOrigin?: string;
+    converges: boolean;
+    issues: string[];
+  };
+  // Multi-page crawl, from the follow-up site request
+  crawl?: {
+    startUrl: string;
+    options: CrawlOptions;
+    pages: CrawledPage[];
+    // True when the page, depth or time limit stopped the crawl early
+    truncated: boolean;
+    blockedByRobots: string[];
+    // Sitemap URLs that no crawled page links to
+    orphanCandidates: string[];
+    durationMs: number;
+  };
+  // Checks left out because the request ran out of time
+  skipped?: string[];
+  error?: string;
+}
+
+// Site-wide checks returned by POST /api/analyze/site, which the audit page
+// requests after the first result and folds into it
+export interface SiteAnalysisResult {
+  url: string;
+  fetchedAt: string;
+  crawl?: AnalysisResult['crawl'];
+  // Across the crawled pages
+  mixedContent?: AnalysisResult['mixedContent'];
+  canonicalSitewide?: NonNullable<AnalysisResult['canonical']>['sitewide'];
+  imagesSitewide?: NonNullable<AnalysisResult['images']>['sitewide'];
+  ecommerce?: AnalysisResult['ecommerce'];
+  geoRedirects?: AnalysisResult['geoRedirects'];
+  skipped?: string[];
+  error?: string;
+}
+
+export interface RobotsParseError {
+  line: number;
+  content: string;
+  message: string;
+}
+
+export interface RobotsCrawlerAccess {
+  agent: string;
+  type: 'search' | 'ai';
+  allowed: boolean;
+  // The user-agent group that applied ('*' for the catch-all group)
+  matchedAgent?: string;
+  rule?: string;
+}
+
+export interface XRobotsTagRule {
+  // Lowercased user agent, or '*' when the directives apply to all crawlers
+  agent: string;
+  directives: string[];
+}
+
+export interface SitemapFile {
+  url: string;
+  source: 'robots.txt' | 'default-location' | 'sitemap-index';
+  type: 'urlset' | 'sitemapindex' | 'unknown';
+  statusCode?: number;
+  gzipped: boolean;
+  sizeBytes?: number;
+  urlCount: number;
+  errors: string[];
+  // Child sitemaps listed by a sitemap index
+  children?: string[];
+}
+
+export interface SitemapUrlCheck {
+  url: string;
+  statusCode?: number;
+  redirectsTo?: string;
+  noindex: boolean;
+  canonicalUrl?: string;
+  issues: string[];
+}
+
+export interface CrawlOptions {
+  maxPages: number;
+  maxDepth: number;
+  concurrency: number;
+}
+
+export interface CrawledPage {
+  url: string;
+  statusCode?: number;
+  contentType?: string;
+  redirectsTo?: string;
+  title?: string;
+  description?: string;
+  h1s: string[];
+  canonicalUrl?: string;
+  // Declares more than one distinct canonical
+  canonicalConflict?: boolean;
+  noindex: boolean;
+  // Unset for pages that aren't HTTPS HTML
+  mixedContent?: MixedContentItem[];
+  // <img> elements and how many have non-empty alt text
+  imageAlt?: { total: number; present: number };
+  // The paragraph directly under the first H1
+  h1Description?: string;
+  // Lorem ipsum, TODOs and other leftover placeholder copy
+  placeholders?: PlaceholderMatch[];
+  nap?: NapDetails;
+  // Clicks from the start URL
+  depth: number;
+  // Number of crawled pages linking here, with a sample of them
+  inlinks: number;
+  linkedFrom: string[];
+  error?: string;
+}
+
+export interface CanonicalDeclaration {
+  source: 'head' | 'body' | 'link-header';
+  // As written in the markup or header
+  href: string;
+  url: string;
+  relative: boolean;
+}
+
+export interface HreflangLink {
+  hreflang: string;
+  href: string;
+  source: 'html' | 'link-header' | 'sitemap';
+}
+
+export interface HreflangAlternate {
+  hreflang: string;
+  url: string;
+  statusCode?: number;
+  redirectsTo?: string;
+  canonicalUrl?: string;
+  noindex: boolean;
+  // Annotates itself
+  selfReferencing: boolean;
+  // Annotates the audited page back
+  returnTag: boolean;
+  error?: string;
+  issues: string[];
+}
+
+export interface StructuredDataEntity {
+  format: 'json-ld' | 'microdata' | 'rdfa';
+  // schema.org type names without the vocabulary, e.g. 'Product'
+  types: string[];
+  id?: string;
+  properties: Record<string, (string | StructuredDataEntity)[]>;
+}
+
+export interface StructuredDataValidation {
+  // The validated type, e.g. 'Article' for a BlogPosting
+  type: string;
+  declaredTypes: string[];
+  format: StructuredDataEntity['format'];
+  name?: string;
+  // Property paths, e.g. 'offers.priceCurrency' or 'mainEntity[2].acceptedAnswer'
+  missingRequired: string[];
+  missingRecommended: string[];
+}
+
+// dns/connect/tls/wait/download are consecutive; ttfb and total are measured from the start
+export type TimingPhase = 'dns' | 'connect' | 'tls' | 'wait' | 'download' | 'ttfb' | 'total';
+
+export interface TimingSample {
+  phases?: Record<TimingPhase, number>;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface TimingStats {
+  min: number;
+  median: number;
+  p75: number;
+  p95: number;
+  max: number;
+}
+
+export interface EncodingCheck {
+  requested: 'identity' | 'gzip' | 'br' | 'zstd';
+  // Content-Encoding the server answered with
+  contentEncoding?: string;
+  supported: boolean;
+  transferredBytes?: number;
+  error?: string;
+}
+
+export interface GeoVariant {
+  // Locale label, e.g. 'de-DE', or 'Default' for a request without locale headers
+  label: string;
+  acceptLanguage?: string;
+  // Sent as CF-IPCountry and the other CDN country headers
+  country?: string;
+  finalUrl?: string;
+  finalStatus?: number;
+  // Each hop as "302 → https://example.com/de/"
+  redirects: string[];
+  lang?: string;
+  title?: string;
+  // First 12 hex digits of a SHA-256 of the visible text
+  contentHash?: string;
+  contentLanguage?: string;
+  vary?: string;
+  error?: string;
+}
+
+export interface NotFoundProbe {
+  url: string;
+  redirect: RedirectTrace;
+  // Share of words in common with the homepage, 0-1
+  similarityToHome?: number;
+  soft: boolean;
+  // Why the probe counts as a soft 404
+  reason?: string;
+}
+
+export interface HeadingItem {
+  level: number;
+  text: string;
+  empty: boolean;
+  // Hidden with the hidden attribute, aria-hidden, inline display:none or a screen-reader-only class
+  hidden: boolean;
+  // Jumps more than one level down from the previous heading, e.g. H2 -> H4
+  skipsLevel: boolean;
+}
+
+export interface LlmsTxtCheck {
+  url: string;
+  // Served as text; an HTML fallback page doesn't count
+  exists: boolean;
+  statusCode?: number;
+  contentType?: string;
+  bytes?: number;
+  // The H1 and blockquote summary
+  title?: string;
+  summary?: string;
+  sections: { title: string; links: number }[];
+  linkCount: number;
+  error?: string;
+  issues: string[];
+}
+
+export interface FaqItem {
+  question: string;
+  // Truncated for evidence
+  answer: string;
+  source: 'schema' | 'details' | 'heading' | 'definition-list';
+}
+
+export interface AnswerCheck {
+  // A question-style H2-H4
+  question: string;
+  // First sentence under it
+  answer?: string;
+  words: number;
+  // The first block is a paragraph that opens with a short answer
+  direct: boolean;
+  reason?: string;
+}
+
+// What a shared link shows, after X falls back to og:* and everything to <title>
+export interface SocialPreviewCard {
+  title?: string;
+  description?: string;
+  image?: string;
+  siteName?: string;
+  // From og:url, or the page URL, without www.
+  domain: string;
+  twitterCard?: string;
+}
+
+export interface SocialImage {
+  // Resolved against the page
+  url: string;
+  // As written in the tag
+  declaredUrl: string;
+  relative: boolean;
+  // Absolute, loads, and is a format, size and weight every platform shows as a large card
+  usable: boolean;
+  statusCode?: number;
+  contentType?: string;
+  bytes?: number;
+  format?: string;
+  width?: number;
+  height?: number;
+  // Width over height, to two decimal places
+  aspectRatio?: number;
+  error?: string;
+  issues: string[];
+}
+
+export interface BreadcrumbCheck {
+  found: boolean;
+  source?: 'schema' | 'markup';
+  // Item names in trail order
+  items: string[];
+  issues: string[];
+}
+
+export interface ProductPageCheck {
+  url: string;
+  statusCode?: number;
+  error?: string;
+  // As declared, e.g. '24.99', or as shown when only the page text has it
+  price?: string;
+  currency?: string;
+  priceSource?: 'schema' | 'meta' | 'microdata' | 'text';
+  // The price as shown on the page, e.g. '£24.99'
+  visiblePrice?: string;
+  // e.g. 'InStock' from schema, or 'Only 3 left' from the page
+  availability?: string;
+  availabilitySource?: 'schema' | 'text';
+  visibleAvailability?: string;
+  addToCart: boolean;
+  // aggregateRating values and/or the review platform embedded on the page
+  reviews?: { rating?: number; count?: number; widget?: string };
+  // First link found for each policy, tel: or mailto: for contact when there's no page
+  links: { shipping?: string; returns?: string; warranty?: string; contact?: string };
+  // A specification table/list or a specs/features/details section
+  hasSpecs: boolean;
+  breadcrumbs: BreadcrumbCheck;
+}
+
+export interface CollectionPageCheck {
+  url: string;
+  statusCode?: number;
+  error?: string;
+  // Distinct product URLs linked from the page
+  productLinks: number;
+  // Elements holding exactly one product link
+  productCards: number;
+  cardsWithCta: number;
+  // A slider/carousel containing product links
+  carousel: boolean;
+  // Facet and sort parameters in links back to this collection
+  filterParams: string[];
+  // The first filtered URL, fetched to see where its canonical points
+  filterCanonical?: { url: string; statusCode?: number; canonicalUrl?: string; toCollection: boolean; error?: string };
+  pagination: { found: boolean; relNext?: string };
+  breadcrumbs: BreadcrumbCheck;
+  reviewsWidget?: string;
+  hasFaqs: boolean;
+  faqSchema: boolean;
+}
+
+export interface PostalAddressParts {
+  street?: string;
+  locality?: string;
+  region?: string;
+  postalCode?: string;
+  // ISO 3166 code when recognised, e.g. 'GB'
+  country?: string;
+}
+
+export interface NapDetails {
+  // Used to read phone numbers written without a country code
+  country?: string;
+  names: { value: string; source: 'schema' | 'open-graph' | 'footer' }[];
+  // e164 is unset when the number can't be normalised, e.g. the country is unknown
+  phones: { raw: string; e164?: string; source: 'schema' | 'tel-link' | 'text' }[];
+  addresses: { raw: string; parts: PostalAddressParts; source: 'schema' | 'address' | 'footer' }[];
+  openingHours: string[];
+}
+
+export interface AuthorMention {
+  name?: string;
+  url?: string;
+  source: 'byline' | 'rel-author' | 'meta' | 'open-graph' | 'schema';
+}
+
+export interface DateMention {
+  // As written, e.g. '2024-03-05T09:00:00Z' or 'March 5, 2024'
+  value: string;
+  // YYYY-MM-DD, when the value parses
+  iso?: string;
+  kind: 'published' | 'modified';
+  source: 'time' | 'schema' | 'open-graph' | 'text';
+}
+
+export interface AuthorshipPage {
+  url: string;
+  // Article schema, og:type=article or a blog/news URL
+  isArticle: boolean;
+  authors: AuthorMention[];
+  dates: DateMention[];
+  // Earliest published and latest modified date, YYYY-MM-DD
+  published?: string;
+  modified?: string;
+  // An author bio box on the page itself
+  hasBio: boolean;
+  // Every source names the same author
+  authorsConsistent: boolean;
+  // Sources agree on the published date, and it isn't after the modified date
+  datesConsistent: boolean;
+}
+
+export interface AuthorProfile {
+  url: string;
+  name?: string;
+  statusCode?: number;
+  hasBio: boolean;
+  bioExcerpt?: string;
+  socialLinks: number;
+  // Links to the author's articles on the site
+  articleLinks: number;
+  error?: string;
+}
+
+export interface PlaceholderMatch {
+  kind: 'lorem-ipsum' | 'todo' | 'coming-soon' | 'template-token' | 'cms-default';
+  match: string;
+  // The matched text with some of its surroundings
+  snippet: string;
+  // CSS-style path to the element, e.g. 'main#content > section > p'
+  location: string;
+}
+
+export interface ImageItem {
+  url: string;
+  source: 'img' | 'picture' | 'css';
+  // Only for <img>; undefined when the attribute is absent
+  alt?: string;
+  fileName: string;
+  // Inside a product listing/page or a carousel, for the ecommerce checks
+  context?: 'product' | 'carousel';
+  // e.g. 'webp', 'jpeg', from the file's magic bytes when fetched
+  format?: string;
+  // <picture> offers a WebP/AVIF source alongside this one
+  hasModernSource?: boolean;
+  bytes?: number;
+  intrinsic?: { width: number; height: number };
+  // From the width/height attributes - there's no layout engine to measure the rendered size
+  declared?: { width?: number; height?: number };
+  lazy: boolean;
+  statusCode?: number;
+  error?: string;
+  issues: { kind: 'alt' | 'file-name' | 'optimisation' | 'status'; message: string }[];
+}
+
+export type ResourceType = 'html' | 'css' | 'js' | 'image' | 'font' | 'other';
+
+export interface PageResource {
+  // Undefined for inline <script> and <style> blocks
+  url?: string;
+  type: ResourceType;
+  loading: 'sync' | 'async' | 'defer' | 'module' | 'preload' | 'inline';
+  inHead: boolean;
+  // Holds up first paint: sync scripts and stylesheets for all media, in the <head>
+  blocking: boolean;
+  thirdParty: boolean;
+  // The stylesheet whose @import requested this one
+  importedBy?: string;
+  bytes?: number;
+  timeMs?: number;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface MixedContentItem {
+  url: string;
+  // Where the reference was found, e.g. '<img srcset>'
+  element: string;
+  // Active content (scripts, styles, frames, forms) is blocked; passive content loads with a warning
+  category: 'active' | 'passive';
+}
+
+export interface RedirectHop {
+  url: string;
+  statusCode: number;
+  location: string;
+}
+
+export interface RedirectTrace {
+  label: string;
+  startUrl: string;
+  hops: RedirectHop[];
+  finalUrl?: string;
+  finalStatus?: number;
+  loop: boolean;
+  error?: string;
+}
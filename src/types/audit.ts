@@ -560,6 +560,13 @@ export const AI_SEARCH_CHECKS: Omit<AuditCheck, 'passed' | 'score' | 'details' |
     description: 'Is the brand/site recognised as an entity (appears in knowledge panels, Wikipedia etc)?',
     importance: 'medium',
   },
+  // Low
+  {
+    id: 'llms-txt',
+    name: 'llms.txt',
+    description: 'Is there an /llms.txt in the llmstxt.org format pointing AI tools at key content?',
+    importance: 'low',
+  },
 ];
 
 export const PERFORMANCE_CHECKS: Omit<AuditCheck, 'passed' | 'score' | 'details' | 'recommendations'>[] = [